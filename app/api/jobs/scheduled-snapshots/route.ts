@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { timingSafeEqual } from 'crypto'
+import { runScheduledSnapshots } from '@/lib/services/scheduledSnapshotService'
+
+// Compare the bearer token without leaking its length or content through timing
+const isAuthorized = (authHeader: string | null, secret: string): boolean => {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return false
+  const provided = Buffer.from(authHeader.slice('Bearer '.length))
+  const expected = Buffer.from(secret)
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
+// Called by cron / PM2 (see scripts/run-scheduled-snapshots.js) to take due automatic snapshots
+export async function POST(request: NextRequest) {
+  try {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!supabaseUrl || !serviceRoleKey || !cronSecret) {
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    if (!isAuthorized(request.headers.get('authorization'), cronSecret)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey)
+    const result = await runScheduledSnapshots(supabaseAdmin)
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    console.error('Error in scheduled-snapshots job:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
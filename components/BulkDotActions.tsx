@@ -0,0 +1,152 @@
+"use client"
+
+import React, { useState } from "react"
+import { Archive as ArchiveIcon, Trash2, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Collection, ColorPaletteConfig } from "./HillChartApp"
+
+interface BulkDotActionsProps {
+  selectedCount: number
+  colorPalette: ColorPaletteConfig
+  // Collections the selection can move to
+  targetCollections: Collection[]
+  onMoveBy: (delta: number) => void
+  onSetColor: (color: string) => void
+  onSetSize: (size: number) => void
+  onArchive: () => void
+  onDelete: () => void
+  onMoveToCollection: (collectionId: string) => void
+  onClear: () => void
+}
+
+// Actions applied to every selected dot at once
+export const BulkDotActions: React.FC<BulkDotActionsProps> = ({
+  selectedCount,
+  colorPalette,
+  targetCollections,
+  onMoveBy,
+  onSetColor,
+  onSetSize,
+  onArchive,
+  onDelete,
+  onMoveToCollection,
+  onClear,
+}) => {
+  const [delta, setDelta] = useState("10")
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const parsedDelta = parseInt(delta, 10)
+
+  return (
+    <div className="p-3 rounded-lg border border-primary/50 bg-primary/5 space-y-2" data-testid="bulk-dot-actions">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{selectedCount} selected</span>
+        <Button variant="ghost" size="sm" onClick={onClear} className="h-7 w-7 p-0" title="Clear selection">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* Move by a delta */}
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground w-12">Move</span>
+        <Input
+          type="number"
+          min={-100}
+          max={100}
+          value={delta}
+          onChange={(e) => setDelta(e.target.value)}
+          className="w-20 h-8 text-xs"
+          aria-label="Move by percent"
+        />
+        <span className="text-xs text-muted-foreground">%</span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs ml-auto"
+          onClick={() => onMoveBy(parsedDelta)}
+          disabled={isNaN(parsedDelta) || parsedDelta === 0}
+        >
+          Apply
+        </Button>
+      </div>
+
+      {/* Recolor and resize */}
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground w-12">Style</span>
+        <Select onValueChange={onSetColor} value="">
+          <SelectTrigger className="w-28 h-8 text-xs" aria-label="Set color">
+            <SelectValue placeholder="Color" />
+          </SelectTrigger>
+          <SelectContent>
+            {colorPalette.colors.map((option) => (
+              <SelectItem key={option.color} value={option.color}>
+                <div className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full border border-gray-300" style={{ backgroundColor: option.color }} />
+                  {option.name}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select onValueChange={(size) => onSetSize(Number(size))} value="">
+          <SelectTrigger className="w-20 h-8 text-xs" aria-label="Set size">
+            <SelectValue placeholder="Size" />
+          </SelectTrigger>
+          <SelectContent>
+            {["XS", "S", "M", "L", "XL"].map((label, index) => (
+              <SelectItem key={label} value={String(index + 1)}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Move to another collection */}
+      {targetCollections.length > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground w-12">To</span>
+          <Select onValueChange={onMoveToCollection} value="">
+            <SelectTrigger className="flex-1 h-8 text-xs" aria-label="Move to collection">
+              <SelectValue placeholder="Move to collection..." />
+            </SelectTrigger>
+            <SelectContent>
+              {targetCollections.map((collection) => (
+                <SelectItem key={collection.id} value={collection.id}>
+                  {collection.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 h-8 text-xs" onClick={onArchive}>
+          <ArchiveIcon className="w-3 h-3 mr-1" />
+          Archive
+        </Button>
+        {confirmingDelete ? (
+          <Button
+            variant="destructive"
+            size="sm"
+            className="flex-1 h-8 text-xs"
+            onClick={() => {
+              setConfirmingDelete(false)
+              onDelete()
+            }}
+            onBlur={() => setConfirmingDelete(false)}
+          >
+            Delete {selectedCount}?
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" className="flex-1 h-8 text-xs" onClick={() => setConfirmingDelete(true)}>
+            <Trash2 className="w-3 h-3 mr-1" />
+            Delete
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
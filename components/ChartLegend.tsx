@@ -0,0 +1,34 @@
+"use client"
+
+import React from "react"
+import { PaletteColor } from "./HillChartApp"
+
+// Legend entries stack in columns in the top-left corner, above the foot of the hill
+const LEGEND_ROWS = 6
+const LEGEND_ROW_HEIGHT = 12
+const LEGEND_COLUMN_WIDTH = 100
+const MAX_NAME_LENGTH = 16
+
+interface ChartLegendProps {
+  colors: PaletteColor[]
+}
+
+// Color names of the collection's palette, drawn inside the chart SVG so exports include it
+export const ChartLegend: React.FC<ChartLegendProps> = ({ colors }) => (
+  <g data-testid="chart-legend">
+    {colors.map((entry, index) => {
+      const x = Math.floor(index / LEGEND_ROWS) * LEGEND_COLUMN_WIDTH
+      const y = 8 + (index % LEGEND_ROWS) * LEGEND_ROW_HEIGHT
+      const name = entry.name.length > MAX_NAME_LENGTH ? `${entry.name.substring(0, MAX_NAME_LENGTH - 1)}…` : entry.name
+
+      return (
+        <g key={entry.color}>
+          <circle cx={x + 4} cy={y} r="4" fill={entry.color} />
+          <text x={x + 12} y={y + 3} className="text-[8px] fill-muted-foreground font-normal">
+            {name}
+          </text>
+        </g>
+      )
+    })}
+  </g>
+)
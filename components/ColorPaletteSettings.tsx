@@ -0,0 +1,114 @@
+"use client"
+
+import React from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { Switch } from "./ui/switch"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Button } from "./ui/button"
+import { ColorPaletteConfig, PaletteColor } from "./HillChartApp"
+import { DEFAULT_COLOR_PALETTE } from "@/lib/utils/colorPaletteUtils"
+
+const MAX_COLORS = 12
+const extraColors = ["#eab308", "#14b8a6", "#ec4899", "#64748b", "#a855f7", "#84cc16", "#06b6d4"]
+
+interface ColorPaletteSettingsProps {
+  palette: ColorPaletteConfig
+  onPaletteChange: (palette: ColorPaletteConfig) => void
+}
+
+export const ColorPaletteSettings: React.FC<ColorPaletteSettingsProps> = ({
+  palette,
+  onPaletteChange,
+}) => {
+  const updateColor = (index: number, update: Partial<PaletteColor>) => {
+    onPaletteChange({
+      ...palette,
+      colors: palette.colors.map((entry, i) => (i === index ? { ...entry, ...update } : entry)),
+    })
+  }
+
+  const handleColorChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const color = e.target.value.toLowerCase()
+    // Each color can only have one meaning
+    if (palette.colors.some((entry, i) => i !== index && entry.color === color)) return
+    updateColor(index, { color })
+  }
+
+  const handleAddColor = () => {
+    const used = new Set(palette.colors.map((entry) => entry.color))
+    const color = [...DEFAULT_COLOR_PALETTE.colors.map((entry) => entry.color), ...extraColors].find((c) => !used.has(c))
+    if (!color) return
+    onPaletteChange({ ...palette, colors: [...palette.colors, { color, name: "New color" }] })
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Legend Toggle */}
+      <div className="flex items-center justify-between">
+        <Label htmlFor="color-legend-toggle" className="text-sm font-medium">
+          Show legend on chart
+        </Label>
+        <Switch
+          id="color-legend-toggle"
+          checked={palette.showLegend}
+          onCheckedChange={(showLegend) => onPaletteChange({ ...palette, showLegend })}
+        />
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Give each color a meaning, e.g. &quot;Blocked&quot; or &quot;On track&quot;. Dot color pickers offer these colors.
+      </div>
+
+      <div className="space-y-2">
+        {palette.colors.map((entry, index) => (
+          <div key={index} className="flex items-center gap-2" data-testid="palette-color">
+            <input
+              type="color"
+              value={entry.color}
+              onChange={handleColorChange(index)}
+              className="w-8 h-8 rounded border border-input cursor-pointer shrink-0"
+              title="Choose color"
+            />
+            <Input
+              value={entry.name}
+              onChange={(e) => updateColor(index, { name: e.target.value })}
+              placeholder="Meaning"
+              maxLength={24}
+              className="h-8 text-sm"
+              aria-label="Color name"
+            />
+            {palette.colors.length > 1 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onPaletteChange({ ...palette, colors: palette.colors.filter((_, i) => i !== index) })}
+                className="h-8 w-8 p-0 shrink-0"
+                title="Remove color"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        {palette.colors.length < MAX_COLORS && (
+          <Button variant="outline" size="sm" onClick={handleAddColor} className="flex-1">
+            <Plus className="w-4 h-4 mr-1" />
+            Add color
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPaletteChange({ ...DEFAULT_COLOR_PALETTE, showLegend: palette.showLegend })}
+          className="flex-1"
+        >
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { CommandPalette } from './CommandPalette'
+import { Collection, SnapshotSummary } from './HillChartApp'
+
+// cmdk scrolls the active item into view, which jsdom does not implement
+Element.prototype.scrollIntoView = jest.fn()
+
+describe('CommandPalette', () => {
+  const collections: Collection[] = [
+    { id: 'c1', name: 'Checkout', status: 'active', dots: [] },
+    { id: 'c2', name: 'Search', status: 'active', dots: [] }
+  ]
+  const snapshots: SnapshotSummary[] = [
+    { id: 's1', date: '2026-10-01', collectionId: 'c1', timestamp: 1, name: 'Sprint review' }
+  ]
+
+  const renderPalette = (overrides: Partial<React.ComponentProps<typeof CommandPalette>> = {}) => {
+    const props: React.ComponentProps<typeof CommandPalette> = {
+      collections,
+      selectedCollectionId: 'c1',
+      snapshots,
+      onSelectCollection: jest.fn(),
+      onAddDot: jest.fn(),
+      onViewSnapshot: jest.fn(),
+      onTakeSnapshot: jest.fn(),
+      onSetTheme: jest.fn(),
+      onOpenPrivacySettings: jest.fn(),
+      onOpenReleaseLineSettings: jest.fn(),
+      onCopyChart: jest.fn(),
+      onDownloadChart: jest.fn(),
+      onShowShortcuts: jest.fn(),
+      onClose: jest.fn(),
+      ...overrides
+    }
+    render(<CommandPalette {...props} />)
+    return props
+  }
+
+  it('should switch collection and close', () => {
+    const props = renderPalette()
+
+    fireEvent.click(screen.getByText('Search'))
+
+    expect(props.onSelectCollection).toHaveBeenCalledWith(collections[1])
+    expect(props.onClose).toHaveBeenCalled()
+  })
+
+  it('should add a dot named by the search text', () => {
+    const props = renderPalette()
+
+    fireEvent.change(screen.getByPlaceholderText(/type a command/i), { target: { value: 'Payments' } })
+    fireEvent.click(screen.getByText('Add dot "Payments"'))
+
+    expect(props.onAddDot).toHaveBeenCalledWith('Payments')
+  })
+
+  it('should jump to a snapshot by date', () => {
+    const props = renderPalette()
+
+    fireEvent.change(screen.getByPlaceholderText(/type a command/i), { target: { value: '2026-10-01' } })
+    fireEvent.click(screen.getByText('Sprint review'))
+
+    expect(props.onViewSnapshot).toHaveBeenCalledWith(snapshots[0])
+  })
+
+  it('should leave out taking a snapshot when it is not available', () => {
+    renderPalette({ onTakeSnapshot: undefined })
+
+    expect(screen.queryByText('Take snapshot')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,210 @@
+"use client"
+
+import React, { useState } from "react"
+import {
+  Camera,
+  Clipboard,
+  Download,
+  Folder,
+  History,
+  Keyboard,
+  Monitor,
+  Moon,
+  Plus,
+  Rocket,
+  Shield,
+  Sun,
+} from "lucide-react"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "./ui/command"
+import { Collection, SnapshotSummary } from "./HillChartApp"
+
+interface CommandPaletteProps {
+  collections: Collection[]
+  selectedCollectionId: string | null
+  // Snapshots of the selected collection that have been loaded so far
+  snapshots: SnapshotSummary[]
+  onSelectCollection: (collection: Collection) => void
+  onAddDot: (label: string) => void
+  onViewSnapshot: (snapshot: SnapshotSummary) => void
+  // Left out while a past snapshot is on screen
+  onTakeSnapshot?: () => void
+  onSetTheme: (theme: "light" | "dark" | "system") => void
+  onOpenPrivacySettings: () => void
+  onOpenReleaseLineSettings: () => void
+  onCopyChart: (format: "PNG" | "SVG") => void
+  onDownloadChart: (format: "PNG" | "SVG") => void
+  onShowShortcuts: () => void
+  onClose: () => void
+}
+
+// Ctrl+K palette for reaching collections, snapshots and settings from the keyboard
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  collections,
+  selectedCollectionId,
+  snapshots,
+  onSelectCollection,
+  onAddDot,
+  onViewSnapshot,
+  onTakeSnapshot,
+  onSetTheme,
+  onOpenPrivacySettings,
+  onOpenReleaseLineSettings,
+  onCopyChart,
+  onDownloadChart,
+  onShowShortcuts,
+  onClose,
+}) => {
+  const [search, setSearch] = useState("")
+  // The search text doubles as the new dot's quick-add line, e.g. "Checkout #red @35%"
+  const dotLabel = search.trim()
+
+  // Every command closes the palette once it has run
+  const run = (action: () => void) => () => {
+    onClose()
+    action()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center pt-[15vh] z-50" onClick={onClose}>
+      <div
+        className="w-full max-w-lg mx-4 rounded-lg border shadow-lg overflow-hidden"
+        role="dialog"
+        aria-label="Command palette"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Command
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              e.preventDefault()
+              onClose()
+            }
+          }}
+        >
+          <CommandInput
+            autoFocus
+            placeholder="Type a command, collection or snapshot date..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            <CommandEmpty>No matching commands.</CommandEmpty>
+
+            {selectedCollectionId && (
+              <CommandGroup heading="Dots" forceMount={!!dotLabel}>
+                <CommandItem
+                  value="add dot"
+                  forceMount={!!dotLabel}
+                  disabled={!dotLabel}
+                  onSelect={run(() => onAddDot(dotLabel))}
+                >
+                  <Plus />
+                  {dotLabel ? <>Add dot &quot;{dotLabel}&quot;</> : "Add dot (type its name first)"}
+                </CommandItem>
+              </CommandGroup>
+            )}
+
+            {collections.length > 0 && (
+              <CommandGroup heading="Collections">
+                {collections.map((collection) => (
+                  <CommandItem
+                    key={collection.id}
+                    value={`collection ${collection.name} ${collection.id}`}
+                    keywords={["switch", "open"]}
+                    onSelect={run(() => onSelectCollection(collection))}
+                  >
+                    <Folder />
+                    <span className="truncate">{collection.name}</span>
+                    {collection.id === selectedCollectionId && <CommandShortcut>Current</CommandShortcut>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {selectedCollectionId && (
+              <CommandGroup heading="Snapshots">
+                {onTakeSnapshot && (
+                  <CommandItem value="take snapshot" keywords={["create", "camera"]} onSelect={run(onTakeSnapshot)}>
+                    <Camera />
+                    Take snapshot
+                  </CommandItem>
+                )}
+                {[...snapshots].sort((a, b) => b.timestamp - a.timestamp).map((snapshot) => (
+                  <CommandItem
+                    key={snapshot.id}
+                    value={`snapshot ${snapshot.date} ${snapshot.name ?? ""} ${snapshot.id}`}
+                    keywords={["jump", "view"]}
+                    onSelect={run(() => onViewSnapshot(snapshot))}
+                  >
+                    <History />
+                    <span className="tabular-nums">{snapshot.date}</span>
+                    <span className="truncate text-muted-foreground">{snapshot.name || "Untitled snapshot"}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            <CommandSeparator />
+            <CommandGroup heading="Chart">
+              <CommandItem value="copy chart png" keywords={["clipboard", "image"]} onSelect={run(() => onCopyChart("PNG"))}>
+                <Clipboard />
+                Copy chart as PNG
+              </CommandItem>
+              <CommandItem value="copy chart svg" keywords={["clipboard", "vector"]} onSelect={run(() => onCopyChart("SVG"))}>
+                <Clipboard />
+                Copy chart as SVG
+              </CommandItem>
+              <CommandItem value="export chart png" keywords={["download", "image"]} onSelect={run(() => onDownloadChart("PNG"))}>
+                <Download />
+                Download chart as PNG
+              </CommandItem>
+              <CommandItem value="export chart svg" keywords={["download", "vector"]} onSelect={run(() => onDownloadChart("SVG"))}>
+                <Download />
+                Download chart as SVG
+              </CommandItem>
+            </CommandGroup>
+
+            <CommandSeparator />
+            <CommandGroup heading="Settings">
+              {selectedCollectionId && (
+                <CommandItem value="release line settings" keywords={["milestone", "deadline"]} onSelect={run(onOpenReleaseLineSettings)}>
+                  <Rocket />
+                  Release line settings
+                </CommandItem>
+              )}
+              <CommandItem value="privacy settings" keywords={["encryption", "security"]} onSelect={run(onOpenPrivacySettings)}>
+                <Shield />
+                Privacy settings
+              </CommandItem>
+              <CommandItem value="theme light" keywords={["appearance"]} onSelect={run(() => onSetTheme("light"))}>
+                <Sun />
+                Light theme
+              </CommandItem>
+              <CommandItem value="theme dark" keywords={["appearance"]} onSelect={run(() => onSetTheme("dark"))}>
+                <Moon />
+                Dark theme
+              </CommandItem>
+              <CommandItem value="theme system" keywords={["appearance"]} onSelect={run(() => onSetTheme("system"))}>
+                <Monitor />
+                Follow browser theme
+              </CommandItem>
+              <CommandItem value="keyboard shortcuts" keywords={["help", "cheat sheet", "keys"]} onSelect={run(onShowShortcuts)}>
+                <Keyboard />
+                Keyboard shortcuts
+                <CommandShortcut>?</CommandShortcut>
+              </CommandItem>
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+"use client"
+
+import React, { useState } from "react"
+import { ExternalLink, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Dot, DotDetails } from "./HillChartApp"
+import { MarkdownText } from "./MarkdownText"
+import { DotHistoryTimeline } from "./DotHistoryTimeline"
+import { formatDotUrl } from "@/lib/utils/dotDetailsUtils"
+import { validateDot } from "@/lib/validation"
+
+interface DotDetailsDrawerProps {
+  dot: Dot
+  // Snapshots are read-only
+  readOnly?: boolean
+  onSave: (details: DotDetails) => Promise<void>
+  onClose: () => void
+  // Collection of the dot, for its history timeline
+  collectionId?: string
+}
+
+// Side drawer with a dot's description, owner, link, due date and tags
+export const DotDetailsDrawer: React.FC<DotDetailsDrawerProps> = ({
+  dot,
+  readOnly = false,
+  onSave,
+  onClose,
+  collectionId,
+}) => {
+  const [draft, setDraft] = useState({
+    description: dot.description ?? "",
+    owner: dot.owner ?? "",
+    url: dot.url ?? "",
+    dueDate: dot.dueDate ?? "",
+    tags: (dot.tags || []).join(", "),
+  })
+  const [showPreview, setShowPreview] = useState(readOnly)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    // Empty fields clear the detail
+    const details: DotDetails = {
+      description: draft.description.trim() || undefined,
+      owner: draft.owner.trim() || undefined,
+      url: draft.url.trim() || undefined,
+      dueDate: draft.dueDate || undefined,
+      tags: draft.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+    }
+
+    try {
+      validateDot({ ...dot, ...details })
+    } catch (validationError) {
+      setError(validationError instanceof Error ? validationError.message : "Invalid details")
+      return
+    }
+
+    setError(null)
+    setIsSaving(true)
+    try {
+      await onSave(details)
+      onClose()
+    } catch (saveError) {
+      console.error("[DOT_DETAILS] Failed to save details:", saveError)
+      setError("Failed to save details")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50" onClick={onClose}>
+      <div
+        className="absolute inset-y-0 right-0 w-full max-w-md bg-white dark:bg-card shadow-lg p-6 overflow-y-auto space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={`Details for ${dot.label}`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold truncate">{dot.label}</h3>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0 shrink-0">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Description */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="dot-description" className="text-sm font-medium">
+              Description
+            </Label>
+            {!readOnly && (
+              <div className="flex gap-1">
+                <Button
+                  variant={showPreview ? "ghost" : "secondary"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setShowPreview(false)}
+                >
+                  Write
+                </Button>
+                <Button
+                  variant={showPreview ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setShowPreview(true)}
+                >
+                  Preview
+                </Button>
+              </div>
+            )}
+          </div>
+          {showPreview ? (
+            <div className="min-h-[6rem] rounded-md border border-input px-3 py-2 text-sm">
+              {draft.description.trim() ? (
+                <MarkdownText text={draft.description} />
+              ) : (
+                <span className="text-muted-foreground">No description</span>
+              )}
+            </div>
+          ) : (
+            <textarea
+              id="dot-description"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Markdown: **bold**, *italic*, - lists, [links](https://…)"
+              maxLength={2000}
+              rows={6}
+              className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            />
+          )}
+        </div>
+
+        {/* Owner */}
+        <div className="space-y-2">
+          <Label htmlFor="dot-owner" className="text-sm font-medium">
+            Owner
+          </Label>
+          <Input
+            id="dot-owner"
+            value={draft.owner}
+            onChange={(e) => setDraft({ ...draft, owner: e.target.value })}
+            placeholder="Who is working on this"
+            maxLength={60}
+            disabled={readOnly}
+          />
+        </div>
+
+        {/* Link */}
+        <div className="space-y-2">
+          <Label htmlFor="dot-url" className="text-sm font-medium">
+            Link
+          </Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="dot-url"
+              type="url"
+              value={draft.url}
+              onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+              placeholder="https://github.com/org/repo/issues/1"
+              maxLength={500}
+              disabled={readOnly}
+            />
+            {dot.url && (
+              <a
+                href={dot.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="shrink-0 text-muted-foreground hover:text-foreground"
+                title={`Open ${formatDotUrl(dot.url)}`}
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            )}
+          </div>
+        </div>
+
+        {/* Due date */}
+        <div className="space-y-2">
+          <Label htmlFor="dot-due-date" className="text-sm font-medium">
+            Due date
+          </Label>
+          <Input
+            id="dot-due-date"
+            type="date"
+            value={draft.dueDate}
+            onChange={(e) => setDraft({ ...draft, dueDate: e.target.value })}
+            disabled={readOnly}
+          />
+        </div>
+
+        {/* Tags */}
+        <div className="space-y-2">
+          <Label htmlFor="dot-tags" className="text-sm font-medium">
+            Tags
+          </Label>
+          <Input
+            id="dot-tags"
+            value={draft.tags}
+            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+            placeholder="checkout, payments"
+            disabled={readOnly}
+          />
+          <div className="text-xs text-muted-foreground">Separate tags with commas.</div>
+        </div>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose}>
+            {readOnly ? "Close" : "Cancel"}
+          </Button>
+          {!readOnly && (
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          )}
+        </div>
+
+        {/* History */}
+        {collectionId && (
+          <div className="space-y-2 pt-4 border-t">
+            <div className="text-sm font-medium">History</div>
+            <DotHistoryTimeline collectionId={collectionId} dotId={dot.id} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import React from "react"
+import { Dot } from "./HillChartApp"
+import { MarkdownText } from "./MarkdownText"
+import { formatDotUrl, formatDueDate, isDotOverdue } from "@/lib/utils/dotDetailsUtils"
+
+interface DotDetailsTooltipProps {
+  dot: Dot
+  // Pointer position in client coordinates
+  x: number
+  y: number
+  today: string
+}
+
+// Hover card with a dot's details, following the pointer over the chart
+export const DotDetailsTooltip: React.FC<DotDetailsTooltipProps> = ({ dot, x, y, today }) => (
+  <div
+    className="fixed z-50 pointer-events-none max-w-xs rounded-md border border-border bg-popover text-popover-foreground shadow-md p-3 text-xs space-y-1"
+    style={{ left: x + 12, top: y + 12 }}
+    role="tooltip"
+  >
+    <div className="font-semibold text-sm">{dot.label}</div>
+    {dot.owner && <div className="text-muted-foreground">Owner: {dot.owner}</div>}
+    {dot.dueDate && (
+      <div className={isDotOverdue(dot, today) ? "text-red-500" : "text-muted-foreground"}>
+        Due {formatDueDate(dot.dueDate)}
+        {isDotOverdue(dot, today) && " · overdue"}
+      </div>
+    )}
+    {dot.tags && dot.tags.length > 0 && (
+      <div className="text-muted-foreground">{dot.tags.map((tag) => `#${tag}`).join(" ")}</div>
+    )}
+    {dot.url && <div className="text-muted-foreground truncate">{formatDotUrl(dot.url)}</div>}
+    {dot.description && <MarkdownText text={dot.description} className="line-clamp-4 pt-1" />}
+  </div>
+)
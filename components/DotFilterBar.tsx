@@ -0,0 +1,196 @@
+"use client"
+
+import React, { useState } from "react"
+import { Save, Trash2, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Card, CardContent } from "./ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { ColorPaletteConfig, Dot, DotFilter, FilterPreset } from "./HillChartApp"
+import { getPaletteColorName } from "@/lib/utils/colorPaletteUtils"
+import {
+  getDotFilterOptions,
+  isDotFilterActive,
+  matchesDotFilter,
+  toggleDotFilterValue,
+  EMPTY_DOT_FILTER,
+} from "@/lib/utils/dotFilterUtils"
+
+const MAX_PRESETS = 20
+
+interface DotFilterBarProps {
+  // Active dots of the collection; options come from these
+  dots: Dot[]
+  filter: DotFilter
+  onFilterChange: (filter: DotFilter) => void
+  presets: FilterPreset[]
+  onPresetsChange: (presets: FilterPreset[]) => void
+  colorPalette: ColorPaletteConfig
+  onClose: () => void
+}
+
+const isSameFilter = (a: DotFilter, b: DotFilter) => JSON.stringify(a) === JSON.stringify(b)
+
+const chipClassName = (selected: boolean) =>
+  `px-2 py-0.5 rounded-full border text-xs transition-colors ${selected
+    ? "bg-primary text-primary-foreground border-primary"
+    : "border-border hover:bg-accent hover:text-accent-foreground"
+  }`
+
+// Filter the chart and dot list by tag, color, size or owner, with saved presets per collection
+export const DotFilterBar: React.FC<DotFilterBarProps> = ({
+  dots,
+  filter,
+  onFilterChange,
+  presets,
+  onPresetsChange,
+  colorPalette,
+  onClose,
+}) => {
+  const [presetName, setPresetName] = useState("")
+  const options = getDotFilterOptions(dots)
+  const isActive = isDotFilterActive(filter)
+  const matchingCount = dots.filter((dot) => matchesDotFilter(dot, filter)).length
+  const appliedPreset = presets.find((preset) => isSameFilter(preset.filter, filter))
+
+  const handleSavePreset = () => {
+    const name = presetName.trim()
+    if (!name || presets.length >= MAX_PRESETS) return
+    onPresetsChange([...presets, { id: Date.now().toString(), name, filter }])
+    setPresetName("")
+  }
+
+  return (
+    <Card data-testid="dot-filter-bar">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <Select
+              value={appliedPreset?.id ?? ""}
+              onValueChange={(id) => {
+                const preset = presets.find((p) => p.id === id)
+                if (preset) onFilterChange(preset.filter)
+              }}
+              disabled={presets.length === 0}
+            >
+              <SelectTrigger className="w-44 h-8 text-xs" aria-label="Filter preset">
+                <SelectValue placeholder={presets.length === 0 ? "No saved filters" : "Saved filters"} />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {appliedPreset && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onPresetsChange(presets.filter((preset) => preset.id !== appliedPreset.id))}
+                className="h-8 w-8 p-0 shrink-0"
+                title={`Delete "${appliedPreset.name}"`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {isActive && (
+              <>
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  Showing {matchingCount} of {dots.length}
+                </span>
+                <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => onFilterChange(EMPTY_DOT_FILTER)}>
+                  Clear
+                </Button>
+              </>
+            )}
+            <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0" title="Hide filters">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {options.tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground w-14">Tags</span>
+            {options.tags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                className={chipClassName(filter.tags.includes(tag))}
+                onClick={() => onFilterChange(toggleDotFilterValue(filter, "tags", tag))}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-muted-foreground w-14">Colors</span>
+          {options.colors.map((color) => (
+            <button
+              key={color}
+              type="button"
+              className={`${chipClassName(filter.colors.includes(color))} flex items-center gap-1`}
+              onClick={() => onFilterChange(toggleDotFilterValue(filter, "colors", color))}
+            >
+              <span className="w-3 h-3 rounded-full border border-gray-300" style={{ backgroundColor: color }} />
+              {getPaletteColorName(colorPalette, color) ?? color}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-muted-foreground w-14">Sizes</span>
+          {options.sizes.map((size) => (
+            <button
+              key={size}
+              type="button"
+              className={chipClassName(filter.sizes.includes(size))}
+              onClick={() => onFilterChange(toggleDotFilterValue(filter, "sizes", size))}
+            >
+              {["XS", "S", "M", "L", "XL"][size - 1]}
+            </button>
+          ))}
+        </div>
+
+        {options.owners.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground w-14">Owners</span>
+            {options.owners.map((owner) => (
+              <button
+                key={owner}
+                type="button"
+                className={chipClassName(filter.owners.includes(owner))}
+                onClick={() => onFilterChange(toggleDotFilterValue(filter, "owners", owner))}
+              >
+                {owner}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {isActive && !appliedPreset && presets.length < MAX_PRESETS && (
+          <div className="flex items-center gap-2">
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+              placeholder="Name this filter"
+              maxLength={40}
+              className="h-8 text-xs"
+            />
+            <Button variant="outline" size="sm" className="h-8" onClick={handleSavePreset} disabled={!presetName.trim()}>
+              <Save className="w-4 h-4 mr-1" />
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { DotHistoryEntry } from "./HillChartApp"
+import { useAuth } from "./AuthProvider"
+import { describeDotHistoryEntry } from "@/lib/services/dotHistoryService"
+import { fetchDotHistory } from "@/lib/services/simpleDataService"
+
+interface DotHistoryTimelineProps {
+  collectionId: string
+  // One dot's timeline; without it the whole collection's activity is shown
+  dotId?: string
+  emptyText?: string
+}
+
+const formatHistoryTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+
+// Recorded changes to dots as a vertical timeline
+export const DotHistoryTimeline: React.FC<DotHistoryTimelineProps> = ({
+  collectionId,
+  dotId,
+  emptyText = "No changes recorded yet",
+}) => {
+  const { user } = useAuth()
+  const [entries, setEntries] = useState<DotHistoryEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+    fetchDotHistory(user.id, collectionId, { dotId })
+      .then((history) => {
+        if (!cancelled) setEntries(history)
+      })
+      .catch((loadError) => {
+        console.error("[DOT_HISTORY] Failed to load history:", loadError)
+        if (!cancelled) setError("Failed to load history")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [user, collectionId, dotId])
+
+  if (error) {
+    return <div className="text-sm text-red-500">{error}</div>
+  }
+  if (!entries) {
+    return <div className="text-sm text-muted-foreground">Loading history...</div>
+  }
+  if (entries.length === 0) {
+    return <div className="text-sm text-muted-foreground">{emptyText}</div>
+  }
+
+  return (
+    <ol className="space-y-3 border-l-2 border-muted pl-4" data-testid="dot-history-timeline">
+      {entries.map((entry) => (
+        <li key={entry.id} className="relative">
+          <span className="absolute -left-[1.3rem] top-1.5 w-2 h-2 rounded-full bg-muted-foreground" />
+          <div className="text-xs text-muted-foreground tabular-nums">{formatHistoryTime(entry.timestamp)}</div>
+          {!dotId && <div className="text-sm font-medium truncate">{entry.label}</div>}
+          {describeDotHistoryEntry(entry).map((description, index) => (
+            <div key={index} className="text-sm">
+              {description}
+            </div>
+          ))}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,268 @@
+"use client"
+
+import React from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { Switch } from "./ui/switch"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Button } from "./ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { DotRule, DotRuleAction, DotRuleCondition, DotStylingConfig } from "./HillChartApp"
+import { DEFAULT_DOT_RULES, describeDotRuleCondition } from "@/lib/services/dotRulesService"
+
+const MAX_RULES = 20
+
+// Select value for each condition: position operators plus "unmoved"
+const conditionOptions: Array<{ value: string; label: string }> = [
+  { value: "gt", label: "x >" },
+  { value: "gte", label: "x ≥" },
+  { value: "lt", label: "x <" },
+  { value: "lte", label: "x ≤" },
+  { value: "eq", label: "x =" },
+  { value: "unmoved", label: "Unmoved in" },
+]
+
+const actionLabels: Record<DotRuleAction["type"], string> = {
+  setColor: "Set color",
+  setSize: "Set size",
+  archive: "Archive",
+  addTag: "Add tag",
+}
+
+const defaultActions: Record<DotRuleAction["type"], DotRuleAction> = {
+  setColor: { type: "setColor", color: "#ef4444" },
+  setSize: { type: "setSize", size: 3 },
+  archive: { type: "archive" },
+  addTag: { type: "addTag", tag: "stale" },
+}
+
+interface DotRulesSettingsProps {
+  styling: DotStylingConfig
+  onStylingChange: (styling: DotStylingConfig) => void
+}
+
+export const DotRulesSettings: React.FC<DotRulesSettingsProps> = ({
+  styling,
+  onStylingChange,
+}) => {
+  const updateRule = (id: string, update: Partial<DotRule>) => {
+    onStylingChange({
+      ...styling,
+      rules: styling.rules.map((rule) => (rule.id === id ? { ...rule, ...update } : rule)),
+    })
+  }
+
+  const handleConditionTypeChange = (rule: DotRule) => (value: string) => {
+    const condition: DotRuleCondition =
+      value === "unmoved"
+        ? { type: "unmoved", snapshots: 2 }
+        : {
+          type: "position",
+          operator: value as Extract<DotRuleCondition, { type: "position" }>["operator"],
+          value: rule.condition.type === "position" ? rule.condition.value : 50,
+        }
+    updateRule(rule.id, { condition })
+  }
+
+  const handleConditionValueChange = (rule: DotRule) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10)
+    if (isNaN(value)) return
+
+    if (rule.condition.type === "position" && value >= 0 && value <= 100) {
+      updateRule(rule.id, { condition: { ...rule.condition, value } })
+    } else if (rule.condition.type === "unmoved" && value >= 1 && value <= 20) {
+      updateRule(rule.id, { condition: { ...rule.condition, snapshots: value } })
+    }
+  }
+
+  const updateAction = (rule: DotRule, index: number, action: DotRuleAction) => {
+    updateRule(rule.id, { actions: rule.actions.map((a, i) => (i === index ? action : a)) })
+  }
+
+  const handleAddRule = () => {
+    onStylingChange({
+      ...styling,
+      rules: [
+        ...styling.rules,
+        {
+          id: Date.now().toString(),
+          enabled: true,
+          condition: { type: "unmoved", snapshots: 2 },
+          actions: [{ type: "setColor", color: "#ef4444" }],
+        },
+      ],
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Enable/Disable Toggle */}
+      <div className="flex items-center justify-between">
+        <Label htmlFor="dot-rules-toggle" className="text-sm font-medium">
+          Style dots automatically
+        </Label>
+        <Switch
+          id="dot-rules-toggle"
+          checked={styling.enabled}
+          onCheckedChange={(enabled) => onStylingChange({ ...styling, enabled })}
+        />
+      </div>
+
+      {styling.enabled && (
+        <div className="space-y-3">
+          <div className="text-xs text-muted-foreground">
+            Position rules run when a dot is dropped, &quot;unmoved&quot; rules when you take a snapshot.
+            Matching rules apply from top to bottom.
+          </div>
+
+          {styling.rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`space-y-2 pl-4 border-l-2 border-muted ${rule.enabled ? "" : "opacity-60"}`}
+              data-testid="dot-rule"
+            >
+              {/* Condition */}
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                  aria-label={`Rule ${describeDotRuleCondition(rule.condition)}`}
+                />
+                <Select
+                  value={rule.condition.type === "position" ? rule.condition.operator : "unmoved"}
+                  onValueChange={handleConditionTypeChange(rule)}
+                >
+                  <SelectTrigger className="w-28 h-8 text-xs" aria-label="Condition">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {conditionOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={rule.condition.type === "position" ? 0 : 1}
+                  max={rule.condition.type === "position" ? 100 : 20}
+                  value={rule.condition.type === "position" ? rule.condition.value : rule.condition.snapshots}
+                  onChange={handleConditionValueChange(rule)}
+                  className="w-16 h-8 text-xs"
+                  aria-label="Condition value"
+                />
+                <span className="text-xs text-muted-foreground">
+                  {rule.condition.type === "position" ? "%" : "snapshots"}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onStylingChange({ ...styling, rules: styling.rules.filter((r) => r.id !== rule.id) })}
+                  className="h-8 w-8 p-0 ml-auto shrink-0"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {/* Actions */}
+              {rule.actions.map((action, index) => (
+                <div key={index} className="flex items-center gap-2 pl-11">
+                  <Select
+                    value={action.type}
+                    onValueChange={(type) => updateAction(rule, index, defaultActions[type as DotRuleAction["type"]])}
+                  >
+                    <SelectTrigger className="w-28 h-8 text-xs" aria-label="Action">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(actionLabels).map(([type, label]) => (
+                        <SelectItem key={type} value={type}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {action.type === "setColor" && (
+                    <input
+                      type="color"
+                      value={action.color}
+                      onChange={(e) => updateAction(rule, index, { type: "setColor", color: e.target.value })}
+                      className="w-8 h-8 rounded border border-input cursor-pointer"
+                      title="Choose color"
+                    />
+                  )}
+                  {action.type === "setSize" && (
+                    <Select
+                      value={String(action.size)}
+                      onValueChange={(size) => updateAction(rule, index, { type: "setSize", size: Number(size) })}
+                    >
+                      <SelectTrigger className="w-16 h-8 text-xs" aria-label="Size">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[1, 2, 3, 4, 5].map((size) => (
+                          <SelectItem key={size} value={String(size)}>
+                            {size}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {action.type === "addTag" && (
+                    <Input
+                      value={action.tag}
+                      onChange={(e) => updateAction(rule, index, { type: "addTag", tag: e.target.value.replace(/,/g, "") })}
+                      placeholder="Tag"
+                      maxLength={30}
+                      className="w-28 h-8 text-xs"
+                      aria-label="Tag"
+                    />
+                  )}
+                  {rule.actions.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateRule(rule.id, { actions: rule.actions.filter((_, i) => i !== index) })}
+                      className="h-8 w-8 p-0 ml-auto shrink-0"
+                      title="Remove action"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateRule(rule.id, { actions: [...rule.actions, defaultActions.setSize] })}
+                className="ml-9 h-7 text-xs"
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Action
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            {styling.rules.length < MAX_RULES && (
+              <Button variant="outline" size="sm" onClick={handleAddRule} className="flex-1">
+                <Plus className="w-4 h-4 mr-1" />
+                Add rule
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onStylingChange({ ...styling, rules: DEFAULT_DOT_RULES })}
+              className="flex-1"
+            >
+              Reset to defaults
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
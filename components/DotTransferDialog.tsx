@@ -0,0 +1,85 @@
+"use client"
+
+import React, { useState } from "react"
+import { Button } from "./ui/button"
+import { Label } from "./ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Collection } from "./HillChartApp"
+
+interface DotTransferDialogProps {
+  dotLabel: string
+  mode: "move" | "copy"
+  // Active collections other than the dot's own
+  targetCollections: Collection[]
+  // Resolves to false when the dot could not be moved or copied
+  onConfirm: (collectionId: string) => Promise<boolean>
+  onClose: () => void
+}
+
+// Pick the collection to move or copy a dot into
+export const DotTransferDialog: React.FC<DotTransferDialogProps> = ({
+  dotLabel,
+  mode,
+  targetCollections,
+  onConfirm,
+  onClose,
+}) => {
+  const [targetId, setTargetId] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const action = mode === "move" ? "Move" : "Copy"
+
+  const handleConfirm = async () => {
+    if (!targetId) return
+    setIsSaving(true)
+    setError(null)
+    const success = await onConfirm(targetId)
+    setIsSaving(false)
+    if (success) {
+      onClose()
+    } else {
+      setError(`Failed to ${mode} the dot`)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-sm w-full mx-4 space-y-4" role="dialog">
+        <h3 className="text-lg font-semibold">{action} to Collection</h3>
+        {targetCollections.length === 0 ? (
+          <p className="text-sm text-muted-foreground">There is no other active collection to {mode} &quot;{dotLabel}&quot; to.</p>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="dot-transfer-target" className="text-sm font-medium">
+              {action} &quot;{dotLabel}&quot; to
+            </Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger id="dot-transfer-target">
+                <SelectValue placeholder="Choose a collection" />
+              </SelectTrigger>
+              <SelectContent>
+                {targetCollections.map((collection) => (
+                  <SelectItem key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {mode === "copy" && (
+              <div className="text-xs text-muted-foreground">The copy keeps the position, style and details.</div>
+            )}
+          </div>
+        )}
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!targetId || isSaving}>
+            {isSaving ? `${action === "Move" ? "Moving" : "Copying"}...` : action}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -9,6 +9,8 @@ import {
   CopyIcon,
   Download,
   ArrowUpDown,
+  GripVertical,
+  Layers,
   Trash2,
   ChevronDown,
   Sun,
@@ -31,6 +33,22 @@ import {
   Undo2,
   Shield,
   Rocket,
+  History,
+  Footprints,
+  Keyboard,
+  Command as CommandIcon,
+  GitCompare,
+  Pin,
+  PinOff,
+  Columns2,
+  LayoutGrid,
+  Wand2,
+  Palette,
+  FileText,
+  Filter,
+  Activity,
+  FolderInput,
+  Redo2,
 } from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
 import { useTheme } from "next-themes"
@@ -39,6 +57,56 @@ import { useAuth } from "./AuthProvider"
 import { PrivacySettings } from "./PrivacySettings"
 import { CacheStatusBadge } from "./CacheStatusBadge"
 import { ReleaseLineSettings } from "./ReleaseLineSettings"
+import { HillCurveSettings } from "./HillCurveSettings"
+import { DotRulesSettings } from "./DotRulesSettings"
+import { ColorPaletteSettings } from "./ColorPaletteSettings"
+import { ChartLegend } from "./ChartLegend"
+import { DotDetailsDrawer } from "./DotDetailsDrawer"
+import { DotDetailsTooltip } from "./DotDetailsTooltip"
+import { DotFilterBar } from "./DotFilterBar"
+import { BulkDotActions } from "./BulkDotActions"
+import { DotTransferDialog } from "./DotTransferDialog"
+import { CommandPalette } from "./CommandPalette"
+import { KeyboardShortcutsDialog } from "./KeyboardShortcutsDialog"
+import { DotHistoryTimeline } from "./DotHistoryTimeline"
+import { ReleaseLineMarker } from "./ReleaseLineMarker"
+import { PhaseZoneShading } from "./PhaseZoneShading"
+import { SnapshotPlaybackControls } from "./SnapshotPlaybackControls"
+import { SnapshotDiffPanel, LIVE_DIFF_KEY, getSnapshotDiffKey } from "./SnapshotDiffPanel"
+import { SnapshotRetentionSettings } from "./SnapshotRetentionSettings"
+import { HillChartComparison } from "./HillChartComparison"
+import { PortfolioDashboard } from "./PortfolioDashboard"
+import { useSnapshotPlayback } from "@/lib/hooks/useSnapshotPlayback"
+import { useDebouncedSave } from "@/lib/hooks/useDebouncedSave"
+import { useUndoHistory } from "@/lib/hooks/useUndoHistory"
+import { getCollectionSnapshots, mergeSnapshotSummaries, getPlaybackFrame, buildDotTrails, PlaybackDot } from "@/lib/utils/snapshotUtils"
+import { diffDots, formatDiffAsText } from "@/lib/services/snapshotDiffService"
+import {
+  generateBellCurvePath,
+  getHillY,
+  getHillPeakX,
+  getHillSide,
+  getDotAriaLabel,
+  layoutDotLabels,
+  placeDotsOnHill,
+  DEFAULT_HILL_CURVE,
+} from "@/lib/utils/hillChartUtils"
+import { prepareSvgForExport as prepareChartSvg } from "@/lib/utils/chartExportUtils"
+import { RetentionCandidate, DEFAULT_RETENTION_POLICY } from "@/lib/services/snapshotRetentionService"
+import { applyDotRules, getRequiredHistoryLength, DEFAULT_DOT_STYLING } from "@/lib/services/dotRulesService"
+import { createDeleteDotsUndoEntry, removeDots } from "@/lib/services/dotUndoService"
+import { getColorPickerOptions, DEFAULT_COLOR_PALETTE } from "@/lib/utils/colorPaletteUtils"
+import { parseQuickAdd, parseQuickAddList, isQuickAddList, splitByLabelLength, QuickAddDot, MAX_DOT_LABEL_LENGTH, MAX_QUICK_ADD_LIST_DOTS } from "@/lib/utils/quickAddUtils"
+import {
+  DEFAULT_DOT_LIST_CONFIG,
+  DOT_SORT_MODE_LABELS,
+  getLastMovedTimes,
+  groupDotList,
+  moveInManualOrder,
+  sortDotList,
+} from "@/lib/utils/dotListUtils"
+import { getDotDetails, hasDotDetails, formatDueDate, isDotOverdue } from "@/lib/utils/dotDetailsUtils"
+import { isDotFilterActive, matchesDotFilter, EMPTY_DOT_FILTER } from "@/lib/utils/dotFilterUtils"
 import {
   fetchCollections,
   addCollection,
@@ -49,13 +117,34 @@ import {
   addDot as addDotService,
   updateDot as updateDotService,
   deleteDot as deleteDotService,
+  addDots as addDotsService,
+  updateDots as updateDotsService,
+  deleteDots as deleteDotsService,
+  moveDots as moveDotsService,
+  copyDots as copyDotsService,
   importData,
   createSnapshot,
   fetchSnapshots,
+  fetchSnapshotSummaries,
   loadSnapshot,
+  restoreSnapshot,
   resetAllCollections,
   updateCollectionReleaseLineConfig,
   getCollectionReleaseLineConfig,
+  updateCollectionHillCurveConfig,
+  updateCollectionDotStyling,
+  updateCollectionColorPalette,
+  updateCollectionFilterPresets,
+  updateCollectionDotListConfig,
+  fetchDotHistory,
+  updateCollectionSnapshotSchedule,
+  getCollectionSnapshotSchedule,
+  setSnapshotPinned,
+  pruneSnapshots,
+  getSnapshotRetentionPolicy,
+  updateSnapshotRetentionPolicy,
+  fetchLatestSnapshotDates,
+  type SnapshotSummaryQuery,
 } from "@/lib/services/simpleDataService"
 
 export interface Dot {
@@ -66,12 +155,111 @@ export interface Dot {
   color: string
   size: number
   archived: boolean // always present
+  // Optional details, shown in the dot drawer and chart tooltip
+  description?: string // markdown
+  owner?: string
+  url?: string // issue or pull request link
+  dueDate?: string // YYYY-MM-DD
+  tags?: string[]
+}
+
+export type DotDetails = Pick<Dot, 'description' | 'owner' | 'url' | 'dueDate' | 'tags'>
+
+// A dot is shown when it matches every non-empty list; within a list any value matches
+export interface DotFilter {
+  tags: string[]
+  colors: string[]
+  sizes: number[]
+  owners: string[]
+}
+
+// How the sidebar orders dots; "manual" follows the order dots were dragged into
+export type DotSortMode = 'position' | 'name' | 'color' | 'size' | 'lastMoved' | 'manual'
+
+export interface DotListConfig {
+  sortMode: DotSortMode
+  // Split the list into Up the hill, Over the top and Done
+  groupBySide: boolean
+  // Dot IDs in manual order; dots missing from it follow by position
+  manualOrder: string[]
+}
+
+export interface FilterPreset {
+  id: string
+  name: string
+  filter: DotFilter
+}
+
+// A milestone line at a point on the hill, drawn alongside the release line
+export interface ReleaseMarker {
+  id: string
+  // Progress (%) where the marker sits on the hill
+  position: number
+  color: string
+  label: string
+  // YYYY-MM-DD
+  targetDate?: string
+  style: 'solid' | 'dashed'
 }
 
 export interface ReleaseLineConfig {
   enabled: boolean
   color: string
   text: string
+  markers?: ReleaseMarker[]
+}
+
+// A named stretch of the hill (in % of progress) shaded under the curve
+export interface PhaseZone {
+  name: string
+  start: number
+  end: number
+  color: string
+}
+
+export interface HillCurveConfig {
+  // Progress (%) where the hill peaks; 50 is the symmetric default
+  peak: number
+  // 1 is the default bell, higher values narrow the hill
+  steepness: number
+  zones: PhaseZone[]
+}
+
+export type DotRuleCondition =
+  // Hill position (%) compared with a value
+  | { type: 'position'; operator: 'gt' | 'gte' | 'lt' | 'lte' | 'eq'; value: number }
+  // Same position in each of the last N snapshots
+  | { type: 'unmoved'; snapshots: number }
+
+export type DotRuleAction =
+  | { type: 'setColor'; color: string }
+  | { type: 'setSize'; size: number }
+  | { type: 'archive' }
+  | { type: 'addTag'; tag: string }
+
+export interface DotRule {
+  id: string
+  enabled: boolean
+  condition: DotRuleCondition
+  actions: DotRuleAction[]
+}
+
+// Automatic dot styling; matching rules apply in order, so later rules win
+export interface DotStylingConfig {
+  enabled: boolean
+  rules: DotRule[]
+}
+
+// A named dot color, e.g. "Blocked" or "On track"
+export interface PaletteColor {
+  color: string
+  name: string
+}
+
+export interface ColorPaletteConfig {
+  colors: PaletteColor[]
+  // Draw the color names as a legend in the chart
+  showLegend: boolean
 }
 
 export interface Collection {
@@ -82,15 +270,73 @@ export interface Collection {
   deleted_at?: string
   dots: Dot[]
   releaseLineConfig?: ReleaseLineConfig
+  hillCurveConfig?: HillCurveConfig
+  dotStyling?: DotStylingConfig
+  colorPalette?: ColorPaletteConfig
+  filterPresets?: FilterPreset[]
+  dotList?: DotListConfig
 }
 
 export interface Snapshot {
+  id?: string
   date: string
   collectionId: string
   collectionName: string
   dots: Dot[]
   timestamp: number
   releaseLineConfig?: ReleaseLineConfig
+  name?: string
+  note?: string
+  pinned?: boolean
+}
+
+// Snapshot metadata shown in the calendar; dots are only loaded when a snapshot is opened
+export interface SnapshotSummary {
+  id: string
+  date: string
+  collectionId: string
+  timestamp: number
+  name?: string
+  note?: string
+  pinned?: boolean
+}
+
+export type DotHistoryField = 'x' | 'label' | 'color' | 'size' | 'archived'
+
+export interface DotHistoryChange {
+  field: DotHistoryField
+  from: string | number | boolean
+  to: string | number | boolean
+}
+
+// One recorded change to a dot, from the dot history audit trail
+export interface DotHistoryEntry {
+  id: string
+  dotId: string
+  collectionId: string
+  type: 'created' | 'updated' | 'deleted'
+  // The dot's label at the time of the change
+  label: string
+  changes: DotHistoryChange[]
+  timestamp: number
+}
+
+export interface SnapshotSchedule {
+  frequency: "off" | "daily" | "weekdays" | "weekly"
+  // Day of the week for weekly schedules (0 = Sunday)
+  weekday?: number
+  // Time zone the schedule's days are counted in, the browser's when it was set
+  timeZone?: string
+}
+
+export interface SnapshotRetentionPolicy {
+  enabled: boolean
+  // Keep every snapshot for this many days
+  keepAllDays: number
+  // Then keep one snapshot per week until this many days old
+  keepWeeklyDays: number
+  // Then keep one per month; when false, older snapshots are removed
+  keepMonthly: boolean
 }
 
 export interface ExportData {
@@ -100,7 +346,13 @@ export interface ExportData {
   version: string
 }
 
-const defaultColors = ["#3b82f6", "#22c55e", "#ef4444", "#f97316", "#8b5cf6"]
+const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+// Number of past snapshots a dot trail can reach back through
+const trailLengthOptions = [3, 5, 10]
+
+// Progress percentages an arrow key moves the focused dot by
+const keyboardStepOptions = [1, 5, 10]
 
 // Helper function to get local date string in YYYY-MM-DD format (consistent with backend)
 const getLocalDateString = (date: Date): string => {
@@ -110,18 +362,13 @@ const getLocalDateString = (date: Date): string => {
   return `${year}-${month}-${day}`
 }
 
-const generateBellCurvePath = (width = 600, height = 150, centerX = 300) => {
-  const points: string[] = []
-  const startX = centerX - width / 2
-  const endX = centerX + width / 2
-  const baseY = 145
-  for (let x = startX; x <= endX; x += 5) {
-    const normalizedX = (x - centerX) / (width / 6)
-    const y = baseY - height * Math.exp(-0.5 * normalizedX * normalizedX)
-    points.push(`${x === startX ? "M" : "L"} ${x} ${y}`)
-  }
-  return points.join(" ")
-}
+// Pointer travel before a press on a dot becomes a drag, and how long a still press takes to open the menu
+const DRAG_THRESHOLD_PX = 4
+const LONG_PRESS_MS = 500
+// Arrow-key moves are saved once the dot has rested this long, as one change
+const KEYBOARD_MOVE_SAVE_DELAY_MS = 600
+// Smallest radius, in chart units, that a dot responds to, so small dots are easy to grab by touch
+const MIN_DOT_HIT_RADIUS = 20
 
 function DotMenuPortal({ children }: { children: React.ReactNode }) {
   const [mounted, setMounted] = React.useState(false)
@@ -132,11 +379,15 @@ function DotMenuPortal({ children }: { children: React.ReactNode }) {
   return ReactDOM.createPortal(children, document.body)
 }
 
-function DotMenuDropdown({ anchorRef, onClose, onDelete, onArchive }: {
+function DotMenuDropdown({ anchorRef, onClose, onDetails, onDelete, onArchive, onMove, onCopy }: {
   anchorRef: React.RefObject<HTMLDivElement | null>,
   onClose: () => void,
+  onDetails: () => void,
   onDelete: () => void,
   onArchive: () => void,
+  // Left out while a snapshot is on screen
+  onMove?: () => void,
+  onCopy?: () => void,
 }) {
   const dropdownRef = React.useRef<HTMLDivElement>(null)
   const [position, setPosition] = React.useState<{ top: number; left: number } | null>(null)
@@ -188,6 +439,28 @@ function DotMenuDropdown({ anchorRef, onClose, onDelete, onArchive }: {
       }}
       className="bg-background border border-border rounded shadow-lg"
     >
+      <button
+        className="w-full px-4 py-2 text-left text-sm flex items-center gap-2 hover:bg-accent hover:text-accent-foreground"
+        onClick={onDetails}
+      >
+        <FileText className="w-4 h-4 text-muted-foreground" /> Details
+      </button>
+      {onMove && (
+        <button
+          className="w-full px-4 py-2 text-left text-sm flex items-center gap-2 hover:bg-accent hover:text-accent-foreground"
+          onClick={onMove}
+        >
+          <FolderInput className="w-4 h-4 text-muted-foreground" /> Move to collection…
+        </button>
+      )}
+      {onCopy && (
+        <button
+          className="w-full px-4 py-2 text-left text-sm flex items-center gap-2 hover:bg-accent hover:text-accent-foreground"
+          onClick={onCopy}
+        >
+          <CopyIcon className="w-4 h-4 text-muted-foreground" /> Copy to collection…
+        </button>
+      )}
       <button
         className="w-full px-4 py-2 text-left text-sm flex items-center gap-2 hover:bg-accent hover:text-accent-foreground"
         onClick={onDelete}
@@ -205,21 +478,46 @@ function DotMenuDropdown({ anchorRef, onClose, onDelete, onArchive }: {
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function DotRow({ dot, dotMenuOpen, setDotMenuOpen, setDeleteConfirm, updateDot, editingDotId, setEditingDotId }: any) {
+function DotRow({ dot, colorPalette, dotMenuOpen, setDotMenuOpen, setDeleteConfirm, setDetailsDotId, updateDot, editingDotId, setEditingDotId, isSelected, onToggleSelect, setTransferDot }: any) {
   const menuButtonRef = React.useRef<HTMLDivElement>(null)
+  // The label being typed; it is saved once editing ends rather than on every keystroke
+  const [labelDraft, setLabelDraft] = React.useState<string | null>(null)
+  const saveLabel = () => {
+    if (labelDraft !== null && labelDraft.trim() && labelDraft !== dot.label) {
+      updateDot(dot.id, { label: labelDraft })
+    }
+    setLabelDraft(null)
+  }
   return (
-    <div className="p-3 bg-muted/50 rounded-lg space-y-3">
+    <div
+      className={`p-3 bg-muted/50 rounded-lg space-y-3 ${isSelected ? "ring-2 ring-primary" : ""}`}
+      onClickCapture={(e) => {
+        // Shift-click (or Ctrl/Cmd-click) selects the dot instead of using the control under the pointer
+        if (onToggleSelect && (e.shiftKey || e.metaKey || e.ctrlKey)) {
+          e.preventDefault()
+          e.stopPropagation()
+          onToggleSelect(dot.id)
+        }
+      }}
+      aria-selected={isSelected}
+    >
       {/* Dot Name and Controls Row */}
       <div className="flex items-center gap-2">
         <Input
-          value={dot.label}
+          value={labelDraft ?? dot.label}
           onChange={(e) => {
             if (e.target.value.length <= 24) {
-              updateDot(dot.id, { label: e.target.value })
+              setLabelDraft(e.target.value)
             }
           }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur()
+          }}
           onFocus={() => setEditingDotId(dot.id)}
-          onBlur={() => setEditingDotId(null)}
+          onBlur={() => {
+            saveLabel()
+            setEditingDotId(null)
+          }}
           className="text-sm flex-1"
           placeholder="Dot name"
           maxLength={24}
@@ -235,7 +533,7 @@ function DotRow({ dot, dotMenuOpen, setDotMenuOpen, setDeleteConfirm, updateDot,
             />
           </SelectTrigger>
           <SelectContent>
-            {defaultColors.map((color, index) => (
+            {getColorPickerOptions(colorPalette, dot.color).map(({ color, name }) => (
               <SelectItem key={color} value={color}>
                 <div className="flex items-center gap-2">
                   <div
@@ -243,7 +541,7 @@ function DotRow({ dot, dotMenuOpen, setDotMenuOpen, setDeleteConfirm, updateDot,
                     style={{ backgroundColor: color }}
                   />
                   <span className="text-sm">
-                    {['Blue', 'Green', 'Red', 'Orange', 'Purple'][index]}
+                    {name}
                   </span>
                 </div>
               </SelectItem>
@@ -284,6 +582,10 @@ function DotRow({ dot, dotMenuOpen, setDotMenuOpen, setDeleteConfirm, updateDot,
               <DotMenuDropdown
                 anchorRef={menuButtonRef}
                 onClose={() => setDotMenuOpen(null)}
+                onDetails={() => {
+                  setDotMenuOpen(null)
+                  setDetailsDotId(dot.id)
+                }}
                 onDelete={() => {
                   setDotMenuOpen(null)
                   setDeleteConfirm({ dotId: dot.id, dotLabel: dot.label })
@@ -292,33 +594,57 @@ function DotRow({ dot, dotMenuOpen, setDotMenuOpen, setDeleteConfirm, updateDot,
                   setDotMenuOpen(null)
                   await updateDot(dot.id, { archived: true })
                 }}
+                onMove={setTransferDot && (() => {
+                  setDotMenuOpen(null)
+                  setTransferDot({ dotId: dot.id, mode: 'move' })
+                })}
+                onCopy={setTransferDot && (() => {
+                  setDotMenuOpen(null)
+                  setTransferDot({ dotId: dot.id, mode: 'copy' })
+                })}
               />
             </DotMenuPortal>
           )}
         </div>
       </div>
-      {dot.label.length === 24 && editingDotId === dot.id && (
+      {(labelDraft ?? dot.label).length === 24 && editingDotId === dot.id && (
         <div className="text-xs text-red-500 mt-1">Dot name cannot exceed 24 characters.</div>
       )}
+      {dot.tags?.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {dot.tags.map((tag: string) => (
+            <span key={tag} className="px-1.5 rounded bg-muted text-[10px] text-muted-foreground">
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
+      {(dot.owner || dot.dueDate) && (
+        <button
+          type="button"
+          onClick={() => setDetailsDotId(dot.id)}
+          className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground"
+        >
+          {dot.owner && <span className="truncate">{dot.owner}</span>}
+          {dot.owner && dot.dueDate && <span>·</span>}
+          {dot.dueDate && (
+            <span className={isDotOverdue(dot, getLocalDateString(new Date())) ? "text-red-500" : ""}>
+              Due {formatDueDate(dot.dueDate)}
+            </span>
+          )}
+        </button>
+      )}
     </div>
   )
 }
 
 const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPassword }) => {
-  const getHillY = (x: number) => {
-    const centerX = 300,
-      width = 600,
-      height = 150,
-      baseY = 145
-    const svgX = (x / 100) * width
-    const normalizedX = (svgX - centerX) / (width / 6)
-    return baseY - height * Math.exp(-0.5 * normalizedX * normalizedX)
-  }
-
   const [collections, setCollections] = useState<Collection[]>([])
   const [selectedCollection, setSelectedCollection] = useState<string | null>(null)
   const [isLoadingCollections, setIsLoadingCollections] = useState(false)
   const [newDotLabel, setNewDotLabel] = useState("")
+  // What a pasted list could not add, shown under the Add Dot input
+  const [pastedListWarning, setPastedListWarning] = useState<string | null>(null)
   const [isDragging, setIsDragging] = useState<string | null>(null)
   const [collectionInput, setCollectionInput] = useState("")
   const [showDropdown, setShowDropdown] = useState(false)
@@ -348,15 +674,40 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
   const [copyStatus, setCopyStatus] = useState<"idle" | "copying" | "success" | "error">("idle")
   const [copyFormat, setCopyFormat] = useState<"PNG" | "SVG">("PNG")
   const [hideCollectionName, setHideCollectionName] = useState(false)
+  const [showTrails, setShowTrails] = useState(false)
+  const [trailLength, setTrailLength] = useState(5)
+  const [keyboardStep, setKeyboardStep] = useState(5)
   const [showResetConfirm, setShowResetConfirm] = useState(false)
   const [showInfoModal, setShowInfoModal] = useState(false)
   const { user } = useAuth()
-  const [snapshots, setSnapshots] = useState<Snapshot[]>([])
+  // Snapshot metadata for the calendar, fetched month by month
+  const [snapshotSummaries, setSnapshotSummaries] = useState<SnapshotSummary[]>([])
+  // Opened snapshots with their decrypted dots, by snapshot ID
+  const [loadedSnapshots, setLoadedSnapshots] = useState<Record<string, Snapshot>>({})
+  const [isLoadingSnapshotHistory, setIsLoadingSnapshotHistory] = useState(false)
+  // Summary queries already fetched: calendar months and whole collection timelines
+  const loadedSummaryScopes = useRef<Map<string, SnapshotSummaryQuery>>(new Map())
+  // Summary fetches in flight, by scope
+  const pendingSummaryRequests = useRef<Map<string, Promise<SnapshotSummary[]>>>(new Map())
   const [currentDate, setCurrentDate] = useState(new Date())
   const [selectedSnapshot, setSelectedSnapshot] = useState<string | null>(null)
+  const [selectedSnapshotDay, setSelectedSnapshotDay] = useState<string | null>(null)
+  const [snapshotDraft, setSnapshotDraft] = useState<{ name: string; note: string } | null>(null)
+  const [showRestoreConfirm, setShowRestoreConfirm] = useState(false)
+  const [isRestoringSnapshot, setIsRestoringSnapshot] = useState(false)
+  const [snapshotSchedules, setSnapshotSchedules] = useState<Record<string, SnapshotSchedule>>({})
   const [draggingDot, setDraggingDot] = useState<{ id: string; x: number; y: number } | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
-  const [dragStartPos, setDragStartPos] = useState<{ x: number; y: number } | null>(null)
+  // Where the pointer went down on a dot; a drag only starts once it moves past DRAG_THRESHOLD_PX
+  const dragStart = useRef<{ pointerId: number; x: number; y: number; moved: boolean } | null>(null)
+  // Position of a dot being moved with the arrow keys, shown straight away and saved when the timer fires
+  const keyboardMove = useRef<{ dotId: string; x: number; y: number; timer: number } | null>(null)
+  const longPressTimer = useRef<number | null>(null)
+  // Dot menu opened by a long press (or the keyboard) on the chart, at the dot's position
+  const [chartDotMenu, setChartDotMenu] = useState<{ dotId: string; x: number; y: number } | null>(null)
+  const chartDotMenuAnchorRef = useRef<HTMLDivElement>(null)
+  // Read out by screen readers after a dot is moved with the keyboard
+  const [chartAnnouncement, setChartAnnouncement] = useState("")
 
   // Snapshot state management
   const [isViewingSnapshot, setIsViewingSnapshot] = useState(false)
@@ -365,6 +716,59 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
   const [originalCollections, setOriginalCollections] = useState<Collection[]>([])
   const [snapshotSuccess, setSnapshotSuccess] = useState(false)
 
+  // Snapshot playback state management
+  const [isPlaybackMode, setIsPlaybackMode] = useState(false)
+  const collectionSnapshotSummaries = getCollectionSnapshots(snapshotSummaries, selectedCollection)
+  // Opened snapshots of the selected collection, oldest first
+  const playbackSnapshots = collectionSnapshotSummaries
+    .map((summary) => loadedSnapshots[summary.id])
+    .filter((snapshot): snapshot is Snapshot => Boolean(snapshot))
+  const playback = useSnapshotPlayback(playbackSnapshots.length)
+  const { reset: resetPlayback, seek: seekPlayback, play: startPlayback } = playback
+  const playbackAutoStart = useRef(false)
+
+  // Undo/redo of chart and collection edits
+  const undoHistory = useUndoHistory()
+  const { record: recordUndo, undo, redo } = undoHistory
+  // Undo entries run long after the render that recorded them, so they read the latest collections
+  const collectionsRef = useRef(collections)
+  useEffect(() => {
+    collectionsRef.current = collections
+  }, [collections])
+
+  // Snapshot diff: the live side stays available while a snapshot is on screen
+  const liveCollection = (isViewingSnapshot ? originalCollections : collections).find((c) => c.id === selectedCollection)
+
+  // Curve shape of the collection on screen; dots are drawn on it rather than at their stored y
+  const hillCurve = collections.find((c) => c.id === selectedCollection)?.hillCurveConfig ?? DEFAULT_HILL_CURVE
+  // Snapshot views use the live collection's settings, so the chart and the sidebar agree.
+  // Collections without saved rules use the defaults
+  const dotStyling = liveCollection?.dotStyling ?? DEFAULT_DOT_STYLING
+  const colorPalette = liveCollection?.colorPalette ?? DEFAULT_COLOR_PALETTE
+  const filterPresets = liveCollection?.filterPresets ?? []
+  const dotListConfig = liveCollection?.dotList ?? DEFAULT_DOT_LIST_CONFIG
+  // When each dot last moved, from its history; only loaded while the list sorts by it
+  const [dotLastMoved, setDotLastMoved] = useState<Record<string, number>>({})
+  // Dot being dragged to a new place in the manual order
+  const [reorderingDotId, setReorderingDotId] = useState<string | null>(null)
+  const playbackFrame: PlaybackDot[] | null = isPlaybackMode
+    ? getPlaybackFrame(playbackSnapshots, playback.position, (x) => getHillY(x, hillCurve))
+    : null
+
+  // Snapshot diff state management
+  const [isDiffMode, setIsDiffMode] = useState(false)
+  const [diffFromKey, setDiffFromKey] = useState<string>(LIVE_DIFF_KEY)
+  const [diffToKey, setDiffToKey] = useState<string>(LIVE_DIFF_KEY)
+  const [diffCopied, setDiffCopied] = useState(false)
+
+  // Side-by-side comparison of two collections or two dates
+  const [showComparison, setShowComparison] = useState(false)
+
+  // Portfolio overview of every active collection
+  const [showPortfolio, setShowPortfolio] = useState(false)
+  const [latestSnapshotDates, setLatestSnapshotDates] = useState<Record<string, string>>({})
+  const [isLoadingPortfolio, setIsLoadingPortfolio] = useState(false)
+
   // Archive management state
   const [archivedCollections, setArchivedCollections] = useState<Collection[]>([])
   const [archiveConfirm, setArchiveConfirm] = useState<{ collectionId: string; collectionName: string } | null>(null)
@@ -377,6 +781,26 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
   const [showArchivedCollectionsModal, setShowArchivedCollectionsModal] = useState(false)
   const [showPrivacySettings, setShowPrivacySettings] = useState(false)
   const [showReleaseLineSettings, setShowReleaseLineSettings] = useState(false)
+  const [showRetentionSettings, setShowRetentionSettings] = useState(false)
+  const [showDotRules, setShowDotRules] = useState(false)
+  const [showColorPalette, setShowColorPalette] = useState(false)
+  const [showActivityFeed, setShowActivityFeed] = useState(false)
+  const [showCommandPalette, setShowCommandPalette] = useState(false)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const [detailsDotId, setDetailsDotId] = useState<string | null>(null)
+  const [hoveredDot, setHoveredDot] = useState<{ id: string; x: number; y: number } | null>(null)
+  // Multi-select: shift-click in the list or on the chart, or drag a marquee over the chart
+  const [selectedDotIds, setSelectedDotIds] = useState<string[]>([])
+  // Marquee corners in SVG coordinates; additive keeps the existing selection
+  // Dot picked for "Move to collection…" or "Copy to collection…"
+  const [transferDot, setTransferDot] = useState<{ dotId: string; mode: 'move' | 'copy' } | null>(null)
+  const [marquee, setMarquee] = useState<{ startX: number; startY: number; x: number; y: number; additive: boolean } | null>(null)
+  // Dot filter per collection ID; hidden dots are left out of the chart and the dot list
+  const [dotFilters, setDotFilters] = useState<Record<string, DotFilter>>({})
+  const [showFilterBar, setShowFilterBar] = useState(false)
+  const [retentionPolicy, setRetentionPolicy] = useState<SnapshotRetentionPolicy>(DEFAULT_RETENTION_POLICY)
+  const [retentionPreview, setRetentionPreview] = useState<RetentionCandidate[] | null>(null)
+  const [isPruningSnapshots, setIsPruningSnapshots] = useState(false)
 
   // Collection editing state
   const [isEditingCollection, setIsEditingCollection] = useState(false)
@@ -466,9 +890,44 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
 
   const handleReleaseLineConfigChange = useCallback((config: ReleaseLineConfig) => {
     if (selectedCollection) {
-      updateReleaseLineConfig(selectedCollection, config)
+      const collectionId = selectedCollection
+      const previousConfig = releaseLineSettings[collectionId]
+      updateReleaseLineConfig(collectionId, config)
+      if (previousConfig) {
+        recordUndo({
+          label: 'Change release line',
+          undo: () => updateReleaseLineConfig(collectionId, previousConfig),
+          redo: () => updateReleaseLineConfig(collectionId, config),
+          coalesceKey: `release-line:${collectionId}`
+        })
+      }
+    }
+  }, [selectedCollection, releaseLineSettings, updateReleaseLineConfig, recordUndo])
+
+  // Saved once the sliders settle, one save at a time per collection, so a slow response can't bring back an older curve
+  const { schedule: scheduleHillCurveSave } = useDebouncedSave<HillCurveConfig>(async (collectionId, config) => {
+    if (!user?.id) return
+    try {
+      const success = await updateCollectionHillCurveConfig(user.id, collectionId, config)
+      if (!success) {
+        console.error('[HILL_CHART] Failed to update hill curve config')
+      }
+    } catch (error) {
+      console.error('[HILL_CHART] Error updating hill curve config:', error)
     }
-  }, [selectedCollection, updateReleaseLineConfig])
+  })
+
+  const handleHillCurveConfigChange = useCallback((config: HillCurveConfig) => {
+    if (!user?.id || !selectedCollection) return
+
+    const collectionId = selectedCollection
+    const applyConfig = (list: Collection[]) =>
+      list.map(c => c.id === collectionId ? { ...c, hillCurveConfig: config } : c)
+    // Update local state immediately so the chart reshapes while dragging the sliders
+    setCollections(applyConfig)
+    setOriginalCollections(applyConfig)
+    scheduleHillCurveSave(collectionId, config)
+  }, [user?.id, selectedCollection, scheduleHillCurveSave])
 
   useEffect(() => {
     if (user && user.id) {
@@ -501,21 +960,16 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
       }).catch((error) => {
         console.error('[HILL_CHART] Failed to fetch archived collections:', error)
       })
-
-      // Fetch snapshots with force refresh on login
-      fetchSnapshots(user.id).then((fetchedSnapshots) => {
-        console.log('[HILL_CHART] Loaded snapshots:', fetchedSnapshots.length)
-        setSnapshots(fetchedSnapshots)
-      }).catch((error) => {
-        console.error('[HILL_CHART] Failed to fetch snapshots:', error)
-      })
     } else if (user === null) {
       // Clear data when user is explicitly null (signed out)
       console.log('[HILL_CHART] User signed out, clearing collections data')
       setCollections([])
       setOriginalCollections([])
       setArchivedCollections([])
-      setSnapshots([])
+      setSnapshotSummaries([])
+      setLoadedSnapshots({})
+      loadedSummaryScopes.current.clear()
+      pendingSummaryRequests.current.clear()
       setSelectedCollection(null)
       setCollectionInput("")
       setReleaseLineSettings({}) // Clear release line settings
@@ -534,6 +988,134 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     }
   }, [snapshotSuccess])
 
+  // Load the automatic snapshot schedule of the selected collection
+  useEffect(() => {
+    if (!user?.id || !selectedCollection || isViewingSnapshot || snapshotSchedules[selectedCollection]) return
+
+    getCollectionSnapshotSchedule(user.id, selectedCollection)
+      .then((schedule) => {
+        if (schedule) {
+          setSnapshotSchedules(prev => ({ ...prev, [selectedCollection]: schedule }))
+        }
+      })
+      .catch((error) => console.error('[HILL_CHART] Failed to load snapshot schedule:', error))
+  }, [user?.id, selectedCollection, isViewingSnapshot, snapshotSchedules])
+
+  // Load the snapshot retention policy so new snapshots can be pruned against it
+  useEffect(() => {
+    if (!user?.id) return
+
+    getSnapshotRetentionPolicy(user.id)
+      .then(setRetentionPolicy)
+      .catch((error) => console.error('[HILL_CHART] Failed to load snapshot retention policy:', error))
+  }, [user?.id])
+
+  // Fetch snapshot summaries for a calendar month or a collection's whole timeline, once per scope
+  const loadSnapshotSummaries = useCallback(async (query: SnapshotSummaryQuery): Promise<SnapshotSummary[]> => {
+    if (!user?.id) return []
+
+    const scope = query.month ? `month:${query.month}` : `collection:${query.collectionId}`
+    // A scope still being fetched answers with that fetch, not the summaries loaded so far
+    const pending = pendingSummaryRequests.current.get(scope)
+    if (pending) return pending
+    if (loadedSummaryScopes.current.has(scope)) {
+      return snapshotSummaries.filter((summary) =>
+        (!query.month || summary.date.startsWith(query.month)) &&
+        (!query.collectionId || summary.collectionId === query.collectionId)
+      )
+    }
+
+    loadedSummaryScopes.current.set(scope, query)
+    const request = fetchSnapshotSummaries(user.id, query)
+      .then((summaries) => {
+        setSnapshotSummaries(prev => mergeSnapshotSummaries(prev, summaries))
+        return summaries
+      })
+      .catch((error) => {
+        loadedSummaryScopes.current.delete(scope)
+        console.error('[HILL_CHART] Failed to fetch snapshot summaries:', error)
+        return []
+      })
+      .finally(() => pendingSummaryRequests.current.delete(scope))
+    pendingSummaryRequests.current.set(scope, request)
+    return request
+  }, [user?.id, snapshotSummaries])
+
+  // Re-fetch every scope loaded so far, after snapshots were added, removed or changed
+  const refreshSnapshotSummaries = useCallback(async () => {
+    if (!user?.id) return
+
+    const userId = user.id
+    try {
+      const results = await Promise.all(
+        Array.from(loadedSummaryScopes.current.values()).map((query) => fetchSnapshotSummaries(userId, query))
+      )
+      setSnapshotSummaries(mergeSnapshotSummaries([], results.flat()))
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to refresh snapshot summaries:', error)
+    }
+  }, [user?.id])
+
+  // Open snapshots (load and decrypt their dots) unless they are already open
+  const ensureSnapshotsLoaded = useCallback(async (snapshotIds: string[]): Promise<Snapshot[]> => {
+    if (!user?.id) return []
+
+    const userId = user.id
+    const opened = await Promise.all(
+      snapshotIds.map((id) => loadedSnapshots[id] || loadSnapshot(userId, id).catch((error) => {
+        console.error('[HILL_CHART] Failed to load snapshot:', error)
+        return null
+      }))
+    )
+    const snapshots = opened.filter((snapshot): snapshot is Snapshot => Boolean(snapshot?.id))
+
+    if (snapshots.some((snapshot) => !loadedSnapshots[snapshot.id!])) {
+      setLoadedSnapshots(prev => ({
+        ...prev,
+        ...Object.fromEntries(snapshots.map((snapshot) => [snapshot.id!, snapshot]))
+      }))
+    }
+    return snapshots
+  }, [user?.id, loadedSnapshots])
+
+  // Load the snapshot summaries of the month shown in the calendar
+  const calendarMonth = getLocalDateString(currentDate).slice(0, 7)
+  useEffect(() => {
+    loadSnapshotSummaries({ month: calendarMonth })
+  }, [calendarMonth, loadSnapshotSummaries])
+
+  // Play and Compare count the selected collection's snapshots from every month, not just the calendar's
+  useEffect(() => {
+    if (!selectedCollection) return
+    loadSnapshotSummaries({ collectionId: selectedCollection })
+  }, [selectedCollection, loadSnapshotSummaries])
+
+  // Trails need the dots of the collection's most recent snapshots
+  useEffect(() => {
+    if (!showTrails || !selectedCollection || isViewingSnapshot) return
+
+    loadSnapshotSummaries({ collectionId: selectedCollection }).then((summaries) =>
+      ensureSnapshotsLoaded(
+        getCollectionSnapshots(summaries, selectedCollection).slice(-trailLength).map((summary) => summary.id)
+      )
+    )
+  }, [showTrails, trailLength, selectedCollection, isViewingSnapshot, loadSnapshotSummaries, ensureSnapshotsLoaded])
+
+  // Start playing once every snapshot of the collection is open
+  useEffect(() => {
+    if (!isPlaybackMode || !playbackAutoStart.current || playbackSnapshots.length < 2) return
+    playbackAutoStart.current = false
+    seekPlayback(0)
+    startPlayback()
+  }, [isPlaybackMode, playbackSnapshots.length, seekPlayback, startPlayback])
+
+  // Leave playback and comparison whenever the selected collection changes
+  useEffect(() => {
+    setIsPlaybackMode(false)
+    resetPlayback()
+    setIsDiffMode(false)
+  }, [selectedCollection, resetPlayback])
+
   // Register service worker and handle updates
   useEffect(() => {
     const initServiceWorker = async () => {
@@ -550,10 +1132,10 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
         console.log('[HILL_CHART] User returned to app, force refreshing data...')
         try {
           // Fetch fresh data from database
-          const [activeCollections, allCollections, snapshots] = await Promise.all([
+          const [activeCollections, allCollections] = await Promise.all([
             fetchCollections(user.id, false),
             fetchCollections(user.id, true),
-            fetchSnapshots(user.id)
+            refreshSnapshotSummaries()
           ])
 
           setCollections(activeCollections)
@@ -561,7 +1143,6 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
 
           const archived = allCollections.filter(c => c.status === 'archived')
           setArchivedCollections(archived)
-          setSnapshots(snapshots)
 
           console.log('[HILL_CHART] Data refreshed successfully after visibility change')
         } catch (error) {
@@ -572,18 +1153,47 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
 
     document.addEventListener('visibilitychange', handleVisibilityChange)
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
-  }, [user])
+  }, [user, refreshSnapshotSummaries])
 
   const filteredCollections = collections.filter((c) => c.name.toLowerCase().includes(collectionInput.toLowerCase()))
   const currentCollection = collections.find((c) => c.id === selectedCollection)
 
-  const updateDot = useCallback(
-    async (dotId: string, updates: Partial<Dot>) => {
-      if (!user) return
-      const collection = collections.find((c) => c.dots.some((d) => d.id === dotId))
-      if (!collection) return
+  // Sorting by last moved reads the dot history again whenever a dot has moved
+  const livePositionsKey = liveCollection?.dots.map((dot) => `${dot.id}:${dot.x}`).join(",") ?? ""
+  useEffect(() => {
+    if (!user || !selectedCollection || dotListConfig.sortMode !== 'lastMoved') return
+
+    let cancelled = false
+    // Dots whose last move is older than the most recent entries sort last
+    fetchDotHistory(user.id, selectedCollection, { limit: 500 })
+      .then((history) => {
+        if (!cancelled) setDotLastMoved(getLastMovedTimes(history))
+      })
+      .catch((error) => console.error('[HILL_CHART] Failed to load dot history for sorting:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [user, selectedCollection, dotListConfig.sortMode, livePositionsKey])
+  const getDiffSourceDots = (key: string): Dot[] =>
+    placeDotsOnHill(
+      key === LIVE_DIFF_KEY
+        ? liveCollection?.dots || []
+        : loadedSnapshots[key]?.dots || [],
+      hillCurve
+    )
+  const diffTargetDots = isDiffMode ? getDiffSourceDots(diffToKey) : null
+  const snapshotDiff = isDiffMode && diffTargetDots ? diffDots(getDiffSourceDots(diffFromKey), diffTargetDots) : null
+  // Dots are read-only while the chart shows a past snapshot as the comparison target
+  const isComparingPast = isDiffMode && diffToKey !== LIVE_DIFF_KEY
+
+  // Save changes to a dot; returns the dot as it was before, or null when nothing was saved
+  const saveDotChanges = useCallback(
+    async (dotId: string, updates: Partial<Dot>): Promise<Dot | null> => {
+      if (!user) return null
+      const collection = collectionsRef.current.find((c) => c.dots.some((d) => d.id === dotId))
+      if (!collection) return null
       const originalDot = collection.dots.find((d) => d.id === dotId)
-      if (!originalDot) return
+      if (!originalDot) return null
       const updatedDot = { ...originalDot, ...updates }
       setCollections((prev) =>
         prev.map((c) =>
@@ -597,95 +1207,341 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
             c.id === collection.id ? { ...c, dots: c.dots.map((d) => (d.id === dotId ? originalDot : d)) } : c,
           ),
         )
+        return null
       }
+      return originalDot
     },
-    [user, collections],
+    [user],
   )
 
-  const handleDotDrag = useCallback((dotId: string, clientX: number, clientY: number) => {
-    if (!svgRef.current) return
+  // Edit a dot as an undoable step
+  const updateDot = useCallback(
+    async (dotId: string, updates: Partial<Dot>) => {
+      const originalDot = await saveDotChanges(dotId, updates)
+      if (!originalDot) return
+
+      const previousValues = Object.fromEntries(
+        Object.keys(updates).map((key) => [key, originalDot[key as keyof Dot]])
+      ) as Partial<Dot>
+      const applyChanges = (changes: Partial<Dot>) => async () => {
+        if (!(await saveDotChanges(dotId, changes))) {
+          throw new Error('Dot could not be saved')
+        }
+      }
+      const label = 'x' in updates
+        ? `Move ${originalDot.label}`
+        : 'archived' in updates
+          ? `${updates.archived ? 'Archive' : 'Unarchive'} ${originalDot.label}`
+          : `Edit ${originalDot.label}`
+
+      recordUndo({
+        label,
+        undo: applyChanges(previousValues),
+        redo: applyChanges(updates),
+        // Quick repeated edits of the same fields, e.g. a dot nudged several times, become one step
+        coalesceKey: `dot:${dotId}:${Object.keys(updates).sort().join(',')}`,
+      })
+    },
+    [saveDotChanges, recordUndo],
+  )
+
+  // Save changes to several dots of a collection in one request; returns the dots as they were before
+  const saveDotsChanges = useCallback(
+    async (collectionId: string, changes: Record<string, Partial<Dot>>): Promise<Dot[] | null> => {
+      if (!user) return null
+      const collection = collectionsRef.current.find((c) => c.id === collectionId)
+      const originalDots = collection?.dots.filter((d) => d.id in changes) ?? []
+      if (originalDots.length === 0) return null
+      const replaceDots = (dots: Dot[]) =>
+        setCollections((prev) =>
+          prev.map((c) =>
+            c.id === collectionId ? { ...c, dots: c.dots.map((d) => dots.find((u) => u.id === d.id) ?? d) } : c,
+          ),
+        )
+
+      replaceDots(originalDots.map((d) => ({ ...d, ...changes[d.id] })))
+      const result = await updateDotsService(user.id, collectionId, originalDots.map((d) => ({ ...d, ...changes[d.id] })))
+      if (!result) {
+        replaceDots(originalDots)
+        return null
+      }
+      return originalDots
+    },
+    [user],
+  )
+
+  const toggleDotSelection = useCallback((dotId: string) => {
+    setSelectedDotIds((prev) => (prev.includes(dotId) ? prev.filter((id) => id !== dotId) : [...prev, dotId]))
+  }, [])
+
+  // Selection belongs to the collection on screen
+  useEffect(() => {
+    setSelectedDotIds([])
+  }, [selectedCollection])
+
+  // Chart position of a pointer event, or null when the chart isn't laid out (e.g. in tests)
+  const getSvgPoint = useCallback((clientX: number, clientY: number) => {
+    const matrix = svgRef.current?.getScreenCTM()
+    if (!matrix) return null
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse())
+    return { x: point.x, y: point.y }
+  }, [])
 
-    const svgRect = svgRef.current.getBoundingClientRect()
-    const svgWidth = svgRect.width
-    const svgHeight = svgRect.height
+  const handleChartMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (e.button !== 0 || isPlaybackMode || isComparingPast || isViewingSnapshot) return
+    const point = getSvgPoint(e.clientX, e.clientY)
+    if (!point) return
+    setMarquee({ startX: point.x, startY: point.y, x: point.x, y: point.y, additive: e.shiftKey })
+  }
 
-    // Calculate relative position within SVG
-    const relativeX = clientX - svgRect.left
-    const relativeY = clientY - svgRect.top
+  // Document-level handlers so the marquee keeps following the pointer outside the chart
+  useEffect(() => {
+    if (!marquee) return
 
-    // Convert to SVG coordinates (viewBox is "-50 0 700 180")
-    const svgX = (relativeX / svgWidth) * 700 - 50
-    const svgY = (relativeY / svgHeight) * 180
+    const handleMouseMove = (e: MouseEvent) => {
+      const point = getSvgPoint(e.clientX, e.clientY)
+      if (point) setMarquee((prev) => (prev ? { ...prev, x: point.x, y: point.y } : prev))
+    }
+
+    const handleMouseUp = () => {
+      const left = Math.min(marquee.startX, marquee.x)
+      const right = Math.max(marquee.startX, marquee.x)
+      const top = Math.min(marquee.startY, marquee.y)
+      const bottom = Math.max(marquee.startY, marquee.y)
+      // Dots the chart shows: active and matching the collection's filter
+      const filter = (selectedCollection && dotFilters[selectedCollection]) || EMPTY_DOT_FILTER
+      const chartDots = placeDotsOnHill(
+        (currentCollection?.dots || []).filter((d) => !d.archived && matchesDotFilter(d, filter)),
+        hillCurve,
+      )
+      const enclosedIds = chartDots
+        .filter((d) => {
+          const x = (d.x / 100) * 600
+          return x >= left && x <= right && d.y >= top && d.y <= bottom
+        })
+        .map((d) => d.id)
+
+      // A click on the empty chart clears the selection
+      setSelectedDotIds((prev) => (marquee.additive ? Array.from(new Set([...prev, ...enclosedIds])) : enclosedIds))
+      setMarquee(null)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [marquee, getSvgPoint, selectedCollection, dotFilters, currentCollection, hillCurve])
+
+  const handleDotDrag = useCallback((dotId: string, clientX: number, clientY: number) => {
+    const point = getSvgPoint(clientX, clientY)
+    if (!point) return
 
     // Constrain to chart area (0 to 600 in SVG coordinates)
-    const constrainedX = Math.max(0, Math.min(600, svgX))
+    const constrainedX = Math.max(0, Math.min(600, point.x))
     const xPercent = (constrainedX / 600) * 100
-    const y = getHillY(xPercent)
+    const y = getHillY(xPercent, hillCurve)
 
     // Update immediate visual feedback
     setDraggingDot({ id: dotId, x: xPercent, y })
-  }, [])
+  }, [getSvgPoint, hillCurve])
 
-  const handleDotMouseDown = useCallback((e: React.MouseEvent, dotId: string) => {
+  const clearLongPress = () => {
+    if (longPressTimer.current !== null) {
+      window.clearTimeout(longPressTimer.current)
+      longPressTimer.current = null
+    }
+  }
+
+  const endDotDrag = () => {
+    clearLongPress()
+    dragStart.current = null
+    setIsDragging(null)
+    setDraggingDot(null)
+  }
+
+  // Dragging is built on pointer events so mouse, pen and touch all work. Pointer capture keeps
+  // the moves coming to the dot even when the finger or cursor leaves it.
+  const handleDotPointerDown = (e: React.PointerEvent<SVGElement>, dotId: string) => {
+    if (!e.isPrimary || e.button !== 0) return
     e.preventDefault()
     e.stopPropagation()
+    // Dots are read-only while history is playing back or a past snapshot is compared
+    if (isPlaybackMode || isComparingPast) return
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStart.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY, moved: false }
     setIsDragging(dotId)
-    setDragStartPos({ x: e.clientX, y: e.clientY })
 
-    // Set initial dragging dot position
-    handleDotDrag(dotId, e.clientX, e.clientY)
-  }, [handleDotDrag])
+    // Holding still opens the dot menu, which touch screens have no right-click or ⋯ button for
+    const { clientX, clientY } = e
+    clearLongPress()
+    longPressTimer.current = window.setTimeout(() => {
+      endDotDrag()
+      setChartDotMenu({ dotId, x: clientX, y: clientY })
+    }, LONG_PRESS_MS)
+  }
 
-  // Document-level mouse event handlers for smooth dragging
-  useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (isDragging) {
-        handleDotDrag(isDragging, e.clientX, e.clientY)
-      }
+  const handleDotPointerMove = (e: React.PointerEvent<SVGElement>, dotId: string) => {
+    const start = dragStart.current
+    if (!start || start.pointerId !== e.pointerId || isDragging !== dotId) return
+
+    if (!start.moved) {
+      if (Math.hypot(e.clientX - start.x, e.clientY - start.y) < DRAG_THRESHOLD_PX) return
+      start.moved = true
+      clearLongPress()
     }
+    handleDotDrag(dotId, e.clientX, e.clientY)
+  }
 
-    const handleMouseUp = () => {
-      if (isDragging && draggingDot) {
-        const updates: Partial<Dot> = { x: draggingDot.x, y: draggingDot.y }
-        if (draggingDot.x === 100) {
-          updates.color = defaultColors[4]
-          updates.size = 1
-        } else if (draggingDot.x > 50) {
-          updates.color = defaultColors[1]
-          updates.size = 3
-        }
-        updateDot(draggingDot.id, updates)
+  const handleDotPointerUp = (e: React.PointerEvent<SVGElement>) => {
+    const start = dragStart.current
+    if (!start || start.pointerId !== e.pointerId) return
+
+    // A tap without movement leaves the dot where it is
+    if (start.moved && isDragging && draggingDot) {
+      const movedDot = currentCollection?.dots.find((d) => d.id === draggingDot.id)
+      const updates: Partial<Dot> = { x: draggingDot.x, y: draggingDot.y }
+      // The collection's position rules decide any restyling at the drop position
+      if (movedDot) {
+        Object.assign(updates, applyDotRules({ ...movedDot, ...updates }, dotStyling, [], 'position'))
       }
-      setIsDragging(null)
-      setDraggingDot(null)
-      setDragStartPos(null)
+      updateDot(draggingDot.id, updates)
     }
+    endDotDrag()
+  }
+
+  // Keyboard access to a focused dot: arrows move it along the curve, Enter opens its details and
+  // the context menu key (or Shift+F10) opens its menu
+  // Save the pending arrow-key move, if any, like dropping a dragged dot
+  const commitKeyboardMove = () => {
+    const move = keyboardMove.current
+    if (!move) return
+    window.clearTimeout(move.timer)
+    keyboardMove.current = null
+    setDraggingDot(null)
+
+    const movedDot = collectionsRef.current.flatMap((c) => c.dots).find((d) => d.id === move.dotId)
+    if (!movedDot || movedDot.x === move.x) return
+    const updates: Partial<Dot> = { x: move.x, y: move.y }
+    Object.assign(updates, applyDotRules({ ...movedDot, ...updates }, dotStyling, [], 'position'))
+    updateDot(move.dotId, updates)
+  }
+
+  const handleDotKeyDown = (e: React.KeyboardEvent<SVGElement>, dotId: string) => {
+    const dot = currentCollection?.dots.find((d) => d.id === dotId)
+    if (!dot) return
+    const isReadOnly = !!playbackFrame || isComparingPast
 
-    if (isDragging) {
-      document.addEventListener('mousemove', handleMouseMove)
-      document.addEventListener('mouseup', handleMouseUp)
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      commitKeyboardMove()
+      if (!isReadOnly) setDetailsDotId(dotId)
+      return
+    }
+    if (e.key === 'ContextMenu' || (e.key === 'F10' && e.shiftKey)) {
+      e.preventDefault()
+      commitKeyboardMove()
+      if (isReadOnly) return
+      const rect = e.currentTarget.getBoundingClientRect()
+      setChartDotMenu({ dotId, x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 })
+      return
     }
 
-    return () => {
-      document.removeEventListener('mousemove', handleMouseMove)
-      document.removeEventListener('mouseup', handleMouseUp)
+    // Presses in quick succession build on the position not saved yet
+    if (keyboardMove.current && keyboardMove.current.dotId !== dotId) commitKeyboardMove()
+    const fromX = keyboardMove.current?.x ?? dot.x
+    const targetX = {
+      ArrowRight: fromX + keyboardStep,
+      ArrowUp: fromX + keyboardStep,
+      ArrowLeft: fromX - keyboardStep,
+      ArrowDown: fromX - keyboardStep,
+      Home: 0,
+      End: 100,
+    }[e.key]
+    if (targetX === undefined) return
+    // Arrows would otherwise scroll the page
+    e.preventDefault()
+    if (isReadOnly) return
+
+    const x = Math.max(0, Math.min(100, targetX))
+    if (x === fromX) return
+    const y = getHillY(x, hillCurve)
+    if (keyboardMove.current) window.clearTimeout(keyboardMove.current.timer)
+    keyboardMove.current = { dotId, x, y, timer: window.setTimeout(commitKeyboardMove, KEYBOARD_MOVE_SAVE_DELAY_MS) }
+    setDraggingDot({ id: dotId, x, y })
+    setChartAnnouncement(getDotAriaLabel({ ...dot, x }, hillCurve))
+  }
+
+  // Ctrl+Z undoes the last edit, Ctrl+Shift+Z (or Ctrl+Y) redoes it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const key = e.key.toLowerCase()
+      if (key !== 'z' && key !== 'y') return
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+      // Snapshots and playback replace the live dots on screen
+      if (isViewingSnapshot || isPlaybackMode || isDragging) return
+
+      e.preventDefault()
+      if (key === 'y' || e.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
     }
-  }, [isDragging, draggingDot, handleDotDrag, updateDot])
 
-  const addDot = async () => {
-    if (!newDotLabel.trim() || !selectedCollection || !user) return
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo, isViewingSnapshot, isPlaybackMode, isDragging])
 
-    console.log('[HILL_CHART] Adding dot:', { label: newDotLabel, collectionId: selectedCollection })
+  // Ctrl+K opens the command palette from anywhere, ? opens the shortcuts cheat sheet
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setShowCommandPalette((open) => !open)
+        return
+      }
+      if (e.key !== '?' || e.ctrlKey || e.metaKey || e.altKey) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+      e.preventDefault()
+      setShowShortcuts(true)
+    }
 
-    const newDot = {
-      id: Date.now().toString(),
-      label: newDotLabel,
-      x: 50,
-      y: getHillY(50),
-      color: defaultColors[0],
-      size: 3,
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  // A new dot from a quick-add line; settings the line leaves out get the defaults
+  const buildQuickAddDot = (parsed: QuickAddDot): Dot => {
+    const x = parsed.x ?? 50
+    return {
+      id: crypto.randomUUID(),
+      label: parsed.label.slice(0, MAX_DOT_LABEL_LENGTH),
+      x,
+      y: getHillY(x, hillCurve),
+      color: parsed.color ?? colorPalette.colors[0].color,
+      size: parsed.size ?? 3,
       archived: false,
     }
+  }
+
+  // Adds the dot typed in the sidebar, or one named in the command palette, in quick-add syntax
+  const addDot = async (text: string = newDotLabel) => {
+    if (!selectedCollection || !user) return
+    const parsed = parseQuickAdd(text, colorPalette)
+    const fromInput = text === newDotLabel
+    // The input warns about a long label instead of cutting it short
+    if (!parsed.label || (fromInput && parsed.label.length > MAX_DOT_LABEL_LENGTH)) return
+
+    console.log('[HILL_CHART] Adding dot:', { label: parsed.label, collectionId: selectedCollection })
+
+    const newDot = buildQuickAddDot(parsed)
 
     try {
       const addedDot = await addDotService(user.id, selectedCollection, newDot)
@@ -695,7 +1551,7 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
         setCollections((prev) =>
           prev.map((c) => (c.id === selectedCollection ? { ...c, dots: [...c.dots, addedDot] } : c)),
         )
-        setNewDotLabel("")
+        if (fromInput) setNewDotLabel("")
       } else {
         console.error('[HILL_CHART] Dot creation returned null')
       }
@@ -704,20 +1560,230 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     }
   }
 
+  // Adds one dot per line of a pasted list in a single batched save, as one undo step
+  const addDotsFromList = async (text: string) => {
+    if (!selectedCollection || !user) return
+    const userId = user.id
+    const collectionId = selectedCollection
+    const parsed = parseQuickAddList(text, colorPalette)
+    if (parsed.length > MAX_QUICK_ADD_LIST_DOTS) {
+      setPastedListWarning(`Paste up to ${MAX_QUICK_ADD_LIST_DOTS} lines at a time; this list has ${parsed.length}. No dots were added.`)
+      return
+    }
+    // Long labels are reported rather than cut short, like the single-dot input refuses them
+    const { fitting, tooLong } = splitByLabelLength(parsed)
+    setPastedListWarning(
+      tooLong.length > 0
+        ? `Not added, names over ${MAX_DOT_LABEL_LENGTH} characters: ${tooLong.map((dot) => dot.label).join(", ")}`
+        : null,
+    )
+    const dots = fitting.map(buildQuickAddDot)
+    if (dots.length === 0) return
+
+    console.log('[HILL_CHART] Adding dots from a pasted list:', { count: dots.length, collectionId })
+
+    // The batched add keeps the dot IDs, so undo and redo work on the same rows
+    const insertDots = async () => {
+      const addedDots = await addDotsService(userId, collectionId, dots)
+      if (!addedDots) throw new Error('Dots could not be added')
+      setCollections((prev) =>
+        prev.map((c) => (c.id === collectionId ? { ...c, dots: [...c.dots, ...addedDots] } : c)),
+      )
+    }
+
+    try {
+      await insertDots()
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to add pasted dots:', error)
+      return
+    }
+    recordUndo({
+      label: `Add ${dots.length} dots`,
+      undo: async () => {
+        if (!(await deleteDotsService(userId, collectionId, dots.map((d) => d.id)))) {
+          throw new Error('Dots could not be removed')
+        }
+        setCollections((prev) =>
+          prev.map((c) => (c.id === collectionId ? { ...c, dots: c.dots.filter((d) => !dots.some((x) => x.id === d.id)) } : c)),
+        )
+      },
+      redo: insertDots,
+    })
+  }
+
+  const removeDotFromCollection = (collectionId: string, dotId: string) => {
+    setCollections((prev) =>
+      prev.map((c) =>
+        c.id === collectionId ? { ...c, dots: c.dots.filter((d) => d.id !== dotId) } : c,
+      ),
+    )
+  }
+
+  const removeDotsFromCollection = (collectionId: string, dotIds: string[]) => {
+    setCollections((prev) =>
+      prev.map((c) => (c.id === collectionId ? { ...c, dots: c.dots.filter((d) => !dotIds.includes(d.id)) } : c)),
+    )
+  }
+
+  // Undo step for dots that were just deleted from a collection
+  const recordDeleteUndo = (userId: string, collectionId: string, dots: Dot[]) => {
+    recordUndo(
+      createDeleteDotsUndoEntry(userId, collectionId, dots, {
+        onRestored: (restoredDots) =>
+          setCollections((prev) =>
+            prev.map((c) => (c.id === collectionId ? { ...c, dots: [...c.dots, ...restoredDots] } : c)),
+          ),
+        onDeleted: (dotIds) => removeDotsFromCollection(collectionId, dotIds),
+      }),
+    )
+  }
+
   const confirmDelete = async () => {
     if (deleteConfirm && selectedCollection && user) {
-      const success = await deleteDotService(user.id, selectedCollection, deleteConfirm.dotId)
+      const userId = user.id
+      const collectionId = selectedCollection
+      const deletedDot = currentCollection?.dots.find((d) => d.id === deleteConfirm.dotId)
+      const success = await deleteDotService(userId, collectionId, deleteConfirm.dotId)
       if (success) {
-        setCollections((prev) =>
-          prev.map((c) =>
-            c.id === selectedCollection ? { ...c, dots: c.dots.filter((d) => d.id !== deleteConfirm.dotId) } : c,
-          ),
-        )
+        removeDotFromCollection(collectionId, deleteConfirm.dotId)
+        if (deletedDot) {
+          recordDeleteUndo(userId, collectionId, [deletedDot])
+        }
       }
       setDeleteConfirm(null)
     }
   }
 
+  // Bulk actions on the selected dots; each is one batched request and one undo step
+
+  // Selected dots the list and chart currently show
+  const getSelectedDots = (): Dot[] => {
+    const filter = (selectedCollection && dotFilters[selectedCollection]) || EMPTY_DOT_FILTER
+    return (currentCollection?.dots || []).filter(
+      (d) => selectedDotIds.includes(d.id) && !d.archived && matchesDotFilter(d, filter),
+    )
+  }
+
+  const updateSelectedDots = async (label: string, getUpdates: (dot: Dot) => Partial<Dot>) => {
+    if (!selectedCollection) return
+    const collectionId = selectedCollection
+    const changes = Object.fromEntries(getSelectedDots().map((dot) => [dot.id, getUpdates(dot)]))
+    const originalDots = await saveDotsChanges(collectionId, changes)
+    if (!originalDots) {
+      console.error('[HILL_CHART] Failed to update selected dots')
+      return
+    }
+
+    const previousValues = Object.fromEntries(
+      originalDots.map((dot) => [
+        dot.id,
+        Object.fromEntries(Object.keys(changes[dot.id]).map((key) => [key, dot[key as keyof Dot]])) as Partial<Dot>,
+      ]),
+    )
+    const applyChanges = (dotChanges: Record<string, Partial<Dot>>) => async () => {
+      if (!(await saveDotsChanges(collectionId, dotChanges))) {
+        throw new Error('Dots could not be saved')
+      }
+    }
+    recordUndo({ label, undo: applyChanges(previousValues), redo: applyChanges(changes) })
+  }
+
+  const handleBulkMoveBy = (delta: number) =>
+    updateSelectedDots(`Move ${getSelectedDots().length} dots`, (dot) => {
+      const x = Math.max(0, Math.min(100, dot.x + delta))
+      const updates: Partial<Dot> = { x, y: getHillY(x, hillCurve) }
+      // Same restyling as dropping each dot at its new position
+      return { ...updates, ...applyDotRules({ ...dot, ...updates }, dotStyling, [], 'position') }
+    })
+
+  const handleBulkArchive = async () => {
+    await updateSelectedDots(`Archive ${getSelectedDots().length} dots`, () => ({ archived: true }))
+    setSelectedDotIds([])
+  }
+
+  const handleBulkDelete = async () => {
+    if (!user || !selectedCollection) return
+    const userId = user.id
+    const collectionId = selectedCollection
+    const dots = getSelectedDots()
+    if (dots.length === 0) return
+
+    try {
+      await removeDots(userId, collectionId, dots, (dotIds) => removeDotsFromCollection(collectionId, dotIds))
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to delete selected dots:', error)
+      return
+    }
+    setSelectedDotIds([])
+    recordDeleteUndo(userId, collectionId, dots)
+  }
+
+  // Move or copy dots of the selected collection into another one, as one undo step.
+  // Copies get new IDs, and a moved dot may too, so later steps use the IDs the service returned.
+  const transferDotsToCollection = async (dots: Dot[], targetCollectionId: string, mode: 'move' | 'copy'): Promise<boolean> => {
+    if (!user || !selectedCollection || dots.length === 0) return false
+    const userId = user.id
+    const sourceCollectionId = selectedCollection
+    const targetName = collections.find((c) => c.id === targetCollectionId)?.name
+    if (!targetName) return false
+
+    let sourceDots = dots
+    let targetDots: Dot[] = []
+    const replaceDots = (collectionId: string, removed: Dot[], added: Dot[]) => {
+      const removedIds = new Set(removed.map((d) => d.id))
+      setCollections((prev) =>
+        prev.map((c) =>
+          c.id === collectionId ? { ...c, dots: [...c.dots.filter((d) => !removedIds.has(d.id)), ...added] } : c,
+        ),
+      )
+    }
+
+    const apply = async () => {
+      const result = mode === 'move'
+        ? await moveDotsService(userId, sourceCollectionId, targetCollectionId, sourceDots)
+        : await copyDotsService(userId, sourceCollectionId, targetCollectionId, sourceDots)
+      if (!result) throw new Error(`Dots could not be ${mode === 'move' ? 'moved' : 'copied'}`)
+      if (mode === 'move') replaceDots(sourceCollectionId, sourceDots, [])
+      replaceDots(targetCollectionId, [], result)
+      targetDots = result
+    }
+
+    // Undoing a copy deletes the copies; undoing a move moves the dots back
+    const revert = async () => {
+      if (mode === 'copy') {
+        if (!(await deleteDotsService(userId, targetCollectionId, targetDots.map((d) => d.id)))) {
+          throw new Error('Copies could not be deleted')
+        }
+        replaceDots(targetCollectionId, targetDots, [])
+        return
+      }
+      const result = await moveDotsService(userId, targetCollectionId, sourceCollectionId, targetDots)
+      if (!result) throw new Error('Dots could not be moved back')
+      replaceDots(targetCollectionId, targetDots, [])
+      replaceDots(sourceCollectionId, [], result)
+      sourceDots = result
+    }
+
+    try {
+      await apply()
+    } catch (error) {
+      console.error(`[HILL_CHART] Failed to ${mode} dots:`, error)
+      return false
+    }
+    recordUndo({
+      label: `${mode === 'move' ? 'Move' : 'Copy'} ${dots.length === 1 ? dots[0].label : `${dots.length} dots`} to ${targetName}`,
+      undo: revert,
+      redo: apply,
+    })
+    return true
+  }
+
+  const handleBulkMoveToCollection = async (targetCollectionId: string) => {
+    if (await transferDotsToCollection(getSelectedDots(), targetCollectionId, 'move')) {
+      setSelectedDotIds([])
+    }
+  }
+
   // Archive operation handlers
   const handleArchiveCollection = async (collectionId: string) => {
     if (!user) return
@@ -895,62 +1961,9 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     }
   }
 
-  const prepareSvgForExport = (): string | null => {
-    if (!svgRef.current) return null
-
-    const isDarkMode = document.documentElement.classList.contains("dark")
-    const backgroundColor = isDarkMode ? "#0f0f0f" : "#ffffff"
-    const textColor = isDarkMode ? "#fafafa" : "#0a0a0a"
-    const mutedColor = isDarkMode ? "#a1a1aa" : "#71717a"
-    const borderColor = isDarkMode ? "#27272a" : "#e4e4e7"
-
-    const svgElement = svgRef.current.cloneNode(true) as SVGSVGElement
-    svgElement.setAttribute("width", "800")
-    svgElement.setAttribute("height", "360")
-    svgElement.style.backgroundColor = backgroundColor
-    svgElement.setAttribute("viewBox", "-50 0 700 180")
-
-    const paths = svgElement.querySelectorAll("path")
-    paths.forEach((path) => {
-      if (path.getAttribute("stroke") === "currentColor") path.setAttribute("stroke", textColor)
-    })
-
-    const lines = svgElement.querySelectorAll("line")
-    lines.forEach((line) => {
-      if (line.getAttribute("stroke") === "currentColor") line.setAttribute("stroke", textColor)
-      if (line.getAttribute("stroke") === "hsl(var(--muted-foreground))") line.setAttribute("stroke", mutedColor)
-    })
-
-    const texts = svgElement.querySelectorAll("text")
-    texts.forEach((text) => {
-      text.setAttribute("font-family", "Arial, Helvetica, sans-serif")
-      if (text.classList.contains("fill-foreground")) text.setAttribute("fill", textColor)
-      if (text.classList.contains("fill-muted-foreground")) text.setAttribute("fill", mutedColor)
-
-      const currentFontSize = text.getAttribute("fontSize") || text.style.fontSize
-      if (currentFontSize) {
-        text.setAttribute("font-size", currentFontSize)
-      } else {
-        if (text.classList.contains("text-[8px]")) text.setAttribute("font-size", "8px")
-        else if (text.classList.contains("text-[10px]")) text.setAttribute("font-size", "10px")
-        else if (text.classList.contains("text-sm")) text.setAttribute("font-size", "14px")
-        else {
-          const fontSizeAttr = text.getAttribute("fontSize")
-          if (fontSizeAttr) text.setAttribute("font-size", fontSizeAttr + "px")
-        }
-      }
-      if (text.classList.contains("font-semibold")) text.setAttribute("font-weight", "600")
-      else if (text.classList.contains("font-medium")) text.setAttribute("font-weight", "500")
-      else if (text.classList.contains("font-normal")) text.setAttribute("font-weight", "400")
-    })
-
-    const rects = svgElement.querySelectorAll("rect")
-    rects.forEach((rect) => {
-      if (rect.getAttribute("fill") === "hsl(var(--background))") rect.setAttribute("fill", backgroundColor)
-      if (rect.getAttribute("stroke") === "hsl(var(--border))") rect.setAttribute("stroke", borderColor)
-    })
-
-    return new XMLSerializer().serializeToString(svgElement)
+  const prepareSvgForExport = (): string | null => {
+    if (!svgRef.current) return null
+    return new XMLSerializer().serializeToString(prepareChartSvg(svgRef.current))
   }
 
   const copyChartAsPNG = async () => {
@@ -1133,7 +2146,19 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     }
   }
 
-  const exportCollections = () => {
+  const exportCollections = async () => {
+    if (!user) return
+
+    // Export needs every snapshot with its dots, not just the summaries shown in the calendar.
+    // Without them the file would be incomplete, so nothing is exported.
+    let snapshots: Snapshot[]
+    try {
+      snapshots = await fetchSnapshots(user.id)
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to fetch snapshots for export:', error)
+      return
+    }
+
     // Create clean export data with decrypted, user-readable content
     const cleanCollections = collections.map((collection) => ({
       id: collection.id,
@@ -1148,11 +2173,27 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
         y: dot.y,
         color: dot.color,
         size: dot.size,
-        archived: Boolean(dot.archived) // Ensure it's a boolean
+        archived: Boolean(dot.archived), // Ensure it's a boolean
+        ...getDotDetails(dot)
       })),
       // Include release line configuration if it exists
       ...(releaseLineSettings[collection.id] && {
         releaseLineConfig: releaseLineSettings[collection.id]
+      }),
+      ...(collection.hillCurveConfig && {
+        hillCurveConfig: collection.hillCurveConfig
+      }),
+      ...(collection.dotStyling && {
+        dotStyling: collection.dotStyling
+      }),
+      ...(collection.colorPalette && {
+        colorPalette: collection.colorPalette
+      }),
+      ...(collection.filterPresets && {
+        filterPresets: collection.filterPresets
+      }),
+      ...(collection.dotList && {
+        dotList: collection.dotList
       })
     }))
 
@@ -1168,9 +2209,13 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
         y: dot.y,
         color: dot.color,
         size: dot.size,
-        archived: Boolean(dot.archived)
+        archived: Boolean(dot.archived),
+        ...getDotDetails(dot)
       })),
       timestamp: snapshot.timestamp,
+      ...(snapshot.name && { name: snapshot.name }),
+      ...(snapshot.note && { note: snapshot.note }),
+      ...(snapshot.pinned && { pinned: true }),
       // Include release line configuration if it exists in the snapshot
       ...(snapshot.releaseLineConfig && {
         releaseLineConfig: snapshot.releaseLineConfig
@@ -1336,6 +2381,7 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     setShowDropdown(false)
     setIsTyping(false)
     setSelectedSnapshot(null)
+    setSelectedSnapshotDay(null)
     // Load release line config for the selected collection
     loadReleaseLineConfig(collection.id)
   }
@@ -1381,12 +2427,29 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
 
     // Update backend
     const success = await updateCollection(user.id, editingCollectionId, { name: trimmedName })
+    const previousName = collections.find(c => c.id === editingCollectionId)?.name || ""
 
     if (!success) {
       // Revert on error
       setCollections(originalCollections)
-      setCollectionInput(collections.find(c => c.id === editingCollectionId)?.name || "")
+      setCollectionInput(previousName)
       console.error("Failed to update collection name")
+    } else if (previousName !== trimmedName) {
+      const userId = user.id
+      const collectionId = editingCollectionId
+      const renameTo = (from: string, to: string) => async () => {
+        if (!(await updateCollection(userId, collectionId, { name: to }))) {
+          throw new Error('Collection could not be renamed')
+        }
+        setCollections(prev => prev.map(c => (c.id === collectionId ? { ...c, name: to } : c)))
+        // Only replace the selector text when it shows this collection
+        setCollectionInput(input => (input === from ? to : input))
+      }
+      recordUndo({
+        label: `Rename ${previousName}`,
+        undo: renameTo(trimmedName, previousName),
+        redo: renameTo(previousName, trimmedName),
+      })
     }
 
     setIsEditingCollection(false)
@@ -1413,8 +2476,33 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
 
 
   // Snapshot functions
+  // "Unmoved" rules compare each dot with its position in the collection's latest snapshots
+  const applyUnmovedDotRules = async (collection: Collection) => {
+    if (!user) return
+
+    const styling = collection.dotStyling ?? DEFAULT_DOT_STYLING
+    const historyLength = getRequiredHistoryLength(styling)
+    if (historyLength === 0) return
+
+    try {
+      const timeline = getCollectionSnapshots(await fetchSnapshotSummaries(user.id, { collectionId: collection.id }), collection.id)
+      const recentSnapshots = await ensureSnapshotsLoaded(timeline.slice(-historyLength).map((summary) => summary.id))
+
+      for (const dot of collection.dots.filter((d) => !d.archived)) {
+        const history = recentSnapshots.map((snapshot) => snapshot.dots.find((d) => d.id === dot.id)?.x)
+        const updates = applyDotRules(dot, styling, history, 'unmoved')
+        // Automatic restyling isn't an undo step of its own
+        if (Object.keys(updates).length > 0) {
+          await saveDotChanges(dot.id, updates)
+        }
+      }
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to apply dot rules:', error)
+    }
+  }
+
   const handleCreateSnapshot = async () => {
-    if (!user || !currentCollection) return
+    if (!user || !currentCollection || !snapshotDraft) return
 
     // Ensure every dot has an explicit archived property
     const dotsWithArchived = (currentCollection.dots || []).map(dot => ({
@@ -1431,15 +2519,26 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
         currentCollection.id,
         currentCollection.name,
         dotsWithArchived,
-        currentReleaseLineConfig
+        currentReleaseLineConfig,
+        { name: snapshotDraft.name, note: snapshotDraft.note }
       )
 
       if (success) {
         // Refresh snapshots
-        const updatedSnapshots = await fetchSnapshots(user.id)
-        setSnapshots(updatedSnapshots)
+        await refreshSnapshotSummaries()
+        setSnapshotDraft(null)
         setSnapshotSuccess(true) // Set success state
         // Could add a toast notification here for success
+
+        // Apply the retention policy now that there is a new snapshot
+        if (retentionPolicy.enabled) {
+          const pruned = await pruneSnapshots(user.id, retentionPolicy)
+          if (pruned.length > 0) {
+            await refreshSnapshotSummaries()
+          }
+        }
+
+        await applyUnmovedDotRules(currentCollection)
       } else {
         // Could add error handling here
         console.error("Failed to create snapshot")
@@ -1449,27 +2548,35 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     }
   }
 
-  const handleViewSnapshot = async (dateString: string) => {
+  const handleViewSnapshot = async (snapshotId: string) => {
     if (!user) return
 
     try {
-      const snapshotForDate = snapshots.find(s => s.date === dateString)
+      const [snapshotForDate] = await ensureSnapshotsLoaded([snapshotId])
       if (!snapshotForDate) {
-        console.error("Snapshot not found for date:", dateString)
+        console.error("Snapshot not found:", snapshotId)
         return
       }
 
-      // Store original collections before switching to snapshot
-      setOriginalCollections(collections)
+      // Store original collections before switching to snapshot,
+      // but keep the live ones when moving from one snapshot to another
+      if (!isViewingSnapshot) {
+        setOriginalCollections(collections)
+      }
 
       // Create snapshot collections with the snapshot data
+      const liveSnapshotCollection = (isViewingSnapshot ? originalCollections : collections)
+        .find(c => c.id === snapshotForDate.collectionId)
       const snapshotCollection: Collection = {
         id: snapshotForDate.collectionId,
         name: snapshotForDate.collectionName,
         status: 'active' as const,
         archived_at: undefined,
         deleted_at: undefined,
-        dots: snapshotForDate.dots
+        dots: snapshotForDate.dots,
+        // Snapshots are drawn on the collection's current curve, with its current legend
+        hillCurveConfig: liveSnapshotCollection?.hillCurveConfig,
+        colorPalette: liveSnapshotCollection?.colorPalette
       }
 
       setSnapshotCollections([snapshotCollection])
@@ -1478,7 +2585,7 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
       setCollectionInput(snapshotCollection.name)
       setCurrentSnapshot(snapshotForDate)
       setIsViewingSnapshot(true)
-      setSelectedSnapshot(dateString)
+      setSelectedSnapshot(snapshotId)
       
       // Use release line config from snapshot if available, otherwise load from database
       if (snapshotForDate.releaseLineConfig) {
@@ -1495,10 +2602,10 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     }
   }
 
-  const handleViewLive = () => {
-    // Restore original collections
-    setCollections(originalCollections)
-    const firstCollection = originalCollections[0]
+  const handleViewLive = (liveCollections: Collection[] = originalCollections) => {
+    // Restore original collections, staying on the snapshot's collection when it still exists
+    setCollections(liveCollections)
+    const firstCollection = liveCollections.find(c => c.id === selectedCollection) || liveCollections[0]
     setSelectedCollection(firstCollection?.id || null)
     setCollectionInput(firstCollection?.name || "")
     setCurrentSnapshot(null)
@@ -1510,6 +2617,329 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     }
   }
 
+  const handleOpenPortfolio = async () => {
+    setShowPortfolio(true)
+    if (!user) return
+
+    setIsLoadingPortfolio(true)
+    try {
+      setLatestSnapshotDates(await fetchLatestSnapshotDates(user.id))
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to load latest snapshot dates:', error)
+    } finally {
+      setIsLoadingPortfolio(false)
+    }
+  }
+
+  // Switch collection from the command palette, leaving a past snapshot for the live data first
+  const handlePaletteCollectionSelect = (collection: Collection) => {
+    if (isViewingSnapshot) {
+      handleViewLive()
+    }
+    handleCollectionSelect(collection)
+  }
+
+  const handlePaletteSnapshotSelect = (snapshot: SnapshotSummary) => {
+    // Show the snapshot's day in the calendar as if it had been picked there
+    setCurrentDate(new Date(`${snapshot.date}T00:00:00`))
+    setSelectedSnapshotDay(snapshot.date)
+    handleViewSnapshot(snapshot.id)
+  }
+
+  const handleOpenPortfolioCollection = (collection: Collection) => {
+    if (isViewingSnapshot) {
+      handleViewLive()
+    }
+    handleCollectionSelect(collection)
+    setShowPortfolio(false)
+  }
+
+  const handleDotStylingChange = async (styling: DotStylingConfig) => {
+    if (!user || !selectedCollection) return
+
+    const collectionId = selectedCollection
+    const applyStyling = (list: Collection[]) =>
+      list.map(c => c.id === collectionId ? { ...c, dotStyling: styling } : c)
+    setCollections(applyStyling)
+    setOriginalCollections(applyStyling)
+
+    // Wait until every tag action has a tag before saving
+    if (styling.rules.some(rule => rule.actions.some(action => action.type === 'addTag' && !action.tag.trim()))) return
+
+    try {
+      const success = await updateCollectionDotStyling(user.id, collectionId, styling)
+      if (!success) {
+        console.error('[HILL_CHART] Failed to update dot styling rules')
+      }
+    } catch (error) {
+      console.error('[HILL_CHART] Error updating dot styling rules:', error)
+    }
+  }
+
+  const handleDotFilterChange = (filter: DotFilter) => {
+    if (!selectedCollection) return
+    setDotFilters(prev => ({ ...prev, [selectedCollection]: filter }))
+  }
+
+  const handleFilterPresetsChange = async (presets: FilterPreset[]) => {
+    if (!user || !selectedCollection) return
+
+    const collectionId = selectedCollection
+    const applyPresets = (list: Collection[]) =>
+      list.map(c => c.id === collectionId ? { ...c, filterPresets: presets } : c)
+    setCollections(applyPresets)
+    setOriginalCollections(applyPresets)
+
+    try {
+      const success = await updateCollectionFilterPresets(user.id, collectionId, presets)
+      if (!success) {
+        console.error('[HILL_CHART] Failed to update filter presets')
+      }
+    } catch (error) {
+      console.error('[HILL_CHART] Error updating filter presets:', error)
+    }
+  }
+
+  const handleDotListConfigChange = async (config: DotListConfig) => {
+    if (!user || !selectedCollection) return
+
+    const collectionId = selectedCollection
+    const applyConfig = (list: Collection[]) =>
+      list.map(c => c.id === collectionId ? { ...c, dotList: config } : c)
+    setCollections(applyConfig)
+    setOriginalCollections(applyConfig)
+
+    try {
+      const success = await updateCollectionDotListConfig(user.id, collectionId, config)
+      if (!success) {
+        console.error('[HILL_CHART] Failed to update dot list settings')
+      }
+    } catch (error) {
+      console.error('[HILL_CHART] Error updating dot list settings:', error)
+    }
+  }
+
+  // Move a dot to where another one is in the manual order. The order covers every dot of the
+  // collection, so dots hidden by a filter or archived keep their place.
+  const reorderDot = (dotId: string, targetId: string) => {
+    const orderedIds = sortDotList(currentCollection?.dots ?? [], { ...dotListConfig, sortMode: 'manual' }, { palette: colorPalette })
+      .map((dot) => dot.id)
+    const manualOrder = moveInManualOrder(orderedIds, dotId, targetId)
+    if (manualOrder === orderedIds) return
+    handleDotListConfigChange({ ...dotListConfig, sortMode: 'manual', manualOrder })
+  }
+
+  // Color inputs change continuously while picking, so the palette is saved once it settles
+  const { schedule: scheduleColorPaletteSave } = useDebouncedSave<ColorPaletteConfig>(async (collectionId, palette) => {
+    if (!user) return
+    try {
+      const success = await updateCollectionColorPalette(user.id, collectionId, palette)
+      if (!success) {
+        console.error('[HILL_CHART] Failed to update color palette')
+      }
+    } catch (error) {
+      console.error('[HILL_CHART] Error updating color palette:', error)
+    }
+  })
+
+  const handleColorPaletteChange = (palette: ColorPaletteConfig) => {
+    if (!user || !selectedCollection) return
+
+    const collectionId = selectedCollection
+    const applyPalette = (list: Collection[]) =>
+      list.map(c => c.id === collectionId ? { ...c, colorPalette: palette } : c)
+    setCollections(applyPalette)
+    setOriginalCollections(applyPalette)
+
+    // Wait until every color has a name before saving
+    if (palette.colors.some(entry => !entry.name.trim())) return
+    scheduleColorPaletteSave(collectionId, palette)
+  }
+
+  const handleSnapshotScheduleChange = async (schedule: SnapshotSchedule) => {
+    if (!user || !selectedCollection) return
+
+    const collectionId = selectedCollection
+    const previousSchedule = snapshotSchedules[collectionId]
+    // Snapshots are dated in the browser's time zone, so the schedule runs on the same days
+    const zonedSchedule: SnapshotSchedule = schedule.frequency === "off"
+      ? schedule
+      : { ...schedule, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+    setSnapshotSchedules(prev => ({ ...prev, [collectionId]: zonedSchedule }))
+
+    try {
+      const success = await updateCollectionSnapshotSchedule(user.id, collectionId, zonedSchedule)
+      if (!success) {
+        throw new Error('Snapshot schedule update failed')
+      }
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to save snapshot schedule:', error)
+      setSnapshotSchedules(prev => ({ ...prev, [collectionId]: previousSchedule || { frequency: "off" } }))
+    }
+  }
+
+  const handleToggleSnapshotPinned = async (snapshot: SnapshotSummary) => {
+    if (!user) return
+
+    const pinned = !snapshot.pinned
+    try {
+      const success = await setSnapshotPinned(user.id, snapshot.id, pinned)
+      if (!success) {
+        throw new Error('Snapshot pin update failed')
+      }
+      setSnapshotSummaries(prev => prev.map(s => s.id === snapshot.id ? { ...s, pinned } : s))
+      setLoadedSnapshots(prev => prev[snapshot.id] ? { ...prev, [snapshot.id]: { ...prev[snapshot.id], pinned } } : prev)
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to update snapshot pin:', error)
+    }
+  }
+
+  const handleOpenRetentionSettings = () => {
+    setShowRetentionSettings(true)
+    setRetentionPreview(null)
+  }
+
+  const handleRetentionPolicyChange = async (policy: SnapshotRetentionPolicy) => {
+    if (!user) return
+
+    const previousPolicy = retentionPolicy
+    setRetentionPolicy(policy)
+    setRetentionPreview(null)
+    try {
+      const success = await updateSnapshotRetentionPolicy(user.id, policy)
+      if (!success) {
+        throw new Error('Snapshot retention policy update failed')
+      }
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to save snapshot retention policy:', error)
+      setRetentionPolicy(previousPolicy)
+    }
+  }
+
+  const handlePreviewRetention = async () => {
+    if (!user) return
+    try {
+      setRetentionPreview(await pruneSnapshots(user.id, retentionPolicy, true))
+    } catch (error) {
+      console.error('[HILL_CHART] Failed to preview snapshot pruning:', error)
+      setRetentionPreview(null)
+    }
+  }
+
+  const handlePruneSnapshots = async () => {
+    if (!user) return
+
+    setIsPruningSnapshots(true)
+    try {
+      await pruneSnapshots(user.id, retentionPolicy)
+      await refreshSnapshotSummaries()
+      setRetentionPreview(await pruneSnapshots(user.id, retentionPolicy, true))
+    } catch (error) {
+      console.error("Error pruning snapshots:", error)
+    } finally {
+      setIsPruningSnapshots(false)
+    }
+  }
+
+  // Overwrite the live collection with the snapshot being viewed
+  const handleRestoreSnapshot = async () => {
+    if (!user || !selectedSnapshot) return
+
+    setIsRestoringSnapshot(true)
+    try {
+      const restoredCollection = await restoreSnapshot(user.id, selectedSnapshot)
+      if (!restoredCollection) {
+        console.error("Failed to restore snapshot")
+        return
+      }
+
+      // The safety snapshot taken before the restore shows up in the calendar
+      await refreshSnapshotSummaries()
+      setShowRestoreConfirm(false)
+      handleViewLive(originalCollections.map(c => c.id === restoredCollection.id ? restoredCollection : c))
+    } catch (error) {
+      console.error("Error restoring snapshot:", error)
+    } finally {
+      setIsRestoringSnapshot(false)
+    }
+  }
+
+  // Snapshot playback handlers
+  const handleStartPlayback = async () => {
+    if (!selectedCollection) return
+
+    setIsLoadingSnapshotHistory(true)
+    try {
+      // Playback runs through the whole timeline, so open every snapshot of the collection first
+      const timeline = await loadSnapshotSummaries({ collectionId: selectedCollection })
+      if (timeline.length < 2) return
+      await ensureSnapshotsLoaded(timeline.map((summary) => summary.id))
+      setIsDiffMode(false)
+      playbackAutoStart.current = true
+      setIsPlaybackMode(true)
+    } finally {
+      setIsLoadingSnapshotHistory(false)
+    }
+  }
+
+  const handleExitPlayback = () => {
+    playback.reset()
+    setIsPlaybackMode(false)
+  }
+
+  // Snapshot diff handlers
+  const handleStartDiff = async () => {
+    if (!selectedCollection) return
+
+    setIsLoadingSnapshotHistory(true)
+    try {
+      // The comparison can pick any snapshot of the collection, not just this month's
+      const timeline = getCollectionSnapshots(
+        await loadSnapshotSummaries({ collectionId: selectedCollection }),
+        selectedCollection
+      )
+      if (timeline.length === 0) return
+
+      // Default to "what changed since the last snapshot"
+      const latest = timeline[timeline.length - 1]
+      await ensureSnapshotsLoaded([latest.id])
+      handleExitPlayback()
+      setDiffFromKey(getSnapshotDiffKey(latest))
+      setDiffToKey(LIVE_DIFF_KEY)
+      setDiffCopied(false)
+      setIsDiffMode(true)
+    } finally {
+      setIsLoadingSnapshotHistory(false)
+    }
+  }
+
+  // Open the chosen snapshot before comparing against it
+  const handleDiffSourceChange = (setKey: (key: string) => void) => async (key: string) => {
+    if (key !== LIVE_DIFF_KEY) {
+      await ensureSnapshotsLoaded([key])
+    }
+    setKey(key)
+  }
+
+  const handleExitDiff = () => {
+    setIsDiffMode(false)
+    setDiffCopied(false)
+  }
+
+  const handleCopyDiff = async () => {
+    if (!snapshotDiff) return
+    const getSourceLabel = (key: string) =>
+      key === LIVE_DIFF_KEY ? "Live" : collectionSnapshotSummaries.find((s) => getSnapshotDiffKey(s) === key)?.date || key
+
+    try {
+      await navigator.clipboard.writeText(formatDiffAsText(snapshotDiff, getSourceLabel(diffFromKey), getSourceLabel(diffToKey)))
+      setDiffCopied(true)
+      setTimeout(() => setDiffCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy snapshot diff:", error)
+    }
+  }
+
   // Add tip handler function
   const handleTipClick = () => {
     // Replace 'your-paypal-username' with your actual PayPal.me username
@@ -1533,8 +2963,8 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
     for (let day = 1; day <= daysInMonth; day++) {
       const date = new Date(currentDate.getFullYear(), currentDate.getMonth(), day)
       const dateString = getLocalDateString(date)
-      const hasSnapshot = snapshots.some((s) => s.date === dateString)
-      const isSelected = selectedSnapshot === dateString
+      const hasSnapshot = collectionSnapshotSummaries.some((s) => s.date === dateString)
+      const isSelected = selectedSnapshotDay === dateString
       const isToday =
         date.getDate() === today.getDate() &&
         date.getMonth() === today.getMonth() &&
@@ -1543,7 +2973,7 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
       days.push(
         <div key={day} className="flex items-center justify-center">
           <button
-            onClick={() => (hasSnapshot ? handleViewSnapshot(dateString) : null)}
+            onClick={() => (hasSnapshot ? setSelectedSnapshotDay(isSelected ? null : dateString) : null)}
             className={`w-8 h-8 rounded-full text-sm flex items-center justify-center transition-colors
               ${isSelected
                 ? "bg-primary text-primary-foreground"
@@ -1584,16 +3014,65 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
           <div>Sa</div>
         </div>
         <div className="grid grid-cols-7 gap-1">{days}</div>
+        {selectedSnapshotDay && (
+          <div className="mt-3 space-y-1 max-h-32 overflow-y-auto" data-testid="day-snapshot-list">
+            {collectionSnapshotSummaries
+              .filter((s) => s.date === selectedSnapshotDay)
+              .map((snapshot) => (
+                <div
+                  key={snapshot.id}
+                  className={`flex items-center rounded text-sm transition-colors
+                    ${selectedSnapshot === snapshot.id ? "bg-primary text-primary-foreground" : "hover:bg-accent"}
+                  `}
+                >
+                  <button
+                    onClick={() => handleViewSnapshot(snapshot.id)}
+                    className="flex-1 min-w-0 text-left px-2 py-1"
+                    title={snapshot.note}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="tabular-nums text-xs opacity-70">
+                        {new Date(snapshot.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                      </span>
+                      <span className="truncate">{snapshot.name || "Untitled snapshot"}</span>
+                    </div>
+                    {snapshot.note && <div className="text-xs opacity-70 truncate">{snapshot.note}</div>}
+                  </button>
+                  <button
+                    onClick={() => handleToggleSnapshotPinned(snapshot)}
+                    className={`p-1 mr-1 rounded ${snapshot.pinned ? "opacity-100" : "opacity-40 hover:opacity-100"}`}
+                    title={snapshot.pinned ? "Unpin snapshot" : "Pin snapshot (never pruned)"}
+                    aria-label={snapshot.pinned ? "Unpin snapshot" : "Pin snapshot"}
+                  >
+                    {snapshot.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                  </button>
+                </div>
+              ))}
+          </div>
+        )}
         <div className="flex gap-2 mt-3">
           {isViewingSnapshot ? (
-            <Button
-              size="sm"
-              variant="secondary"
-              className="w-full"
-              onClick={handleViewLive}
-            >
-              View Live
-            </Button>
+            <>
+              <Button
+                size="sm"
+                variant="secondary"
+                className="w-full"
+                onClick={() => handleViewLive()}
+              >
+                View Live
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex items-center gap-2"
+                onClick={() => setShowRestoreConfirm(true)}
+                disabled={!selectedSnapshot}
+                title="Replace the live collection with this snapshot"
+              >
+                <Undo2 className="w-4 h-4" />
+                Restore
+              </Button>
+            </>
           ) : (
             <Button
               size="sm"
@@ -1602,34 +3081,186 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                 ? "border-green-500 bg-green-500/10 text-green-600 hover:bg-green-500/20 dark:border-green-400 dark:bg-green-400/10 dark:text-green-400 dark:hover:bg-green-400/20"
                 : ""
                 }`}
-              onClick={handleCreateSnapshot}
+              onClick={() => setSnapshotDraft({ name: "", note: "" })}
             >
               <Camera className="w-4 h-4" />
               {snapshotSuccess ? "New Snapshot Created" : "Snapshot"}
             </Button>
           )}
+          {!isViewingSnapshot && collectionSnapshotSummaries.length >= 2 && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={isPlaybackMode ? handleExitPlayback : handleStartPlayback}
+              disabled={isLoadingSnapshotHistory}
+              title={isPlaybackMode ? "Stop history playback" : "Play this collection's snapshot history"}
+            >
+              <History className="w-4 h-4" />
+              {isPlaybackMode ? "Stop" : "Play"}
+            </Button>
+          )}
+          {collectionSnapshotSummaries.length >= 1 && (
+            <Button
+              size="sm"
+              variant={isDiffMode ? "secondary" : "outline"}
+              className="flex items-center gap-2"
+              onClick={isDiffMode ? handleExitDiff : handleStartDiff}
+              disabled={isLoadingSnapshotHistory}
+              title={isDiffMode ? "Close comparison" : "Compare two snapshots, or a snapshot with live"}
+            >
+              <GitCompare className="w-4 h-4" />
+              Compare
+            </Button>
+          )}
         </div>
+        {!isViewingSnapshot && selectedCollection && (() => {
+          const schedule = snapshotSchedules[selectedCollection] || { frequency: "off" as const }
+
+          return (
+            <div className="flex items-center gap-2 mt-3">
+              <span className="text-xs text-muted-foreground whitespace-nowrap">Auto snapshot</span>
+              <Select
+                value={schedule.frequency}
+                onValueChange={(frequency) =>
+                  handleSnapshotScheduleChange(
+                    frequency === "weekly"
+                      ? { frequency, weekday: schedule.weekday ?? 1 }
+                      : { frequency: frequency as SnapshotSchedule["frequency"] }
+                  )
+                }
+              >
+                <SelectTrigger className="h-8 text-xs" aria-label="Automatic snapshot schedule">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekdays">Weekdays</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+              {schedule.frequency === "weekly" && (
+                <Select
+                  value={(schedule.weekday ?? 1).toString()}
+                  onValueChange={(weekday) => handleSnapshotScheduleChange({ frequency: "weekly", weekday: Number(weekday) })}
+                >
+                  <SelectTrigger className="h-8 text-xs" aria-label="Weekly snapshot day">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {weekdayNames.map((name, index) => (
+                      <SelectItem key={name} value={index.toString()}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )
+        })()}
       </div>
     )
   }
 
-  // Before rendering the dot list, define activeDots and archivedDots (sorted by position on line: higher x = top of list)
-  const activeDots: Dot[] = (currentCollection?.dots || [])
-    .filter((dot: Dot) => !dot.archived)
-    .sort((a, b) => b.x - a.x);
+  // Before rendering the dot list, define activeDots (in the collection's sort mode) and archivedDots
+  // (sorted by position on line: higher x = top of list)
+  const dotFilter = (selectedCollection && dotFilters[selectedCollection]) || EMPTY_DOT_FILTER
+  const activeDots: Dot[] = sortDotList(
+    (currentCollection?.dots || []).filter((dot: Dot) => !dot.archived && matchesDotFilter(dot, dotFilter)),
+    dotListConfig,
+    { palette: colorPalette, lastMoved: dotLastMoved }
+  );
+  const activeDotGroups = dotListConfig.groupBySide
+    ? groupDotList(activeDots, hillCurve)
+    : [{ key: "all", title: "", dots: activeDots }]
+  // Dots are dragged into a manual order only in the live list
+  const canReorderDots = dotListConfig.sortMode === 'manual' && !isViewingSnapshot
   const archivedDots: Dot[] = (currentCollection?.dots || [])
     .filter((dot: Dot) => dot.archived)
     .sort((a, b) => b.x - a.x);
+  const selectedActiveDots = activeDots.filter((dot) => selectedDotIds.includes(dot.id))
+  // During playback the chart shows the interpolated history frame instead of live dots,
+  // and while comparing it shows the "to" side of the diff
+  // Filtered-out dots are left out before the label layout, so the rest stay readable
+  const chartDots: Array<Dot & { opacity?: number }> = (playbackFrame
+    ?? placeDotsOnHill((diffTargetDots ?? currentCollection?.dots ?? []).filter(dot => !dot.archived), hillCurve))
+    .filter(dot => matchesDotFilter(currentCollection?.dots.find(d => d.id === dot.id) ?? dot, dotFilter));
 
   return (
-    <div className="min-h-screen p-4 bg-transparent" style={{ userSelect: isDragging ? "none" : "auto" }}>
+    <div className="min-h-screen p-2 sm:p-4 bg-transparent" style={{ userSelect: isDragging ? "none" : "auto" }}>
       <div className="max-w-screen-2xl mx-auto space-y-6">
+        {showPortfolio && (
+          <PortfolioDashboard
+            collections={isViewingSnapshot ? originalCollections : collections}
+            releaseLineSettings={releaseLineSettings}
+            latestSnapshotDates={latestSnapshotDates}
+            isLoading={isLoadingPortfolio}
+            onOpen={handleOpenPortfolioCollection}
+            onClose={() => setShowPortfolio(false)}
+          />
+        )}
+
         {/* Main Chart Area */}
         <div className="grid grid-cols-1 lg:grid-cols-[2.4fr_1.2fr] gap-6">
           <div className="lg:col-span-1 space-y-6">
-            <Card className="h-[600px]">
-              <CardHeader className="flex flex-row items-center justify-between">
-                <div className="flex gap-2">
+            {showFilterBar && selectedCollection && (
+              <DotFilterBar
+                dots={(currentCollection?.dots || []).filter(dot => !dot.archived)}
+                filter={dotFilter}
+                onFilterChange={handleDotFilterChange}
+                presets={filterPresets}
+                onPresetsChange={handleFilterPresetsChange}
+                colorPalette={colorPalette}
+                onClose={() => setShowFilterBar(false)}
+              />
+            )}
+            {/* The chart shrinks on phones and tablets, where it's wider than it is tall */}
+            <Card className="h-[360px] sm:h-[480px] lg:h-[600px]">
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={undo}
+                    disabled={!undoHistory.canUndo || isViewingSnapshot || isPlaybackMode}
+                    title={undoHistory.undoLabel ? `Undo ${undoHistory.undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+                    aria-label="Undo"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={redo}
+                    disabled={!undoHistory.canRedo || isViewingSnapshot || isPlaybackMode}
+                    title={undoHistory.redoLabel ? `Redo ${undoHistory.redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                    aria-label="Redo"
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant={showPortfolio ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={showPortfolio ? () => setShowPortfolio(false) : handleOpenPortfolio}
+                    title="Overview of all collections"
+                    aria-label="Portfolio"
+                  >
+                    <LayoutGrid className="w-4 h-4 sm:mr-1" />
+                    <span className="hidden sm:inline">Portfolio</span>
+                  </Button>
+                  <Button
+                    variant={showFilterBar || isDotFilterActive(dotFilter) ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => setShowFilterBar(!showFilterBar)}
+                    disabled={!selectedCollection}
+                    title="Filter dots by tag, color, size or owner"
+                    aria-label="Filter"
+                  >
+                    <Filter className="w-4 h-4 sm:mr-1" />
+                    <span className="hidden sm:inline">Filter</span>
+                  </Button>
                   <Button variant="outline" size="sm" onClick={downloadChartAsPNG}>
                     <Download className="w-4 h-4 mr-1" />
                     PNG
@@ -1653,6 +3284,21 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                     {getCopyButtonContent()}
                   </Button>
                 </div>
+                {isPlaybackMode && (
+                  <div className="w-full sm:flex-1 sm:ml-4 sm:max-w-md">
+                    <SnapshotPlaybackControls
+                      snapshots={playbackSnapshots}
+                      position={playback.position}
+                      isPlaying={playback.isPlaying}
+                      speed={playback.speed}
+                      onPlay={playback.play}
+                      onPause={playback.pause}
+                      onSeek={playback.seek}
+                      onSpeedChange={playback.setSpeed}
+                      onExit={handleExitPlayback}
+                    />
+                  </div>
+                )}
               </CardHeader>
               <CardContent className="p-2">
                 {/* Loading overlay */}
@@ -1674,12 +3320,17 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                     height="100%"
                     viewBox="-50 -100 700 180" // Moved chart down by using negative Y offset
                     className="overflow-visible max-w-full"
-                    style={{ userSelect: isDragging ? "none" : "auto" }}
+                    style={{ userSelect: isDragging || marquee ? "none" : "auto" }}
+                    onMouseDown={handleChartMouseDown}
+                    role="group"
+                    aria-label={`Hill chart${currentCollection ? ` for ${currentCollection.name}` : ""}`}
                   >
+                    <PhaseZoneShading curve={hillCurve} />
+
                     {/* Bell curve */}
                     <path
                       className="bg-transparent shadow-none leading-9"
-                      d={generateBellCurvePath(600, 150, 300)}
+                      d={generateBellCurvePath(hillCurve)}
                       stroke="currentColor"
                       strokeWidth="1"
                       fill="none"
@@ -1696,11 +3347,11 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                       strokeWidth="1"
                     />
 
-                    {/* Center divider */}
+                    {/* Divider at the top of the hill */}
                     <line
-                      x1="300"
+                      x1={getHillPeakX(hillCurve)}
                       y1="-5"
-                      x2="300"
+                      x2={getHillPeakX(hillCurve)}
                       y2="150"
                       stroke="hsl(var(--muted-foreground))"
                       strokeWidth="1"
@@ -1730,196 +3381,129 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                       Delivery
                     </text>
 
-                    {/* Release Line */}
-                    {(() => {
-                      const currentReleaseLineConfig = selectedCollection ? releaseLineSettings[selectedCollection] : null
-                      if (!currentReleaseLineConfig?.enabled) return null
-
-                      return (
-                        <g>
-                          {/* Vertical release line */}
-                          <line
-                            x1="600"
-                            y1="-20"
-                            x2="600"
-                            y2="151"
-                            stroke={currentReleaseLineConfig.color}
-                            strokeWidth="3"
-                          />
-                          {/* Release line text */}
-                          {currentReleaseLineConfig.text && (() => {
-                            const displayText = currentReleaseLineConfig.text.length > 12
-                              ? currentReleaseLineConfig.text.substring(0, 12)
-                              : currentReleaseLineConfig.text;
-                            // Dynamic X position: 1 char = 585, 12 chars = 650
-                            const dynamicX = 585 + (displayText.length - 1) * (65 / 11);
-                            
-                            return (
-                              <text
-                                x={dynamicX}
-                                y="10"
-                                textAnchor="end"
-                                className="text-[10px] font-medium"
-                                fill={currentReleaseLineConfig.color}
-                                transform={`rotate(90, 605, 12)`}
-                              >
-                                {displayText}
-                              </text>
-                            );
-                          })()}
-                        </g>
-                      )
-                    })()}
+                    {/* Color legend */}
+                    {colorPalette.showLegend && <ChartLegend colors={colorPalette.colors} />}
 
-                    {/* Dots with Collision Detection */}
-                    {(() => {
-                      // Type definitions for collision detection
-                      interface LabelPosition {
-                        id: string;
-                        x: number;
-                        y: number;
-                        width: number;
-                        height: number;
-                        originalDotY: number;
-                        displayX: number;
-                        displayY: number;
-                        fontSize: number;
-                        stackLevel: number;
-                        stackDirection?: number;
-                        textCenterX: number; // Added for text centering
-                      }
-
-                      // Collision detection and label stacking functions
-                      const calculateLabelPositions = (dots: Dot[]): Record<string, LabelPosition> => {
-                        if (!dots || dots.length === 0) return {};
-
-                        const positions: Record<string, LabelPosition> = {};
-                        const SVG_WIDTH = 600;
-
-                        // Calculate initial positions and dimensions for all labels
-                        dots.forEach(dot => {
-                          const dotX = (dot.x / 100) * SVG_WIDTH;
-                          const fontSize = 8 + dot.size * 1;
-                          const textWidth = dot.label.length * (fontSize * 0.6) + 16;
-                          const textHeight = fontSize + 12;
-
-                          // Handle dragging with null safety
-                          const isBeingDragged = draggingDot?.id === dot.id;
-                          const displayX = isBeingDragged && draggingDot ? (draggingDot.x / 100) * SVG_WIDTH : dotX;
-                          const displayY = isBeingDragged && draggingDot ? draggingDot.y : dot.y;
-
-                          // Clamp label X so it never overflows left or right edge
-                          let labelX = displayX - textWidth / 2;
-                          if (labelX < 0) labelX = 0;
-                          if (labelX + textWidth > SVG_WIDTH) labelX = SVG_WIDTH - textWidth;
-
-                          // Calculate the text's actual X so it stays centered above the dot, but never outside the label background
-                          let textCenterX = displayX;
-                          if (textCenterX < labelX + textWidth / 2) textCenterX = Math.max(labelX + textWidth / 2, textCenterX);
-                          if (textCenterX > labelX + textWidth / 2) textCenterX = Math.min(labelX + textWidth / 2, textCenterX);
-                          // If the dot is near the edge, clamp the text center to the middle of the label background
-                          if (displayX < labelX) textCenterX = labelX + textWidth / 2;
-                          if (displayX > labelX + textWidth) textCenterX = labelX + textWidth / 2;
-
-                          positions[dot.id] = {
-                            id: dot.id,
-                            x: labelX,
-                            y: displayY - 35,
-                            width: textWidth,
-                            height: textHeight,
-                            originalDotY: displayY,
-                            displayX,
-                            displayY,
-                            fontSize,
-                            stackLevel: 0,
-                            textCenterX
-                          };
-                        });
-
-                        return positions;
-                      };
-
-                      const detectCollisions = (label1: LabelPosition, label2: LabelPosition): boolean => {
-                        return !(
-                          label1.x + label1.width < label2.x ||
-                          label2.x + label2.width < label1.x ||
-                          label1.y + label1.height < label2.y ||
-                          label2.y + label2.height < label1.y
-                        );
-                      };
-
-                      const resolveCollisions = (labelPositions: Record<string, LabelPosition>): Record<string, LabelPosition> => {
-                        const resolved: Record<string, LabelPosition> = {};
-                        const positionsArray = Object.values(labelPositions);
-
-                        // Sort by X position for left-to-right processing
-                        positionsArray.sort((a: LabelPosition, b: LabelPosition) => a.x - b.x);
-
-                        // Define viewBox boundaries with padding
-                        const MIN_Y = 10; // Top boundary with padding
-                        const MAX_Y = 160; // Bottom boundary (leave space for chart labels)
-                        const MAX_STACK_ATTEMPTS = 50; // Safeguard: max attempts to resolve collision
-
-                        positionsArray.forEach((current: LabelPosition) => {
-                          let testY = current.y;
-                          let stackLevel = 0;
-                          let hasCollision = true;
-                          let stackDirection = -1; // -1 for upward, 1 for downward
-                          let attempts = 0;
-                          while (hasCollision && attempts < MAX_STACK_ATTEMPTS) {
-                            hasCollision = Object.values(resolved).some((placed: LabelPosition) =>
-                              detectCollisions({ ...current, y: testY }, placed)
-                            );
-                            if (hasCollision) {
-                              stackLevel++;
-
-                              // Calculate potential new position
-                              let newY: number;
-                              if (stackDirection === -1) {
-                                // Try stacking upward first
-                                newY = current.originalDotY - 35 - (stackLevel * (current.height + 8));
-
-                                // Check if upward stacking would overflow top boundary
-                                if (newY < MIN_Y) {
-                                  // Switch to downward stacking
-                                  stackDirection = 1;
-                                  stackLevel = 1; // Reset stack level for downward direction
-                                  newY = current.originalDotY - 35 + (stackLevel * (current.height + 8));
-                                }
-                              } else {
-                                // Stack downward
-                                newY = current.originalDotY - 35 + (stackLevel * (current.height + 8));
-
-                                // Check if downward stacking would overflow bottom boundary
-                                if (newY + current.height > MAX_Y) {
-                                  // Clamp to bottom boundary
-                                  newY = MAX_Y - current.height;
-                                }
-                              }
+                    {/* Release line and milestone markers */}
+                    {selectedCollection && releaseLineSettings[selectedCollection] && (
+                      <ReleaseLineMarker config={releaseLineSettings[selectedCollection]} />
+                    )}
 
-                              testY = newY;
-                            }
-                            attempts++;
-                          }
+                    {/* Dot trails through the last snapshots */}
+                    {showTrails && !isViewingSnapshot && !playbackFrame && !snapshotDiff && (() => {
+                      const liveDots = (currentCollection?.dots || []).filter(dot => !dot.archived && matchesDotFilter(dot, dotFilter))
+                      const trails = buildDotTrails(playbackSnapshots, liveDots, trailLength)
+
+                      return trails.map((trail) => {
+                        const liveDot = liveDots.find(dot => dot.id === trail.dotId)
+                        if (!liveDot) return null
+                        const points = [
+                          ...trail.points.map(point => `${(point.x / 100) * 600},${getHillY(point.x, hillCurve)}`),
+                          `${(liveDot.x / 100) * 600},${getHillY(liveDot.x, hillCurve)}`
+                        ].join(" ")
 
-                          // If max attempts reached, just place at last tried position
-                          resolved[current.id] = {
-                            ...current,
-                            y: testY,
-                            stackLevel,
-                            stackDirection
-                          };
-                        });
+                        return (
+                          <g key={`trail-${trail.dotId}`}>
+                            <polyline
+                              className="pointer-events-none"
+                              points={points}
+                              fill="none"
+                              stroke={trail.color}
+                              strokeWidth="1.5"
+                              strokeOpacity="0.35"
+                              strokeDasharray="3,3"
+                            />
+                            {trail.points.map((point, index) => (
+                              <circle
+                                key={`${trail.dotId}-${index}`}
+                                cx={(point.x / 100) * 600}
+                                cy={getHillY(point.x, hillCurve)}
+                                r="2.5"
+                                fill={trail.color}
+                                fillOpacity="0.5"
+                                stroke={point.regressed ? "#ef4444" : "none"}
+                                strokeWidth="1"
+                              >
+                                <title>{point.date}</title>
+                              </circle>
+                            ))}
+                          </g>
+                        )
+                      })
+                    })()}
 
-                        return resolved;
-                      };
+                    {/* Snapshot diff arrows from old to new positions */}
+                    {snapshotDiff && (
+                      <g className="pointer-events-none">
+                        <defs>
+                          {[["forward", "#22c55e"], ["backward", "#ef4444"]].map(([direction, color]) => (
+                            <marker
+                              key={direction}
+                              id={`diff-arrow-${direction}`}
+                              viewBox="0 0 10 10"
+                              refX="10"
+                              refY="5"
+                              markerWidth="5"
+                              markerHeight="5"
+                              orient="auto"
+                            >
+                              <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                            </marker>
+                          ))}
+                        </defs>
+                        {snapshotDiff.entries.map((entry) => {
+                          if (!entry.from) return null
+                          const fromX = (entry.from.x / 100) * 600
+
+                          // Archived or removed dots leave a ghost at their old position
+                          if (!entry.to) {
+                            return (
+                              <circle
+                                key={`diff-${entry.dotId}`}
+                                cx={fromX}
+                                cy={entry.from.y}
+                                r="5"
+                                fill="none"
+                                stroke={entry.color}
+                                strokeOpacity="0.6"
+                                strokeDasharray="2,2"
+                              />
+                            )
+                          }
+                          if (entry.status !== "forward" && entry.status !== "backward") return null
+
+                          // Stop short of the dot so the arrowhead stays visible
+                          const toX = (entry.to.x / 100) * 600
+                          const dx = toX - fromX
+                          const dy = entry.to.y - entry.from.y
+                          const length = Math.hypot(dx, dy) || 1
+                          const gap = Math.min(10, length / 2)
+
+                          return (
+                            <g key={`diff-${entry.dotId}`}>
+                              <circle cx={fromX} cy={entry.from.y} r="3" fill={entry.color} fillOpacity="0.4" />
+                              <line
+                                x1={fromX}
+                                y1={entry.from.y}
+                                x2={toX - (dx / length) * gap}
+                                y2={entry.to.y - (dy / length) * gap}
+                                stroke={entry.status === "forward" ? "#22c55e" : "#ef4444"}
+                                strokeWidth="1.5"
+                                markerEnd={`url(#diff-arrow-${entry.status})`}
+                              />
+                            </g>
+                          )
+                        })}
+                      </g>
+                    )}
 
+                    {/* Dots with Collision Detection */}
+                    {(() => {
                       // Calculate label positions with collision detection
-                      const initialLabelPositions = calculateLabelPositions((currentCollection?.dots || []).filter(dot => !dot.archived));
-                      const labelPositions = resolveCollisions(initialLabelPositions);
+                      const labelPositions = layoutDotLabels(chartDots, draggingDot);
 
                       // Render dots with collision-free labels
-                      return (currentCollection?.dots || []).filter(dot => !dot.archived).map((dot) => {
+                      return chartDots.map((dot) => {
                         const dotX = (dot.x / 100) * 600;
                         const dotRadius = 4 + dot.size * 2;
 
@@ -1935,17 +3519,61 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                         // Calculate visual hierarchy opacity
                         const opacity = Math.max(0.95, 1.0 - (labelPos.stackLevel * 0.025));
 
+                        // Details come from the live dot; playback frames only carry positions
+                        const detailsDot = currentCollection?.dots.find(d => d.id === dot.id)
+                        const isSelected = !playbackFrame && selectedDotIds.includes(dot.id)
+                        const showTooltip = (e: React.MouseEvent) => {
+                          if (!isDragging && detailsDot && hasDotDetails(detailsDot)) {
+                            setHoveredDot({ id: dot.id, x: e.clientX, y: e.clientY })
+                          }
+                        }
+
                         return (
-                          <g key={dot.id}>
+                          <g key={dot.id} opacity={dot.opacity} className="group">
                             <circle
                               cx={displayX}
                               cy={displayY}
                               r={dotRadius}
                               fill={dot.color}
-                              stroke="#fff"
+                              stroke={isSelected ? "hsl(var(--primary))" : "#fff"}
+                              strokeWidth={isSelected ? 3 : 2}
+                              className={`pointer-events-none group-hover:opacity-80 ${isBeingDragged || playbackFrame ? '' : 'transition-all'}`}
+                            />
+                            {/* Invisible hit area, larger than the dot for touch */}
+                            <circle
+                              data-hit-area
+                              cx={displayX}
+                              cy={displayY}
+                              r={Math.max(dotRadius, MIN_DOT_HIT_RADIUS)}
+                              fill="transparent"
                               strokeWidth="2"
-                              className={`cursor-pointer hover:opacity-80 ${isBeingDragged ? '' : 'transition-all'}`}
-                              onMouseDown={(e) => handleDotMouseDown(e, dot.id)}
+                              className="cursor-pointer outline-none focus-visible:stroke-primary"
+                              style={{ touchAction: "none" }}
+                              tabIndex={0}
+                              role="button"
+                              aria-label={getDotAriaLabel(dot, hillCurve)}
+                              onKeyDown={(e) => handleDotKeyDown(e, dot.id)}
+                              onBlur={commitKeyboardMove}
+                              onPointerDown={(e) => {
+                                setHoveredDot(null)
+                                // Shift-click adds the dot to the selection instead of dragging it
+                                if (e.shiftKey && !playbackFrame && !isViewingSnapshot) {
+                                  // Keeps the chart from starting a marquee as well
+                                  e.preventDefault()
+                                  e.stopPropagation()
+                                  toggleDotSelection(dot.id)
+                                  return
+                                }
+                                handleDotPointerDown(e, dot.id)
+                              }}
+                              onPointerMove={(e) => handleDotPointerMove(e, dot.id)}
+                              onPointerUp={handleDotPointerUp}
+                              onPointerCancel={endDotDrag}
+                              onContextMenu={(e) => e.preventDefault()}
+                              onMouseEnter={showTooltip}
+                              onMouseMove={showTooltip}
+                              onMouseLeave={() => setHoveredDot(null)}
+                              onDoubleClick={() => !playbackFrame && setDetailsDotId(dot.id)}
                             />
                             <rect
                               x={labelPos.x}
@@ -1959,6 +3587,7 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                               strokeWidth="1"
                               opacity={opacity}
                               className="pointer-events-none"
+                              aria-hidden="true"
                             />
                             <text
                               x={labelPos.textCenterX}
@@ -1969,6 +3598,7 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                               fontSize={labelPos.fontSize}
                               opacity={opacity}
                               style={{ userSelect: "none" }}
+                              aria-hidden="true"
                             >
                               {dot.label}
                             </text>
@@ -1976,15 +3606,79 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                         );
                       });
                     })()}
+
+                    {/* Marquee selection */}
+                    {marquee && (
+                      <rect
+                        x={Math.min(marquee.startX, marquee.x)}
+                        y={Math.min(marquee.startY, marquee.y)}
+                        width={Math.abs(marquee.x - marquee.startX)}
+                        height={Math.abs(marquee.y - marquee.startY)}
+                        fill="hsl(var(--primary))"
+                        fillOpacity="0.1"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth="1"
+                        strokeDasharray="4,2"
+                        className="pointer-events-none"
+                      />
+                    )}
                   </svg>
+                  {/* Text alternative to the chart for screen readers */}
+                  <table className="sr-only">
+                    <caption>Dots{currentCollection ? ` in ${currentCollection.name}` : ""}, by progress</caption>
+                    <thead>
+                      <tr>
+                        <th scope="col">Dot</th>
+                        <th scope="col">Progress</th>
+                        <th scope="col">Side of the hill</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...chartDots].sort((a, b) => b.x - a.x).map((dot) => (
+                        <tr key={dot.id}>
+                          <th scope="row">{dot.label}</th>
+                          <td>{Math.round(dot.x)}%</td>
+                          <td>{getHillSide(dot.x, hillCurve)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <div className="sr-only" aria-live="polite">
+                    {chartAnnouncement}
+                  </div>
                 </div>
               </CardContent>
             </Card>
+            {snapshotDiff && (
+              <SnapshotDiffPanel
+                snapshots={collectionSnapshotSummaries}
+                fromKey={diffFromKey}
+                toKey={diffToKey}
+                diff={snapshotDiff}
+                copied={diffCopied}
+                onFromChange={handleDiffSourceChange(setDiffFromKey)}
+                onToChange={handleDiffSourceChange(setDiffToKey)}
+                onCopy={handleCopyDiff}
+                onClose={handleExitDiff}
+              />
+            )}
+            {showComparison && (
+              <HillChartComparison
+                collections={isViewingSnapshot ? originalCollections : collections}
+                releaseLineSettings={releaseLineSettings}
+                initialCollectionId={selectedCollection}
+                loadTimeline={async (collectionId) =>
+                  getCollectionSnapshots(await loadSnapshotSummaries({ collectionId }), collectionId)
+                }
+                openSnapshot={async (snapshotId) => (await ensureSnapshotsLoaded([snapshotId]))[0] ?? null}
+                onClose={() => setShowComparison(false)}
+              />
+            )}
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
-            <Card className="h-[600px]">
+            <Card className="lg:h-[600px]">
               <CardHeader className="flex flex-row items-center justify-between">
                 <div className="flex flex-col">
                   <CardTitle className="text-lg">Over The Hill</CardTitle>
@@ -2022,7 +3716,7 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                   </Button>
 
                   {showEllipsisMenu && (
-                    <div className="absolute right-0 top-8 w-56 bg-background border border-border rounded-md shadow-lg z-50">
+                    <div className="absolute right-0 top-8 w-56 max-h-[70vh] overflow-y-auto bg-background border border-border rounded-md shadow-lg z-50">
                       <div className="py-1">
                         {/* Theme Section */}
                         <div className="px-3 py-2 text-xs font-medium text-muted-foreground border-b border-border">
@@ -2096,6 +3790,55 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                         >
                           <Rocket className="w-4 h-4" /> Release Line
                         </button>
+                        <button
+                          onClick={() => {
+                            setShowDotRules(true)
+                            setShowEllipsisMenu(false)
+                          }}
+                          className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2"
+                          disabled={!selectedCollection || isViewingSnapshot}
+                        >
+                          <Wand2 className="w-4 h-4" /> Dot Rules
+                        </button>
+                        <button
+                          onClick={() => {
+                            setShowColorPalette(true)
+                            setShowEllipsisMenu(false)
+                          }}
+                          className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2"
+                          disabled={!selectedCollection || isViewingSnapshot}
+                        >
+                          <Palette className="w-4 h-4" /> Color Palette
+                        </button>
+                        <button
+                          onClick={() => {
+                            setShowActivityFeed(true)
+                            setShowEllipsisMenu(false)
+                          }}
+                          className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2"
+                          disabled={!selectedCollection}
+                        >
+                          <Activity className="w-4 h-4" /> Activity
+                        </button>
+                        <button
+                          onClick={() => {
+                            setShowComparison(true)
+                            setShowEllipsisMenu(false)
+                          }}
+                          className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2"
+                          disabled={collections.length === 0}
+                        >
+                          <Columns2 className="w-4 h-4" /> Side by Side
+                        </button>
+                        <button
+                          onClick={() => {
+                            handleOpenRetentionSettings()
+                            setShowEllipsisMenu(false)
+                          }}
+                          className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2"
+                        >
+                          <History className="w-4 h-4" /> Snapshot Retention
+                        </button>
                         <button
                           onClick={() => {
                             setHideCollectionName(!hideCollectionName)
@@ -2106,6 +3849,71 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                           <Monitor className="w-4 h-4" /> Hide Collection Name{" "}
                           {hideCollectionName && <Check className="w-4 h-4 ml-auto" />}
                         </button>
+                        <button
+                          onClick={() => setShowTrails(!showTrails)}
+                          className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2"
+                        >
+                          <Footprints className="w-4 h-4" /> Show Trails{" "}
+                          {showTrails && <Check className="w-4 h-4 ml-auto" />}
+                        </button>
+                        {showTrails && (
+                          <div className="px-3 py-2 flex items-center justify-between text-sm text-muted-foreground">
+                            <span>Last snapshots</span>
+                            <div className="flex gap-1">
+                              {trailLengthOptions.map((length) => (
+                                <button
+                                  key={length}
+                                  onClick={() => setTrailLength(length)}
+                                  className={`px-2 py-0.5 rounded text-xs ${trailLength === length
+                                    ? "bg-primary text-primary-foreground"
+                                    : "hover:bg-accent hover:text-accent-foreground"
+                                    }`}
+                                >
+                                  {length}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        <div className="px-3 py-2 flex items-center justify-between gap-2 text-sm">
+                          <span className="flex items-center gap-2">
+                            <Keyboard className="w-4 h-4" /> Arrow Key Step
+                          </span>
+                          <div className="flex gap-1">
+                            {keyboardStepOptions.map((step) => (
+                              <button
+                                key={step}
+                                onClick={() => setKeyboardStep(step)}
+                                className={`px-2 py-0.5 rounded text-xs ${keyboardStep === step
+                                  ? "bg-primary text-primary-foreground"
+                                  : "hover:bg-accent hover:text-accent-foreground"
+                                  }`}
+                              >
+                                {step}%
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => {
+                            setShowCommandPalette(true)
+                            setShowEllipsisMenu(false)
+                          }}
+                          className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2"
+                        >
+                          <CommandIcon className="w-4 h-4" /> Command Palette
+                          <span className="ml-auto text-xs text-muted-foreground">Ctrl K</span>
+                        </button>
+                        <button
+                          onClick={() => {
+                            setShowShortcuts(true)
+                            setShowEllipsisMenu(false)
+                          }}
+                          className="w-full px-3 py-2 text-sm text-left hover:bg-accent hover:text-accent-foreground flex items-center gap-2"
+                        >
+                          <Keyboard className="w-4 h-4" /> Keyboard Shortcuts
+                          <span className="ml-auto text-xs text-muted-foreground">?</span>
+                        </button>
                         <button
                           onClick={() => {
                             setShowResetConfirm(true)
@@ -2186,10 +3994,10 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                               try {
                                 // Fetch fresh data from database
 
-                                const [activeCollections, allCollections, snapshots] = await Promise.all([
+                                const [activeCollections, allCollections] = await Promise.all([
                                   fetchCollections(user.id, false),
                                   fetchCollections(user.id, true),
-                                  fetchSnapshots(user.id)
+                                  refreshSnapshotSummaries()
                                 ])
 
                                 setCollections(activeCollections)
@@ -2197,7 +4005,6 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
 
                                 const archived = allCollections.filter(c => c.status === 'archived')
                                 setArchivedCollections(archived)
-                                setSnapshots(snapshots)
 
                                 console.log('[HILL_CHART] Manual refresh completed successfully')
                               } catch (error) {
@@ -2439,55 +4246,145 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
       <Card className="max-w-[1540px] mx-auto mt-7">
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle className="text-lg">Dots</CardTitle>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => {
-              setCollections((prev) =>
-                prev.map((collection) =>
-                  collection.id === selectedCollection
-                    ? {
-                      ...collection,
-                      dots: [...collection.dots].sort((a, b) => b.x - a.x), // Sort by completion percentage (x position) descending
-                    }
-                    : collection,
-                ),
-              )
-            }}
-            className="h-8 w-8 p-0"
-          >
-            <ArrowUpDown className="w-4 h-4 text-gray-500" />
-          </Button>
+          <div className="flex items-center gap-2">
+            <Select
+              value={dotListConfig.sortMode}
+              onValueChange={(sortMode) => handleDotListConfigChange({ ...dotListConfig, sortMode: sortMode as DotSortMode })}
+              disabled={!selectedCollection}
+            >
+              <SelectTrigger className="h-8 w-36 text-xs" aria-label="Sort dots by">
+                <ArrowUpDown className="w-3 h-3 mr-1 shrink-0 text-gray-500" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DOT_SORT_MODE_LABELS) as DotSortMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {DOT_SORT_MODE_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={dotListConfig.groupBySide ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => handleDotListConfigChange({ ...dotListConfig, groupBySide: !dotListConfig.groupBySide })}
+              disabled={!selectedCollection}
+              className="h-8 w-8 p-0"
+              title="Group by Up the hill, Over the top and Done"
+              aria-label="Group dots by side of the hill"
+              aria-pressed={dotListConfig.groupBySide}
+            >
+              <Layers className="w-4 h-4 text-gray-500" />
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          <Input
-            placeholder="Enter dot name and press Enter to add..."
-            value={newDotLabel}
-            onChange={(e) => {
-              if (e.target.value.length <= 24) {
+          <div>
+            <Input
+              placeholder="Enter dot name and press Enter to add..."
+              value={newDotLabel}
+              onChange={(e) => {
                 setNewDotLabel(e.target.value)
-              }
-            }}
-            onFocus={() => setEditingDotId(null)}
-            onKeyPress={(e) => e.key === "Enter" && addDot()}
-            maxLength={24}
-          />
-          {newDotLabel.length === 24 && editingDotId === null && (
-            <div className="text-xs text-red-500 mt-1">Dot name cannot exceed 24 characters.</div>
+                setPastedListWarning(null)
+              }}
+              onFocus={() => setEditingDotId(null)}
+              onKeyPress={(e) => e.key === "Enter" && addDot()}
+              onPaste={(e) => {
+                // A pasted list becomes one dot per line instead of a single label
+                const text = e.clipboardData.getData("text")
+                if (!isQuickAddList(text)) return
+                e.preventDefault()
+                addDotsFromList(text)
+              }}
+            />
+            {parseQuickAdd(newDotLabel, colorPalette).label.length > MAX_DOT_LABEL_LENGTH && editingDotId === null ? (
+              <div className="text-xs text-red-500 mt-1">Dot name cannot exceed {MAX_DOT_LABEL_LENGTH} characters.</div>
+            ) : pastedListWarning ? (
+              <div className="text-xs text-red-500 mt-1" role="alert">{pastedListWarning}</div>
+            ) : (
+              <div className="text-xs text-muted-foreground mt-1">
+                Add #color !size @percent, e.g. Checkout #red !4 @35%, or paste a list
+              </div>
+            )}
+          </div>
+
+          {selectedActiveDots.length > 0 && !isViewingSnapshot && (
+            <BulkDotActions
+              selectedCount={selectedActiveDots.length}
+              colorPalette={colorPalette}
+              targetCollections={collections.filter((c) => c.id !== selectedCollection)}
+              onMoveBy={handleBulkMoveBy}
+              onSetColor={(color) => updateSelectedDots(`Recolor ${selectedActiveDots.length} dots`, () => ({ color }))}
+              onSetSize={(size) => updateSelectedDots(`Resize ${selectedActiveDots.length} dots`, () => ({ size }))}
+              onArchive={handleBulkArchive}
+              onDelete={handleBulkDelete}
+              onMoveToCollection={handleBulkMoveToCollection}
+              onClear={() => setSelectedDotIds([])}
+            />
           )}
 
-          <div className="space-y-2">
-            {activeDots.map((dot: Dot) => (
-              <DotRow
-                key={dot.id}
-                dot={dot}
-                dotMenuOpen={dotMenuOpen}
-                setDotMenuOpen={setDotMenuOpen}
-                setDeleteConfirm={setDeleteConfirm}
-                updateDot={updateDot}
-                editingDotId={editingDotId}
-                setEditingDotId={setEditingDotId}
-              />
+          <div className="space-y-4">
+            {activeDotGroups.map((group) => (
+              <div key={group.key} className="space-y-2">
+                {group.title && (
+                  <div className="text-xs font-medium text-muted-foreground">
+                    {group.title} ({group.dots.length})
+                  </div>
+                )}
+                {group.dots.map((dot: Dot) => (
+                  <div
+                    key={dot.id}
+                    className={`flex items-start gap-1 ${reorderingDotId === dot.id ? "opacity-50" : ""}`}
+                    onDragOver={canReorderDots ? (e) => e.preventDefault() : undefined}
+                    onDrop={canReorderDots ? (e) => {
+                      e.preventDefault()
+                      if (reorderingDotId) reorderDot(reorderingDotId, dot.id)
+                      setReorderingDotId(null)
+                    } : undefined}
+                  >
+                    {canReorderDots && (
+                      <button
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move"
+                          e.dataTransfer.setData("text/plain", dot.id)
+                          setReorderingDotId(dot.id)
+                        }}
+                        onDragEnd={() => setReorderingDotId(null)}
+                        onKeyDown={(e) => {
+                          // Arrow keys swap the dot with its neighbour in the list
+                          if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return
+                          e.preventDefault()
+                          const index = activeDots.findIndex((d) => d.id === dot.id)
+                          const neighbour = activeDots[e.key === "ArrowUp" ? index - 1 : index + 1]
+                          if (neighbour) reorderDot(dot.id, neighbour.id)
+                        }}
+                        className="mt-3 p-1 rounded cursor-grab text-muted-foreground hover:text-foreground hover:bg-accent"
+                        title="Drag to reorder, or use the arrow keys"
+                        aria-label={`Reorder ${dot.label}`}
+                      >
+                        <GripVertical className="w-4 h-4" />
+                      </button>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <DotRow
+                        dot={dot}
+                        isSelected={selectedDotIds.includes(dot.id)}
+                        onToggleSelect={isViewingSnapshot ? undefined : toggleDotSelection}
+                        setTransferDot={isViewingSnapshot ? undefined : setTransferDot}
+                        colorPalette={colorPalette}
+                        dotMenuOpen={dotMenuOpen}
+                        setDotMenuOpen={setDotMenuOpen}
+                        setDeleteConfirm={setDeleteConfirm}
+                        setDetailsDotId={setDetailsDotId}
+                        updateDot={updateDot}
+                        editingDotId={editingDotId}
+                        setEditingDotId={setEditingDotId}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
             ))}
           </div>
           {archivedDots.length > 0 && (
@@ -2530,6 +4427,18 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
       </Card>
 
       {/* Modals */}
+      {transferDot && (() => {
+        const dot = currentCollection?.dots.find((d) => d.id === transferDot.dotId)
+        return dot ? (
+          <DotTransferDialog
+            dotLabel={dot.label}
+            mode={transferDot.mode}
+            targetCollections={collections.filter((c) => c.id !== selectedCollection)}
+            onConfirm={(collectionId) => transferDotsToCollection([dot], collectionId, transferDot.mode)}
+            onClose={() => setTransferDot(null)}
+          />
+        ) : null
+      })()}
       {deleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-sm w-full mx-4">
@@ -2548,6 +4457,62 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
           </div>
         </div>
       )}
+      {showRestoreConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-sm w-full mx-4">
+            <h3 className="text-lg font-semibold mb-2">Restore This State</h3>
+            <p className="text-gray-600 dark:text-gray-300 mb-4">
+              The dots and release line of the live collection will be replaced with this snapshot.
+              A safety snapshot of the current state is taken first, so you can restore it again later.
+            </p>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setShowRestoreConfirm(false)} disabled={isRestoringSnapshot}>
+                Cancel
+              </Button>
+              <Button onClick={handleRestoreSnapshot} disabled={isRestoringSnapshot}>
+                {isRestoringSnapshot ? "Restoring..." : "Restore"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+      {snapshotDraft && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-sm w-full mx-4">
+            <h3 className="text-lg font-semibold mb-2">Create Snapshot</h3>
+            <p className="text-gray-600 dark:text-gray-300 mb-4 text-sm">
+              Capture the current state of {currentCollection?.name}. Name and note are optional.
+            </p>
+            <div className="space-y-3 mb-4">
+              <Input
+                autoFocus
+                value={snapshotDraft.name}
+                onChange={(e) => setSnapshotDraft({ ...snapshotDraft, name: e.target.value })}
+                onKeyDown={(e) => e.key === "Enter" && handleCreateSnapshot()}
+                placeholder="Name (e.g. Sprint 12 review)"
+                maxLength={100}
+              />
+              <textarea
+                value={snapshotDraft.note}
+                onChange={(e) => setSnapshotDraft({ ...snapshotDraft, note: e.target.value })}
+                placeholder="Note"
+                maxLength={1000}
+                rows={3}
+                className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              />
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setSnapshotDraft(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreateSnapshot}>
+                <Camera className="w-4 h-4 mr-1" />
+                Create Snapshot
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
       {showResetConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-sm w-full mx-4">
@@ -2809,6 +4774,29 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
         </div>
       )}
 
+      {/* Command Palette */}
+      {showCommandPalette && (
+        <CommandPalette
+          collections={isViewingSnapshot ? originalCollections : collections}
+          selectedCollectionId={selectedCollection}
+          snapshots={collectionSnapshotSummaries}
+          onSelectCollection={handlePaletteCollectionSelect}
+          onAddDot={(label) => addDot(label)}
+          onViewSnapshot={handlePaletteSnapshotSelect}
+          onTakeSnapshot={isViewingSnapshot ? undefined : () => setSnapshotDraft({ name: "", note: "" })}
+          onSetTheme={setTheme}
+          onOpenPrivacySettings={() => setShowPrivacySettings(true)}
+          onOpenReleaseLineSettings={() => setShowReleaseLineSettings(true)}
+          onCopyChart={(format) => (format === "PNG" ? copyChartAsPNG() : copyChartAsSVG())}
+          onDownloadChart={(format) => (format === "PNG" ? downloadChartAsPNG() : downloadChartAsSVG())}
+          onShowShortcuts={() => setShowShortcuts(true)}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
+
+      {/* Keyboard Shortcuts Cheat Sheet */}
+      {showShortcuts && <KeyboardShortcutsDialog onClose={() => setShowShortcuts(false)} />}
+
       {/* Privacy Settings Modal */}
       {showPrivacySettings && (
         <PrivacySettings onClose={() => setShowPrivacySettings(false)} />
@@ -2817,7 +4805,7 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
       {/* Release Line Settings Modal */}
       {showReleaseLineSettings && selectedCollection && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-md w-full mx-4">
+          <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold">Release Line</h3>
               <Button
@@ -2846,6 +4834,9 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
                   onConfigChange={handleReleaseLineConfigChange}
                 />
               )}
+              <div className="border-t border-border pt-4">
+                <HillCurveSettings config={hillCurve} onConfigChange={handleHillCurveConfigChange} />
+              </div>
             </div>
 
             <div className="flex justify-end mt-6">
@@ -2859,6 +4850,198 @@ const HillChartApp: React.FC<{ onResetPassword: () => void }> = ({ onResetPasswo
           </div>
         </div>
       )}
+
+      {/* Dot Rules Modal */}
+      {showDotRules && selectedCollection && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Dot Rules</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowDotRules(false)}
+                className="h-8 w-8 p-0"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <DotRulesSettings styling={dotStyling} onStylingChange={handleDotStylingChange} />
+
+            <div className="flex justify-end mt-6">
+              <Button
+                variant="outline"
+                onClick={() => setShowDotRules(false)}
+              >
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Dot details tooltip */}
+      {hoveredDot && !isDragging && (() => {
+        const dot = currentCollection?.dots.find(d => d.id === hoveredDot.id)
+        return dot ? <DotDetailsTooltip dot={dot} x={hoveredDot.x} y={hoveredDot.y} today={getLocalDateString(new Date())} /> : null
+      })()}
+
+      {/* Dot menu opened by a long press on the chart */}
+      {chartDotMenu && (() => {
+        const dot = currentCollection?.dots.find(d => d.id === chartDotMenu.dotId)
+        if (!dot) return null
+        const closeMenu = () => setChartDotMenu(null)
+        return (
+          <>
+            <div ref={chartDotMenuAnchorRef} className="fixed w-0 h-0" style={{ left: chartDotMenu.x, top: chartDotMenu.y }} />
+            <DotMenuPortal>
+              <DotMenuDropdown
+                anchorRef={chartDotMenuAnchorRef}
+                onClose={closeMenu}
+                onDetails={() => {
+                  closeMenu()
+                  setDetailsDotId(dot.id)
+                }}
+                onDelete={() => {
+                  closeMenu()
+                  setDeleteConfirm({ dotId: dot.id, dotLabel: dot.label })
+                }}
+                onArchive={async () => {
+                  closeMenu()
+                  await updateDot(dot.id, { archived: true })
+                }}
+                onMove={isViewingSnapshot ? undefined : () => {
+                  closeMenu()
+                  setTransferDot({ dotId: dot.id, mode: 'move' })
+                }}
+                onCopy={isViewingSnapshot ? undefined : () => {
+                  closeMenu()
+                  setTransferDot({ dotId: dot.id, mode: 'copy' })
+                }}
+              />
+            </DotMenuPortal>
+          </>
+        )
+      })()}
+
+      {/* Dot Details Drawer */}
+      {detailsDotId && (() => {
+        const dot = currentCollection?.dots.find(d => d.id === detailsDotId)
+        return dot ? (
+          <DotDetailsDrawer
+            key={dot.id}
+            dot={dot}
+            readOnly={isViewingSnapshot}
+            onSave={(details) => updateDot(dot.id, details)}
+            onClose={() => setDetailsDotId(null)}
+            collectionId={selectedCollection ?? undefined}
+          />
+        ) : null
+      })()}
+
+      {/* Color Palette Modal */}
+      {showColorPalette && selectedCollection && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Color Palette</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowColorPalette(false)}
+                className="h-8 w-8 p-0"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <ColorPaletteSettings palette={colorPalette} onPaletteChange={handleColorPaletteChange} />
+
+            <div className="flex justify-end mt-6">
+              <Button
+                variant="outline"
+                onClick={() => setShowColorPalette(false)}
+              >
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Activity Feed Modal */}
+      {showActivityFeed && selectedCollection && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Activity</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowActivityFeed(false)}
+                className="h-8 w-8 p-0"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <DotHistoryTimeline
+              collectionId={selectedCollection}
+              emptyText="No dot changes recorded in this collection yet"
+            />
+
+            <div className="flex justify-end mt-6">
+              <Button
+                variant="outline"
+                onClick={() => setShowActivityFeed(false)}
+              >
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Snapshot Retention Settings Modal */}
+      {showRetentionSettings && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-md w-full mx-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Snapshot Retention</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowRetentionSettings(false)}
+                className="h-8 w-8 p-0"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <SnapshotRetentionSettings
+              policy={retentionPolicy}
+              preview={retentionPreview}
+              isPruning={isPruningSnapshots}
+              getCollectionName={(collectionId) =>
+                [...originalCollections, ...collections, ...archivedCollections].find(c => c.id === collectionId)?.name || "Unknown collection"
+              }
+              onPolicyChange={handleRetentionPolicyChange}
+              onPreview={handlePreviewRetention}
+              onPrune={handlePruneSnapshots}
+            />
+
+            <div className="flex justify-end mt-6">
+              <Button
+                variant="outline"
+                onClick={() => setShowRetentionSettings(false)}
+              >
+                Close
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
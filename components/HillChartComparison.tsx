@@ -0,0 +1,248 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from "react"
+import { CopyIcon, Download, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Collection, Dot, ReleaseLineConfig, Snapshot, SnapshotSummary } from "./HillChartApp"
+import { StaticHillChart } from "./StaticHillChart"
+import { buildComparisonLegend, getComparisonDotKey } from "@/lib/utils/comparisonUtils"
+import { combineChartsForExport, renderSvgToPngBlob } from "@/lib/utils/chartExportUtils"
+
+// Select value for the live collection; snapshots use their ID
+const LIVE_VALUE = "live"
+
+interface ComparisonSide {
+  collectionId: string
+  // null shows the live collection
+  snapshotId: string | null
+}
+
+interface HillChartComparisonProps {
+  collections: Collection[]
+  releaseLineSettings: Record<string, ReleaseLineConfig>
+  initialCollectionId: string | null
+  loadTimeline: (collectionId: string) => Promise<SnapshotSummary[]>
+  openSnapshot: (snapshotId: string) => Promise<Snapshot | null>
+  onClose: () => void
+}
+
+const formatSummary = (summary: SnapshotSummary): string => {
+  const time = new Date(summary.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+  return `${summary.date} ${time}${summary.name ? ` · ${summary.name}` : ""}`
+}
+
+const formatProgress = (value?: number): string => (value === undefined ? "–" : `${value}%`)
+
+export const HillChartComparison: React.FC<HillChartComparisonProps> = ({
+  collections,
+  releaseLineSettings,
+  initialCollectionId,
+  loadTimeline,
+  openSnapshot,
+  onClose,
+}) => {
+  const [sides, setSides] = useState<ComparisonSide[]>(() => {
+    const leftId = initialCollectionId || collections[0]?.id || ""
+    const rightId = collections.find((c) => c.id !== leftId)?.id || leftId
+    return [
+      { collectionId: leftId, snapshotId: null },
+      { collectionId: rightId, snapshotId: null },
+    ]
+  })
+  const [timelines, setTimelines] = useState<Record<string, SnapshotSummary[]>>({})
+  const [openedSnapshots, setOpenedSnapshots] = useState<Record<string, Snapshot>>({})
+  const [highlightedKey, setHighlightedKey] = useState<string | null>(null)
+  const [exportStatus, setExportStatus] = useState<"idle" | "copied" | "error">("idle")
+  const leftSvgRef = useRef<SVGSVGElement>(null)
+  const rightSvgRef = useRef<SVGSVGElement>(null)
+
+  // Snapshot lists for the collections on screen
+  useEffect(() => {
+    sides.forEach(({ collectionId }) => {
+      if (!collectionId || timelines[collectionId]) return
+      loadTimeline(collectionId)
+        .then((timeline) => setTimelines((prev) => ({ ...prev, [collectionId]: timeline })))
+        .catch((error) => console.error("[COMPARISON] Failed to load snapshots:", error))
+    })
+  }, [sides, timelines, loadTimeline])
+
+  const updateSide = async (index: number, update: ComparisonSide) => {
+    if (update.snapshotId && !openedSnapshots[update.snapshotId]) {
+      const snapshot = await openSnapshot(update.snapshotId)
+      if (!snapshot) return
+      setOpenedSnapshots((prev) => ({ ...prev, [update.snapshotId!]: snapshot }))
+    }
+    setHighlightedKey(null)
+    setSides((prev) => prev.map((side, i) => (i === index ? update : side)))
+  }
+
+  const getSideView = ({ collectionId, snapshotId }: ComparisonSide) => {
+    const collection = collections.find((c) => c.id === collectionId)
+    const snapshot = snapshotId ? openedSnapshots[snapshotId] : null
+    const summary = snapshotId ? timelines[collectionId]?.find((s) => s.id === snapshotId) : null
+    const dots: Dot[] = snapshot ? snapshot.dots : collection?.dots || []
+
+    return {
+      dots,
+      title: `${collection?.name || snapshot?.collectionName || ""} · ${summary ? summary.date : "Live"}`,
+      releaseLineConfig: snapshot?.releaseLineConfig ?? releaseLineSettings[collectionId] ?? null,
+      hillCurveConfig: collection?.hillCurveConfig ?? null,
+      colorPalette: collection?.colorPalette ?? null,
+    }
+  }
+
+  const views = sides.map(getSideView)
+  // The same collection at two dates shares dot IDs; two collections only share labels
+  const matchById = sides[0].collectionId === sides[1].collectionId
+  const legend = buildComparisonLegend(views[0].dots, views[1].dots, matchById)
+  const getDotKey = (dot: Dot) => getComparisonDotKey(dot, matchById)
+
+  const buildExport = () => {
+    if (!leftSvgRef.current || !rightSvgRef.current) return null
+    return combineChartsForExport(
+      [leftSvgRef.current, rightSvgRef.current],
+      legend.map((entry) => ({
+        label: `${entry.label}: ${formatProgress(entry.left)} → ${formatProgress(entry.right)}`,
+        color: entry.color,
+      }))
+    )
+  }
+
+  const showExportStatus = (status: "copied" | "error") => {
+    setExportStatus(status)
+    setTimeout(() => setExportStatus("idle"), 2000)
+  }
+
+  const handleCopyImage = async () => {
+    const combined = buildExport()
+    const blob = combined && (await renderSvgToPngBlob(combined.svg, combined.width, combined.height))
+    if (!blob) {
+      showExportStatus("error")
+      return
+    }
+
+    try {
+      await navigator.clipboard.write([new ClipboardItem({ "image/png": blob })])
+      showExportStatus("copied")
+    } catch (error) {
+      console.error("[COMPARISON] Failed to copy image:", error)
+      showExportStatus("error")
+    }
+  }
+
+  const handleDownloadImage = async () => {
+    const combined = buildExport()
+    const blob = combined && (await renderSvgToPngBlob(combined.svg, combined.width, combined.height))
+    if (!blob) {
+      showExportStatus("error")
+      return
+    }
+
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `hill-chart-comparison_${new Date().toISOString().split("T")[0]}.png`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card data-testid="hill-chart-comparison">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-base">Side by Side</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopyImage} title="Copy both charts as one PNG">
+            {exportStatus === "copied" ? "Copied!" : exportStatus === "error" ? "Failed" : <CopyIcon className="w-4 h-4" />}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDownloadImage} title="Download both charts as one PNG">
+            <Download className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0" title="Close side-by-side view">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {sides.map((side, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex gap-2">
+                <Select
+                  value={side.collectionId}
+                  onValueChange={(collectionId) => updateSide(index, { collectionId, snapshotId: null })}
+                >
+                  <SelectTrigger className="h-8 text-xs" aria-label={`Collection ${index + 1}`}>
+                    <SelectValue placeholder="Collection" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {collections.map((collection) => (
+                      <SelectItem key={collection.id} value={collection.id}>
+                        {collection.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={side.snapshotId || LIVE_VALUE}
+                  onValueChange={(value) =>
+                    updateSide(index, { ...side, snapshotId: value === LIVE_VALUE ? null : value })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs" aria-label={`Date ${index + 1}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={LIVE_VALUE}>Live</SelectItem>
+                    {[...(timelines[side.collectionId] || [])].reverse().map((summary) => (
+                      <SelectItem key={summary.id} value={summary.id}>
+                        {formatSummary(summary)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="aspect-[7/2] w-full">
+                <StaticHillChart
+                  svgRef={index === 0 ? leftSvgRef : rightSvgRef}
+                  dots={views[index].dots}
+                  title={views[index].title}
+                  releaseLineConfig={views[index].releaseLineConfig}
+                  hillCurveConfig={views[index].hillCurveConfig}
+                  colorPalette={views[index].colorPalette}
+                  highlightedKey={highlightedKey}
+                  getDotKey={getDotKey}
+                  onDotHover={setHighlightedKey}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Shared legend: hovering an entry highlights the dot on both charts */}
+        {legend.length > 0 && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 border-t border-border pt-3" data-testid="comparison-legend">
+            {legend.map((entry) => (
+              <div
+                key={entry.key}
+                className={`flex items-center gap-2 text-xs cursor-default rounded px-1
+                  ${highlightedKey === entry.key ? "bg-accent" : ""}`}
+                onMouseEnter={() => setHighlightedKey(entry.key)}
+                onMouseLeave={() => setHighlightedKey(null)}
+              >
+                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: entry.color }} />
+                <span>{entry.label}</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {formatProgress(entry.left)} → {formatProgress(entry.right)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
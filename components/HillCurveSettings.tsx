@@ -0,0 +1,169 @@
+"use client"
+
+import React from "react"
+import { Plus, Trash2 } from "lucide-react"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Button } from "./ui/button"
+import { HillCurveConfig, PhaseZone } from "./HillChartApp"
+import { generateBellCurvePath, generatePhaseZonePath } from "@/lib/utils/hillChartUtils"
+
+const MAX_ZONES = 6
+const zoneColors = ["#3b82f6", "#22c55e", "#f59e0b", "#a855f7", "#ef4444", "#14b8a6"]
+
+interface HillCurveSettingsProps {
+  config: HillCurveConfig
+  onConfigChange: (config: HillCurveConfig) => void
+}
+
+export const HillCurveSettings: React.FC<HillCurveSettingsProps> = ({
+  config,
+  onConfigChange,
+}) => {
+  const updateZone = (index: number, update: Partial<PhaseZone>) => {
+    onConfigChange({
+      ...config,
+      zones: config.zones.map((zone, i) => (i === index ? { ...zone, ...update } : zone)),
+    })
+  }
+
+  const handleZoneBoundChange = (index: number, field: "start" | "end") => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10)
+    if (isNaN(value) || value < 0 || value > 100) return
+
+    const zone = { ...config.zones[index], [field]: value }
+    if (zone.end > zone.start) {
+      updateZone(index, { [field]: value })
+    }
+  }
+
+  const handleAddZone = () => {
+    const lastEnd = config.zones[config.zones.length - 1]?.end ?? 0
+    const start = lastEnd < 100 ? lastEnd : 0
+    onConfigChange({
+      ...config,
+      zones: [
+        ...config.zones,
+        {
+          name: "",
+          start,
+          end: Math.min(100, start + 25),
+          color: zoneColors[config.zones.length % zoneColors.length],
+        },
+      ],
+    })
+  }
+
+  const handleRemoveZone = (index: number) => {
+    onConfigChange({ ...config, zones: config.zones.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm font-medium">Hill Curve</div>
+
+      {/* Live preview of the shape */}
+      <svg viewBox="-10 -10 620 170" className="w-full h-16 text-foreground" data-testid="hill-curve-preview">
+        {config.zones.map((zone, index) => (
+          <path key={index} d={generatePhaseZonePath(zone, config)} fill={zone.color} fillOpacity="0.2" />
+        ))}
+        <path d={generateBellCurvePath(config)} stroke="currentColor" strokeWidth="2" fill="none" />
+      </svg>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="hill-curve-peak" className="text-sm">
+            Peak position
+          </Label>
+          <span className="text-xs text-muted-foreground tabular-nums">{config.peak}%</span>
+        </div>
+        <input
+          id="hill-curve-peak"
+          type="range"
+          min={20}
+          max={80}
+          step={1}
+          value={config.peak}
+          onChange={(e) => onConfigChange({ ...config, peak: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="hill-curve-steepness" className="text-sm">
+            Steepness
+          </Label>
+          <span className="text-xs text-muted-foreground tabular-nums">{config.steepness.toFixed(1)}×</span>
+        </div>
+        <input
+          id="hill-curve-steepness"
+          type="range"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={config.steepness}
+          onChange={(e) => onConfigChange({ ...config, steepness: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+
+      {/* Named phase zones */}
+      <div className="space-y-2">
+        <Label className="text-sm">Phase zones</Label>
+        {config.zones.map((zone, index) => (
+          <div key={index} className="flex items-center gap-2" data-testid="phase-zone">
+            <input
+              type="color"
+              value={zone.color}
+              onChange={(e) => updateZone(index, { color: e.target.value })}
+              className="w-8 h-8 shrink-0 rounded border border-input cursor-pointer"
+              title="Zone color"
+            />
+            <Input
+              value={zone.name}
+              onChange={(e) => e.target.value.length <= 30 && updateZone(index, { name: e.target.value })}
+              placeholder="Figuring it out"
+              className="flex-1 text-sm"
+              maxLength={30}
+              aria-label="Zone name"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={zone.start}
+              onChange={handleZoneBoundChange(index, "start")}
+              className="w-16 text-sm"
+              aria-label="Zone start (%)"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={zone.end}
+              onChange={handleZoneBoundChange(index, "end")}
+              className="w-16 text-sm"
+              aria-label="Zone end (%)"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleRemoveZone(index)}
+              className="h-8 w-8 p-0 shrink-0"
+              title="Remove zone"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        {config.zones.length < MAX_ZONES && (
+          <Button variant="outline" size="sm" onClick={handleAddZone} className="w-full">
+            <Plus className="w-4 h-4 mr-1" />
+            Add zone
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
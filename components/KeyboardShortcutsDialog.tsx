@@ -0,0 +1,69 @@
+"use client"
+
+import React from "react"
+import { Button } from "./ui/button"
+
+interface KeyboardShortcutsDialogProps {
+  onClose: () => void
+}
+
+// Every shortcut the app handles, grouped as they appear in the cheat sheet
+export const KEYBOARD_SHORTCUTS: { group: string; shortcuts: { keys: string[]; description: string }[] }[] = [
+  {
+    group: "General",
+    shortcuts: [
+      { keys: ["Ctrl", "K"], description: "Open the command palette" },
+      { keys: ["?"], description: "Show this cheat sheet" },
+      { keys: ["Ctrl", "Z"], description: "Undo" },
+      { keys: ["Ctrl", "Shift", "Z"], description: "Redo (or Ctrl+Y)" },
+    ],
+  },
+  {
+    group: "Chart",
+    shortcuts: [
+      { keys: ["Tab"], description: "Focus the next dot" },
+      { keys: ["←", "→"], description: "Move the focused dot by the arrow key step" },
+      { keys: ["Home", "End"], description: "Move the focused dot to the start or end" },
+      { keys: ["Enter"], description: "Open the focused dot's details" },
+      { keys: ["Shift", "F10"], description: "Open the focused dot's menu" },
+      { keys: ["Shift", "Click"], description: "Add a dot to the selection" },
+    ],
+  },
+]
+
+// Cheat sheet of the keyboard shortcuts, opened with ? or from the command palette
+export const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ onClose }) => (
+  <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+    <div
+      className="bg-white dark:bg-card p-6 rounded-lg shadow-lg max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto space-y-4"
+      role="dialog"
+      aria-label="Keyboard shortcuts"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h3 className="text-lg font-semibold">Keyboard Shortcuts</h3>
+      {KEYBOARD_SHORTCUTS.map(({ group, shortcuts }) => (
+        <div key={group} className="space-y-2">
+          <div className="text-xs font-medium text-muted-foreground uppercase">{group}</div>
+          {shortcuts.map(({ keys, description }) => (
+            <div key={description} className="flex items-center justify-between gap-4 text-sm">
+              <span>{description}</span>
+              <span className="flex gap-1 shrink-0">
+                {keys.map((key) => (
+                  <kbd key={key} className="px-1.5 py-0.5 rounded border border-border bg-muted text-xs font-mono">
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
+      <div className="text-xs text-muted-foreground">On a Mac, use ⌘ in place of Ctrl.</div>
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  </div>
+)
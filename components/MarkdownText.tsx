@@ -0,0 +1,83 @@
+"use client"
+
+import React from "react"
+
+// **bold**, *italic*, `code` and [text](url); split() keeps the matches at odd indexes
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g
+const LINK_PATTERN = /^\[([^\]]+)\]\(([^)\s]+)\)$/
+const LIST_ITEM_PATTERN = /^\s*[-*]\s+/
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] =>
+  text.split(INLINE_PATTERN).map((part, index) => {
+    const key = `${keyPrefix}-${index}`
+    if (index % 2 === 0) return part
+
+    if (part.startsWith("**")) return <strong key={key}>{part.slice(2, -2)}</strong>
+    if (part.startsWith("`")) {
+      return (
+        <code key={key} className="px-1 rounded bg-muted font-mono text-[0.9em]">
+          {part.slice(1, -1)}
+        </code>
+      )
+    }
+
+    const link = part.match(LINK_PATTERN)
+    if (link) {
+      // Only web links become anchors; anything else stays plain text
+      return /^https?:\/\//.test(link[2]) ? (
+        <a
+          key={key}
+          href={link[2]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {link[1]}
+        </a>
+      ) : (
+        link[1]
+      )
+    }
+
+    return <em key={key}>{part.slice(1, -1)}</em>
+  })
+
+interface MarkdownTextProps {
+  text: string
+  className?: string
+}
+
+// Small, safe subset of markdown for dot descriptions: paragraphs, bullet lists and inline formatting.
+// Builds React elements only, so the text is never injected as HTML.
+export const MarkdownText: React.FC<MarkdownTextProps> = ({ text, className = "" }) => {
+  const blocks = text.split(/\n\s*\n/).filter((block) => block.trim())
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {blocks.map((block, blockIndex) => {
+        const lines = block.split("\n").filter((line) => line.trim())
+
+        if (lines.every((line) => LIST_ITEM_PATTERN.test(line))) {
+          return (
+            <ul key={blockIndex} className="list-disc pl-5 space-y-1">
+              {lines.map((line, lineIndex) => (
+                <li key={lineIndex}>{renderInline(line.replace(LIST_ITEM_PATTERN, ""), `${blockIndex}-${lineIndex}`)}</li>
+              ))}
+            </ul>
+          )
+        }
+
+        return (
+          <p key={blockIndex}>
+            {lines.map((line, lineIndex) => (
+              <React.Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line, `${blockIndex}-${lineIndex}`)}
+              </React.Fragment>
+            ))}
+          </p>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import React from "react"
+import { HillCurveConfig } from "./HillChartApp"
+import { BASE_LINE_Y, HILL_WIDTH, generatePhaseZonePath } from "@/lib/utils/hillChartUtils"
+
+interface PhaseZoneShadingProps {
+  curve: HillCurveConfig
+}
+
+// Named phase zones shaded under the curve, labelled just above the base line
+export const PhaseZoneShading: React.FC<PhaseZoneShadingProps> = ({ curve }) => (
+  <g className="pointer-events-none">
+    {curve.zones.map((zone, index) => (
+      <g key={index}>
+        <path d={generatePhaseZonePath(zone, curve)} fill={zone.color} fillOpacity="0.15" />
+        {zone.name && (
+          <text
+            x={(((zone.start + zone.end) / 2) / 100) * HILL_WIDTH}
+            y={BASE_LINE_Y - 6}
+            textAnchor="middle"
+            className="text-[8px] font-medium"
+            fill={zone.color}
+          >
+            {zone.name}
+          </text>
+        )}
+      </g>
+    ))}
+  </g>
+)
@@ -0,0 +1,82 @@
+"use client"
+
+import React from "react"
+import { X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Collection, ReleaseLineConfig } from "./HillChartApp"
+import { StaticHillChart } from "./StaticHillChart"
+import { countHillSides } from "@/lib/utils/hillChartUtils"
+
+interface PortfolioDashboardProps {
+  collections: Collection[]
+  releaseLineSettings: Record<string, ReleaseLineConfig>
+  // Latest snapshot date (YYYY-MM-DD) per collection ID
+  latestSnapshotDates: Record<string, string>
+  isLoading?: boolean
+  onOpen: (collection: Collection) => void
+  onClose: () => void
+}
+
+// One mini hill per active collection, for a single-screen overview
+export const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({
+  collections,
+  releaseLineSettings,
+  latestSnapshotDates,
+  isLoading = false,
+  onOpen,
+  onClose,
+}) => {
+  const activeCollections = collections.filter((collection) => collection.status === "active")
+
+  return (
+    <Card data-testid="portfolio-dashboard">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-base">Portfolio</CardTitle>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0" title="Close portfolio">
+          <X className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {activeCollections.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No active collections.</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+            {activeCollections.map((collection) => {
+              const { upHill, downHill } = countHillSides(collection.dots, collection.hillCurveConfig)
+              const lastSnapshotDate = latestSnapshotDates[collection.id]
+
+              return (
+                <button
+                  key={collection.id}
+                  type="button"
+                  onClick={() => onOpen(collection)}
+                  className="text-left rounded-lg border border-border p-3 space-y-2 hover:bg-accent transition-colors"
+                  title={`Open ${collection.name}`}
+                >
+                  <div className="aspect-[7/2] w-full">
+                    <StaticHillChart
+                      dots={collection.dots}
+                      releaseLineConfig={releaseLineSettings[collection.id] ?? collection.releaseLineConfig ?? null}
+                      hillCurveConfig={collection.hillCurveConfig}
+                      showLabels={false}
+                    />
+                  </div>
+                  <div className="font-medium text-sm truncate">{collection.name}</div>
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="tabular-nums" title="Dots still climbing · dots over the top">
+                      ↑ {upHill} up · ↓ {downHill} down
+                    </span>
+                    <span className="truncate">
+                      {isLoading ? "…" : lastSnapshotDate ? `Last snapshot: ${lastSnapshotDate}` : "No snapshots yet"}
+                    </span>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import React from "react"
+import { ReleaseLineConfig, ReleaseMarker } from "./HillChartApp"
+import { HILL_WIDTH } from "@/lib/utils/hillChartUtils"
+
+interface ReleaseLineMarkerProps {
+  config: ReleaseLineConfig
+}
+
+const formatTargetDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString([], { month: "short", day: "numeric" })
+
+const getReleaseMarkerLabel = (marker: ReleaseMarker) =>
+  [marker.label, marker.targetDate && formatTargetDate(marker.targetDate)].filter(Boolean).join(" · ")
+
+// Vertical release line at the end of the hill with its rotated label, plus any milestone markers
+export const ReleaseLineMarker: React.FC<ReleaseLineMarkerProps> = ({ config }) => {
+  const displayText = config.text.length > 12 ? config.text.substring(0, 12) : config.text
+  // Dynamic X position: 1 char = 585, 12 chars = 650
+  const dynamicX = 585 + (displayText.length - 1) * (65 / 11)
+
+  return (
+    <g>
+      {(config.markers || []).map((marker) => {
+        const x = (marker.position / 100) * HILL_WIDTH
+        const label = getReleaseMarkerLabel(marker)
+        // Keep labels of markers near the edges inside the chart
+        const textAnchor = marker.position < 10 ? "start" : marker.position > 90 ? "end" : "middle"
+
+        return (
+          <g key={marker.id} data-testid="release-marker">
+            <line
+              x1={x}
+              y1="-4"
+              x2={x}
+              y2="151"
+              stroke={marker.color}
+              strokeWidth="2"
+              strokeDasharray={marker.style === "dashed" ? "6,4" : undefined}
+            />
+            {label && (
+              <text
+                x={x}
+                y="-8"
+                textAnchor={textAnchor}
+                className="text-[8px] font-medium"
+                fill={marker.color}
+              >
+                {label}
+              </text>
+            )}
+          </g>
+        )
+      })}
+
+      {config.enabled && (
+        <>
+          {/* Vertical release line */}
+          <line
+            x1="600"
+            y1="-20"
+            x2="600"
+            y2="151"
+            stroke={config.color}
+            strokeWidth="3"
+          />
+          {/* Release line text */}
+          {displayText && (
+            <text
+              x={dynamicX}
+              y="10"
+              textAnchor="end"
+              className="text-[10px] font-medium"
+              fill={config.color}
+              transform={`rotate(90, 605, 12)`}
+            >
+              {displayText}
+            </text>
+          )}
+        </>
+      )}
+    </g>
+  )
+}
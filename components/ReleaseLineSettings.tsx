@@ -1,10 +1,15 @@
 "use client"
 
 import React from "react"
+import { Plus, Trash2 } from "lucide-react"
 import { Switch } from "./ui/switch"
 import { Input } from "./ui/input"
 import { Label } from "./ui/label"
-import { ReleaseLineConfig } from "./HillChartApp"
+import { Button } from "./ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { ReleaseLineConfig, ReleaseMarker } from "./HillChartApp"
+
+const MAX_MARKERS = 10
 
 interface ReleaseLineSettingsProps {
   config: ReleaseLineConfig
@@ -40,6 +45,36 @@ export const ReleaseLineSettings: React.FC<ReleaseLineSettingsProps> = ({
     }
   }
 
+  const markers = config.markers || []
+
+  const updateMarker = (id: string, update: Partial<ReleaseMarker>) => {
+    onConfigChange({
+      ...config,
+      markers: markers.map((marker) => (marker.id === id ? { ...marker, ...update } : marker)),
+    })
+  }
+
+  const handleMarkerPositionChange = (id: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const position = parseInt(e.target.value, 10)
+    if (!isNaN(position) && position >= 0 && position <= 100) {
+      updateMarker(id, { position })
+    }
+  }
+
+  const handleAddMarker = () => {
+    onConfigChange({
+      ...config,
+      markers: [
+        ...markers,
+        { id: Date.now().toString(), position: 75, color: "#3b82f6", label: "", style: "dashed" },
+      ],
+    })
+  }
+
+  const handleRemoveMarker = (id: string) => {
+    onConfigChange({ ...config, markers: markers.filter((marker) => marker.id !== id) })
+  }
+
   return (
     <div className="space-y-4">
       {/* Enable/Disable Toggle */}
@@ -106,6 +141,78 @@ export const ReleaseLineSettings: React.FC<ReleaseLineSettingsProps> = ({
           </div>
         </div>
       )}
+
+      {/* Milestone markers along the hill */}
+      <div className="space-y-3">
+        <div className="text-sm font-medium">Milestones</div>
+        {markers.map((marker) => (
+          <div key={marker.id} className="space-y-2 pl-4 border-l-2" style={{ borderColor: marker.color }} data-testid="release-marker-settings">
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={marker.color}
+                onChange={(e) => updateMarker(marker.id, { color: e.target.value })}
+                className="w-8 h-8 shrink-0 rounded border border-input cursor-pointer"
+                title="Choose marker color"
+              />
+              <Input
+                value={marker.label}
+                onChange={(e) => e.target.value.length <= 30 && updateMarker(marker.id, { label: e.target.value })}
+                placeholder="Beta, Code freeze, etc."
+                className="flex-1 text-sm"
+                maxLength={30}
+                aria-label="Marker label"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemoveMarker(marker.id)}
+                className="h-8 w-8 p-0 shrink-0"
+                title="Remove marker"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={marker.position}
+                onChange={handleMarkerPositionChange(marker.id)}
+                className="w-20 text-sm"
+                aria-label="Marker position (%)"
+                title="Position on the hill (%)"
+              />
+              <Input
+                type="date"
+                value={marker.targetDate || ""}
+                onChange={(e) => updateMarker(marker.id, { targetDate: e.target.value || undefined })}
+                className="flex-1 text-sm"
+                aria-label="Marker target date"
+              />
+              <Select
+                value={marker.style}
+                onValueChange={(style) => updateMarker(marker.id, { style: style as ReleaseMarker["style"] })}
+              >
+                <SelectTrigger className="w-24 h-9 text-sm" aria-label="Marker line style">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="solid">Solid</SelectItem>
+                  <SelectItem value="dashed">Dashed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ))}
+        {markers.length < MAX_MARKERS && (
+          <Button variant="outline" size="sm" onClick={handleAddMarker} className="w-full">
+            <Plus className="w-4 h-4 mr-1" />
+            Add marker
+          </Button>
+        )}
+      </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import React from "react"
+import { CopyIcon, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Snapshot, SnapshotSummary } from "./HillChartApp"
+import { SnapshotDiff, DotDiffStatus, diffStatusLabels } from "@/lib/services/snapshotDiffService"
+
+// Selector value for the live collection; snapshots use their ID (or timestamp before saving)
+export const LIVE_DIFF_KEY = "live"
+
+export const getSnapshotDiffKey = (snapshot: Pick<Snapshot, "id" | "timestamp">): string => snapshot.id ?? snapshot.timestamp.toString()
+
+const formatSnapshotTime = (snapshot: SnapshotSummary): string =>
+  new Date(snapshot.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+
+const statusOrder: DotDiffStatus[] = ["forward", "backward", "added", "archived", "removed", "unchanged"]
+
+const statusClassNames: Record<DotDiffStatus, string> = {
+  forward: "text-green-600 dark:text-green-400",
+  backward: "text-red-600 dark:text-red-400",
+  unchanged: "text-muted-foreground",
+  added: "text-blue-600 dark:text-blue-400",
+  archived: "text-muted-foreground",
+  removed: "text-muted-foreground",
+}
+
+interface SnapshotDiffPanelProps {
+  snapshots: SnapshotSummary[]
+  fromKey: string
+  toKey: string
+  diff: SnapshotDiff
+  copied: boolean
+  onFromChange: (key: string) => void
+  onToChange: (key: string) => void
+  onCopy: () => void
+  onClose: () => void
+}
+
+export const SnapshotDiffPanel: React.FC<SnapshotDiffPanelProps> = ({
+  snapshots,
+  fromKey,
+  toKey,
+  diff,
+  copied,
+  onFromChange,
+  onToChange,
+  onCopy,
+  onClose,
+}) => {
+  const renderSourceSelect = (value: string, onChange: (key: string) => void, label: string) => (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-48 h-8 text-xs" aria-label={`Compare ${label.toLowerCase()}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {snapshots.map((snapshot) => (
+            <SelectItem key={getSnapshotDiffKey(snapshot)} value={getSnapshotDiffKey(snapshot)}>
+              {snapshot.date} {formatSnapshotTime(snapshot)}
+              {snapshot.name && ` · ${snapshot.name}`}
+            </SelectItem>
+          ))}
+          <SelectItem value={LIVE_DIFF_KEY}>Live</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  const hasChanges = diff.entries.some((entry) => entry.status !== "unchanged" || entry.renamed)
+
+  return (
+    <Card data-testid="snapshot-diff-panel">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-base">Compare Snapshots</CardTitle>
+        <div className="flex flex-wrap items-center gap-3">
+          {renderSourceSelect(fromKey, onFromChange, "From")}
+          {renderSourceSelect(toKey, onToChange, "To")}
+          <Button variant="outline" size="sm" onClick={onCopy} title="Copy changes as text">
+            {copied ? "Copied!" : <CopyIcon className="w-4 h-4" />}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0" title="Close comparison">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!hasChanges ? (
+          <p className="text-sm text-muted-foreground">No changes between these two points in time.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {statusOrder.map((status) => {
+              const entries = diff.entries.filter((entry) => entry.status === status)
+              if (entries.length === 0) return null
+              return (
+                <div key={status}>
+                  <div className={`text-sm font-medium mb-1 ${statusClassNames[status]}`}>
+                    {diffStatusLabels[status]} ({entries.length})
+                  </div>
+                  <ul className="space-y-1">
+                    {entries.map((entry) => (
+                      <li key={entry.dotId} className="flex items-center gap-2 text-sm">
+                        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: entry.color }} />
+                        <span className="truncate">{entry.label}</span>
+                        {entry.renamed && (
+                          <span className="text-xs text-muted-foreground truncate">
+                            (renamed from &quot;{entry.previousLabel}&quot;)
+                          </span>
+                        )}
+                        {(status === "forward" || status === "backward") && (
+                          <span className={`ml-auto tabular-nums text-xs ${statusClassNames[status]}`}>
+                            {entry.delta > 0 ? "+" : ""}
+                            {entry.delta}%
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import React from "react"
+import { Play, Pause, X } from "lucide-react"
+import { Button } from "./ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Snapshot } from "./HillChartApp"
+import { PLAYBACK_SPEEDS, PlaybackSpeed } from "@/lib/hooks/useSnapshotPlayback"
+
+interface SnapshotPlaybackControlsProps {
+  snapshots: Snapshot[]
+  position: number
+  isPlaying: boolean
+  speed: PlaybackSpeed
+  onPlay: () => void
+  onPause: () => void
+  onSeek: (position: number) => void
+  onSpeedChange: (speed: PlaybackSpeed) => void
+  onExit: () => void
+}
+
+export const SnapshotPlaybackControls: React.FC<SnapshotPlaybackControlsProps> = ({
+  snapshots,
+  position,
+  isPlaying,
+  speed,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}) => {
+  const lastIndex = Math.max(0, snapshots.length - 1)
+  const currentSnapshot = snapshots[Math.round(position)]
+
+  return (
+    <div className="flex items-center gap-2 w-full">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={isPlaying ? onPause : onPlay}
+        className="h-8 w-8 p-0"
+        title={isPlaying ? "Pause" : "Play"}
+        data-testid="playback-toggle"
+      >
+        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+      <input
+        type="range"
+        min={0}
+        max={lastIndex}
+        step={0.01}
+        value={position}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-primary cursor-pointer"
+        aria-label="Playback position"
+        data-testid="playback-scrubber"
+      />
+      <span className="text-xs text-muted-foreground tabular-nums w-20 text-center">
+        {currentSnapshot?.date}
+      </span>
+      <Select value={speed.toString()} onValueChange={(value) => onSpeedChange(Number(value) as PlaybackSpeed)}>
+        <SelectTrigger className="w-16 h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PLAYBACK_SPEEDS.map((option) => (
+            <SelectItem key={option} value={option.toString()}>
+              {option}x
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={onExit} className="h-8 w-8 p-0" title="Exit playback">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+}
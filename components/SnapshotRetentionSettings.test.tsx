@@ -0,0 +1,53 @@
+import React from 'react'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { SnapshotRetentionSettings } from './SnapshotRetentionSettings'
+import { SnapshotRetentionPolicy } from './HillChartApp'
+
+describe('SnapshotRetentionSettings', () => {
+  const policy: SnapshotRetentionPolicy = { enabled: true, keepAllDays: 30, keepWeeklyDays: 365, keepMonthly: true }
+
+  const renderSettings = (onPolicyChange = jest.fn()) => {
+    render(
+      <SnapshotRetentionSettings
+        policy={policy}
+        preview={null}
+        isPruning={false}
+        getCollectionName={(id) => id}
+        onPolicyChange={onPolicyChange}
+        onPreview={jest.fn()}
+        onPrune={jest.fn()}
+      />
+    )
+    return onPolicyChange
+  }
+
+  it('should save a valid number of days', () => {
+    const onPolicyChange = renderSettings()
+
+    fireEvent.change(screen.getByLabelText('Keep every snapshot for (days)'), { target: { value: '60' } })
+
+    expect(onPolicyChange).toHaveBeenCalledWith({ ...policy, keepAllDays: 60 })
+  })
+
+  it('should not save full retention longer than weekly retention', () => {
+    const onPolicyChange = renderSettings()
+
+    fireEvent.change(screen.getByLabelText('Keep every snapshot for (days)'), { target: { value: '400' } })
+
+    expect(onPolicyChange).not.toHaveBeenCalled()
+    expect(screen.getByRole('alert')).toHaveTextContent('at least as long')
+  })
+
+  it('should let in-between values be typed and show the saved value on blur', () => {
+    const onPolicyChange = renderSettings()
+    const weeklyInput = screen.getByLabelText('Then one per week until (days)')
+
+    fireEvent.change(weeklyInput, { target: { value: '4' } })
+    expect(weeklyInput).toHaveValue(4)
+    expect(onPolicyChange).not.toHaveBeenCalled()
+
+    fireEvent.blur(weeklyInput)
+    expect(weeklyInput).toHaveValue(365)
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,174 @@
+"use client"
+
+import React, { useState } from "react"
+import { Switch } from "./ui/switch"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Button } from "./ui/button"
+import { SnapshotRetentionPolicy } from "./HillChartApp"
+import { RetentionCandidate } from "@/lib/services/snapshotRetentionService"
+
+type DaysField = "keepAllDays" | "keepWeeklyDays"
+
+const MAX_RETENTION_DAYS = 3650
+
+// Why a days value can't be saved, matching validateSnapshotRetentionPolicy
+const getDaysError = (policy: SnapshotRetentionPolicy): string | null => {
+  const inRange = (days: number) => Number.isInteger(days) && days >= 1 && days <= MAX_RETENTION_DAYS
+  if (!inRange(policy.keepAllDays) || !inRange(policy.keepWeeklyDays)) {
+    return `Enter a number of days from 1 to ${MAX_RETENTION_DAYS}.`
+  }
+  if (policy.keepWeeklyDays < policy.keepAllDays) {
+    return "Weekly snapshots must be kept at least as long as every snapshot."
+  }
+  return null
+}
+
+interface SnapshotRetentionSettingsProps {
+  policy: SnapshotRetentionPolicy
+  preview: RetentionCandidate[] | null
+  isPruning: boolean
+  getCollectionName: (collectionId: string) => string
+  onPolicyChange: (policy: SnapshotRetentionPolicy) => void
+  onPreview: () => void
+  onPrune: () => void
+}
+
+export const SnapshotRetentionSettings: React.FC<SnapshotRetentionSettingsProps> = ({
+  policy,
+  preview,
+  isPruning,
+  getCollectionName,
+  onPolicyChange,
+  onPreview,
+  onPrune,
+}) => {
+  // Text of a days input while it is being edited, so values on the way to a valid one can be typed
+  const [draftDays, setDraftDays] = useState<Partial<Record<DaysField, string>>>({})
+
+  const withDraftDays = (drafts: Partial<Record<DaysField, string>>): SnapshotRetentionPolicy => ({
+    ...policy,
+    ...Object.fromEntries(Object.entries(drafts).map(([field, value]) => [field, Number(value)])),
+  })
+  const daysError = Object.keys(draftDays).length > 0 ? getDaysError(withDraftDays(draftDays)) : null
+
+  const handleDaysChange = (field: DaysField) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const drafts = { ...draftDays, [field]: e.target.value }
+    setDraftDays(drafts)
+    // Only a policy that passes both the range and the weekly >= all rule is saved
+    const next = withDraftDays(drafts)
+    if (!getDaysError(next)) {
+      onPolicyChange(next)
+    }
+  }
+
+  // Leaving the inputs drops any unsaved text and shows the saved policy again
+  const handleDaysBlur = () => setDraftDays({})
+
+  return (
+    <div className="space-y-4">
+      {/* Enable/Disable Toggle */}
+      <div className="flex items-center justify-between">
+        <Label htmlFor="retention-toggle" className="text-sm font-medium">
+          Prune old snapshots
+        </Label>
+        <Switch
+          id="retention-toggle"
+          checked={policy.enabled}
+          onCheckedChange={(enabled) => onPolicyChange({ ...policy, enabled })}
+        />
+      </div>
+
+      {policy.enabled && (
+        <div className="space-y-3 pl-4 border-l-2 border-muted">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="retention-keep-all" className="text-sm">
+              Keep every snapshot for (days)
+            </Label>
+            <Input
+              id="retention-keep-all"
+              type="number"
+              min={1}
+              max={MAX_RETENTION_DAYS}
+              value={draftDays.keepAllDays ?? policy.keepAllDays}
+              onChange={handleDaysChange("keepAllDays")}
+              onBlur={handleDaysBlur}
+              aria-invalid={!!daysError}
+              className="w-20 text-sm"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="retention-keep-weekly" className="text-sm">
+              Then one per week until (days)
+            </Label>
+            <Input
+              id="retention-keep-weekly"
+              type="number"
+              min={policy.keepAllDays}
+              max={MAX_RETENTION_DAYS}
+              value={draftDays.keepWeeklyDays ?? policy.keepWeeklyDays}
+              onChange={handleDaysChange("keepWeeklyDays")}
+              onBlur={handleDaysBlur}
+              aria-invalid={!!daysError}
+              className="w-20 text-sm"
+            />
+          </div>
+          {daysError && (
+            <div className="text-xs text-destructive" role="alert">
+              {daysError}
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="retention-keep-monthly" className="text-sm">
+              Then keep one per month
+            </Label>
+            <Switch
+              id="retention-keep-monthly"
+              checked={policy.keepMonthly}
+              onCheckedChange={(keepMonthly) => onPolicyChange({ ...policy, keepMonthly })}
+            />
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Pinned and named snapshots are always kept.
+          </div>
+
+          {/* Dry-run preview */}
+          <div className="space-y-2">
+            <Button variant="outline" size="sm" onClick={onPreview} disabled={isPruning} className="w-full">
+              Preview
+            </Button>
+            {preview && (
+              <div data-testid="retention-preview">
+                {preview.length === 0 ? (
+                  <div className="text-xs text-muted-foreground">Nothing to remove.</div>
+                ) : (
+                  <>
+                    <div className="text-xs font-medium mb-1">
+                      {preview.length} snapshot{preview.length === 1 ? "" : "s"} would be removed
+                    </div>
+                    <ul className="max-h-40 overflow-y-auto space-y-0.5 text-xs text-muted-foreground">
+                      {preview.map((candidate) => (
+                        <li key={candidate.id}>
+                          {getCollectionName(candidate.collectionId)} · {new Date(candidate.timestamp).toLocaleString()}
+                        </li>
+                      ))}
+                    </ul>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={onPrune}
+                      disabled={isPruning}
+                      className="w-full mt-2"
+                    >
+                      {isPruning ? "Pruning..." : `Remove ${preview.length} snapshot${preview.length === 1 ? "" : "s"}`}
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import React from "react"
+import { ColorPaletteConfig, Dot, HillCurveConfig, ReleaseLineConfig } from "./HillChartApp"
+import { ReleaseLineMarker } from "./ReleaseLineMarker"
+import { PhaseZoneShading } from "./PhaseZoneShading"
+import { ChartLegend } from "./ChartLegend"
+import {
+  generateBellCurvePath,
+  getHillPeakX,
+  layoutDotLabels,
+  placeDotsOnHill,
+  DEFAULT_HILL_CURVE,
+  HILL_WIDTH,
+} from "@/lib/utils/hillChartUtils"
+
+interface StaticHillChartProps {
+  dots: Dot[]
+  title?: string
+  releaseLineConfig?: ReleaseLineConfig | null
+  hillCurveConfig?: HillCurveConfig | null
+  // Legend is drawn when the palette has it turned on and labels are shown
+  colorPalette?: ColorPaletteConfig | null
+  // Mini charts draw the dots without their labels
+  showLabels?: boolean
+  // Dots whose key matches stay fully visible; the others are dimmed
+  highlightedKey?: string | null
+  getDotKey?: (dot: Dot) => string
+  onDotHover?: (key: string | null) => void
+  svgRef?: React.Ref<SVGSVGElement>
+}
+
+// Read-only hill chart: same drawing as the main chart, without dragging
+export const StaticHillChart: React.FC<StaticHillChartProps> = ({
+  dots,
+  title,
+  releaseLineConfig,
+  hillCurveConfig,
+  colorPalette,
+  showLabels = true,
+  highlightedKey = null,
+  getDotKey = (dot) => dot.id,
+  onDotHover,
+  svgRef,
+}) => {
+  const curve = hillCurveConfig ?? DEFAULT_HILL_CURVE
+  const peakX = getHillPeakX(curve)
+  const activeDots = placeDotsOnHill(dots.filter((dot) => !dot.archived), curve)
+  const labelPositions = showLabels ? layoutDotLabels(activeDots) : {}
+
+  return (
+    <svg
+      ref={svgRef}
+      width="100%"
+      height="100%"
+      viewBox="-50 -20 700 200"
+      className="max-w-full"
+    >
+      <PhaseZoneShading curve={curve} />
+
+      {/* Bell curve */}
+      <path d={generateBellCurvePath(curve)} stroke="currentColor" strokeWidth="1" fill="none" />
+
+      {/* Base line */}
+      <line x1="0" y1="150" x2="600" y2="150" stroke="currentColor" strokeWidth="1" />
+
+      {/* Divider at the top of the hill */}
+      <line
+        x1={peakX}
+        y1="-5"
+        x2={peakX}
+        y2="150"
+        stroke="hsl(var(--muted-foreground))"
+        strokeWidth="1"
+        strokeDasharray="5,5"
+      />
+
+      {/* Labels */}
+      <text x="30" y="160" textAnchor="middle" className="text-[8px] fill-muted-foreground font-normal">
+        Discovery
+      </text>
+      {title && (
+        <text x="300" y="175" textAnchor="middle" className="font-semibold text-sm fill-foreground">
+          {title}
+        </text>
+      )}
+      <text x="570" y="160" textAnchor="middle" className="text-[8px] fill-muted-foreground">
+        Delivery
+      </text>
+
+      {showLabels && colorPalette?.showLegend && <ChartLegend colors={colorPalette.colors} />}
+
+      {releaseLineConfig && <ReleaseLineMarker config={releaseLineConfig} />}
+
+      {activeDots.map((dot) => {
+        const labelPos = labelPositions[dot.id]
+        const key = getDotKey(dot)
+        const isDimmed = highlightedKey !== null && highlightedKey !== key
+
+        return (
+          <g
+            key={dot.id}
+            opacity={isDimmed ? 0.25 : 1}
+            onMouseEnter={onDotHover && (() => onDotHover(key))}
+            onMouseLeave={onDotHover && (() => onDotHover(null))}
+          >
+            <circle
+              cx={(dot.x / 100) * HILL_WIDTH}
+              cy={dot.y}
+              r={4 + dot.size * 2}
+              fill={dot.color}
+              stroke="#fff"
+              strokeWidth="2"
+            />
+            {labelPos && (
+              <>
+                <rect
+                  x={labelPos.x}
+                  y={labelPos.y}
+                  width={labelPos.width}
+                  height={labelPos.height}
+                  rx="8"
+                  ry="8"
+                  fill="hsl(var(--background))"
+                  stroke="hsl(var(--border))"
+                  strokeWidth="1"
+                />
+                <text
+                  x={labelPos.textCenterX}
+                  y={labelPos.y + labelPos.height / 2}
+                  textAnchor="middle"
+                  className="fill-foreground select-none"
+                  dominantBaseline="central"
+                  fontSize={labelPos.fontSize}
+                >
+                  {dot.label}
+                </text>
+              </>
+            )}
+            {!labelPos && <title>{dot.label}</title>}
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
@@ -13,6 +13,20 @@ module.exports = {
       autorestart: true,
       watch: false,
       max_memory_restart: '1G'
+    }, {
+      // Automatic snapshots: runs once an hour, each collection gets at most one per day
+      name: 'oth-scheduled-snapshots',
+      script: 'scripts/run-scheduled-snapshots.js',
+      cwd: '/home/gregoire/over-the-hill',
+      env: {
+        APP_URL: 'http://localhost:3000'
+        // CRON_SECRET must be set in the environment PM2 is started from
+      },
+      instances: 1,
+      exec_mode: 'fork',
+      cron_restart: '0 * * * *',
+      autorestart: false,
+      watch: false
     }]
   }
   
\ No newline at end of file
@@ -0,0 +1,92 @@
+/**
+ * Tests for the debounced settings save hook
+ */
+
+import { renderHook, act } from '@testing-library/react'
+import { useDebouncedSave } from '../useDebouncedSave'
+
+describe('useDebouncedSave', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should save only the latest value once it settles', async () => {
+    const save = jest.fn().mockResolvedValue(undefined)
+    const { result } = renderHook(() => useDebouncedSave<number>(save, 300))
+
+    act(() => {
+      result.current.schedule('c1', 10)
+      result.current.schedule('c1', 20)
+      result.current.schedule('c1', 30)
+    })
+    expect(save).not.toHaveBeenCalled()
+
+    await act(async () => jest.advanceTimersByTime(300))
+    expect(save).toHaveBeenCalledTimes(1)
+    expect(save).toHaveBeenCalledWith('c1', 30)
+  })
+
+  it('should keep values of different keys apart', async () => {
+    const save = jest.fn().mockResolvedValue(undefined)
+    const { result } = renderHook(() => useDebouncedSave<number>(save, 300))
+
+    await act(async () => {
+      result.current.schedule('c1', 1)
+      result.current.schedule('c2', 2)
+      jest.advanceTimersByTime(300)
+    })
+
+    expect(save).toHaveBeenCalledWith('c1', 1)
+    expect(save).toHaveBeenCalledWith('c2', 2)
+  })
+
+  it('should not start a save until the previous one for the key has finished', async () => {
+    const saved: number[] = []
+    let finishFirst = () => {}
+    const save = jest.fn((_key: string, value: number) => {
+      if (value === 1) {
+        return new Promise<void>((resolve) => {
+          finishFirst = () => {
+            saved.push(value)
+            resolve()
+          }
+        })
+      }
+      saved.push(value)
+      return Promise.resolve()
+    })
+    const { result } = renderHook(() => useDebouncedSave<number>(save, 300))
+
+    act(() => {
+      result.current.schedule('c1', 1)
+      jest.advanceTimersByTime(300)
+      result.current.schedule('c1', 2)
+      jest.advanceTimersByTime(300)
+    })
+    await act(async () => {})
+    expect(saved).toEqual([])
+
+    await act(async () => finishFirst())
+    expect(saved).toEqual([1, 2])
+  })
+
+  it('should save pending values straight away on flush and on unmount', async () => {
+    const save = jest.fn().mockResolvedValue(undefined)
+    const { result, unmount } = renderHook(() => useDebouncedSave<number>(save, 300))
+
+    await act(async () => {
+      result.current.schedule('c1', 5)
+      result.current.flush('c1')
+      result.current.schedule('c2', 6)
+    })
+    expect(save).toHaveBeenCalledWith('c1', 5)
+
+    unmount()
+    await act(async () => {})
+    expect(save).toHaveBeenCalledWith('c2', 6)
+  })
+})
@@ -0,0 +1,42 @@
+/**
+ * Tests for the snapshot playback hook
+ */
+
+import { StrictMode } from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { useSnapshotPlayback } from '../useSnapshotPlayback'
+
+describe('useSnapshotPlayback', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should stop on the last snapshot', () => {
+    const { result } = renderHook(() => useSnapshotPlayback(3), { wrapper: StrictMode })
+
+    act(() => result.current.play())
+    expect(result.current.isPlaying).toBe(true)
+
+    // Two steps of 1.5 seconds at 1x, with time to spare
+    act(() => {
+      jest.advanceTimersByTime(4000)
+    })
+
+    expect(result.current.position).toBe(2)
+    expect(result.current.isPlaying).toBe(false)
+  })
+
+  it('should start over from the beginning after reaching the end', () => {
+    const { result } = renderHook(() => useSnapshotPlayback(3))
+
+    act(() => result.current.seek(2))
+    act(() => result.current.play())
+
+    expect(result.current.position).toBe(0)
+    expect(result.current.isPlaying).toBe(true)
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Tests for the undo/redo history hook
+ */
+
+import { renderHook, act } from '@testing-library/react'
+import { useUndoHistory } from '../useUndoHistory'
+
+// An edit of a value that undo and redo move between
+const makeEdit = (state: { value: number }, from: number, to: number, coalesceKey?: string) => ({
+  label: `Set ${to}`,
+  undo: async () => { state.value = from },
+  redo: async () => { state.value = to },
+  coalesceKey
+})
+
+describe('useUndoHistory', () => {
+  it('should undo and redo entries in order', async () => {
+    const state = { value: 2 }
+    const { result } = renderHook(() => useUndoHistory())
+
+    act(() => {
+      result.current.record(makeEdit(state, 0, 1))
+      result.current.record(makeEdit(state, 1, 2))
+    })
+    expect(result.current.undoLabel).toBe('Set 2')
+
+    await act(() => result.current.undo())
+    expect(state.value).toBe(1)
+    await act(() => result.current.undo())
+    expect(state.value).toBe(0)
+    expect(result.current.canUndo).toBe(false)
+
+    await act(() => result.current.redo())
+    expect(state.value).toBe(1)
+    expect(result.current.canRedo).toBe(true)
+  })
+
+  it('should drop the redo stack on a new edit', async () => {
+    const state = { value: 1 }
+    const { result } = renderHook(() => useUndoHistory())
+
+    act(() => result.current.record(makeEdit(state, 0, 1)))
+    await act(() => result.current.undo())
+    act(() => result.current.record(makeEdit(state, 0, 5)))
+
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  it('should merge quick edits that share a key', async () => {
+    const state = { value: 2 }
+    const { result } = renderHook(() => useUndoHistory())
+
+    act(() => {
+      result.current.record(makeEdit(state, 0, 1, 'label'))
+      result.current.record(makeEdit(state, 1, 2, 'label'))
+    })
+
+    await act(() => result.current.undo())
+    expect(state.value).toBe(0)
+    expect(result.current.canUndo).toBe(false)
+
+    await act(() => result.current.redo())
+    expect(state.value).toBe(2)
+  })
+
+  it('should keep an entry that fails to undo so it can be tried again', async () => {
+    const { result } = renderHook(() => useUndoHistory())
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const undo = jest.fn()
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockResolvedValueOnce(undefined)
+
+    act(() => result.current.record({ label: 'Delete', undo, redo: async () => {} }))
+    await act(() => result.current.undo())
+
+    expect(result.current.undoLabel).toBe('Delete')
+    expect(result.current.canRedo).toBe(false)
+
+    await act(() => result.current.undo())
+    expect(undo).toHaveBeenCalledTimes(2)
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.redoLabel).toBe('Delete')
+    consoleSpy.mockRestore()
+  })
+
+  it('should keep an entry that fails to redo on the redo stack', async () => {
+    const { result } = renderHook(() => useUndoHistory())
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    act(() => result.current.record({
+      label: 'Delete',
+      undo: async () => {},
+      redo: async () => { throw new Error('connection lost') }
+    }))
+    await act(() => result.current.undo())
+    await act(() => result.current.redo())
+
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.redoLabel).toBe('Delete')
+    consoleSpy.mockRestore()
+  })
+})
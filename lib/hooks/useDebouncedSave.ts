@@ -0,0 +1,53 @@
+/**
+ * Hook to save settings that change continuously, like sliders and color inputs
+ *
+ * Values are saved once they have settled, so a slider drag is one request, and
+ * saves for the same key run one after another, so a slow response to an earlier
+ * value can never land after the latest one.
+ */
+
+import { useCallback, useEffect, useRef } from 'react'
+
+// How long a value has to stay put before it is saved
+const DEFAULT_SAVE_DELAY_MS = 400
+
+export const useDebouncedSave = <T,>(
+  save: (key: string, value: T) => Promise<void>,
+  delayMs: number = DEFAULT_SAVE_DELAY_MS
+) => {
+  // Always call the latest save function, which closes over the current user
+  const saveRef = useRef(save)
+  useEffect(() => {
+    saveRef.current = save
+  }, [save])
+
+  const pendingRef = useRef(new Map<string, { value: T; timer: ReturnType<typeof setTimeout> }>())
+  const queueRef = useRef(new Map<string, Promise<void>>())
+
+  const flush = useCallback((key: string) => {
+    const pending = pendingRef.current.get(key)
+    if (!pending) return
+    clearTimeout(pending.timer)
+    pendingRef.current.delete(key)
+
+    const previous = queueRef.current.get(key) ?? Promise.resolve()
+    const next = previous.then(() => saveRef.current(key, pending.value))
+    queueRef.current.set(key, next.catch(() => undefined))
+  }, [])
+
+  const schedule = useCallback((key: string, value: T) => {
+    const pending = pendingRef.current.get(key)
+    if (pending) clearTimeout(pending.timer)
+    pendingRef.current.set(key, { value, timer: setTimeout(() => flush(key), delayMs) })
+  }, [flush, delayMs])
+
+  // Changes made just before leaving the page are still saved
+  useEffect(() => {
+    const pending = pendingRef.current
+    return () => {
+      Array.from(pending.keys()).forEach(flush)
+    }
+  }, [flush])
+
+  return { schedule, flush }
+}
@@ -0,0 +1,83 @@
+/**
+ * Hook to animate a collection's snapshot history
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+
+// Seconds spent gliding from one snapshot to the next at 1x speed
+const SECONDS_PER_STEP = 1.5
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4] as const
+export type PlaybackSpeed = typeof PLAYBACK_SPEEDS[number]
+
+export const useSnapshotPlayback = (snapshotCount: number) => {
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [position, setPosition] = useState(0)
+  const [speed, setSpeed] = useState<PlaybackSpeed>(1)
+  const frameRef = useRef<number | null>(null)
+  const lastTickRef = useRef<number | null>(null)
+  // Latest position for the animation frame, so the end is found outside the state updater
+  const positionRef = useRef(0)
+
+  const lastIndex = Math.max(0, snapshotCount - 1)
+
+  useEffect(() => {
+    positionRef.current = position
+  }, [position])
+
+  useEffect(() => {
+    if (!isPlaying) return
+
+    const tick = (now: number) => {
+      const elapsed = lastTickRef.current === null ? 0 : (now - lastTickRef.current) / 1000
+      lastTickRef.current = now
+
+      const next = Math.min(lastIndex, positionRef.current + (elapsed * speed) / SECONDS_PER_STEP)
+      positionRef.current = next
+      setPosition(next)
+      if (next >= lastIndex) {
+        setIsPlaying(false)
+        return
+      }
+      frameRef.current = requestAnimationFrame(tick)
+    }
+
+    frameRef.current = requestAnimationFrame(tick)
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+      frameRef.current = null
+      lastTickRef.current = null
+    }
+  }, [isPlaying, speed, lastIndex])
+
+  const play = useCallback(() => {
+    if (lastIndex === 0) return
+    // Restart from the beginning when playback already reached the end
+    setPosition(prev => (prev >= lastIndex ? 0 : prev))
+    setIsPlaying(true)
+  }, [lastIndex])
+
+  const pause = useCallback(() => {
+    setIsPlaying(false)
+  }, [])
+
+  const seek = useCallback((value: number) => {
+    setPosition(Math.max(0, Math.min(lastIndex, value)))
+  }, [lastIndex])
+
+  const reset = useCallback(() => {
+    setIsPlaying(false)
+    setPosition(0)
+  }, [])
+
+  return {
+    isPlaying,
+    position,
+    speed,
+    setSpeed,
+    play,
+    pause,
+    seek,
+    reset
+  }
+}
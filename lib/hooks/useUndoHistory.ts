@@ -0,0 +1,101 @@
+/**
+ * Hook to keep an app-wide undo/redo history of edits
+ *
+ * Each entry carries its own undo and redo functions, which save through the
+ * existing service functions, so the history never has to know about the data.
+ */
+
+import { useState, useCallback, useRef } from 'react'
+
+// Entries beyond this are dropped from the bottom of the stack
+const MAX_UNDO_ENTRIES = 50
+// Edits with the same key within this window become one entry, e.g. typing a label
+const COALESCE_WINDOW_MS = 1000
+
+export interface UndoEntry {
+  // Short description for tooltips, e.g. "Move Checkout"
+  label: string
+  undo: () => Promise<void>
+  redo: () => Promise<void>
+  // Entries sharing a key that are recorded in quick succession are merged
+  coalesceKey?: string
+  timestamp: number
+}
+
+export const useUndoHistory = () => {
+  const [past, setPast] = useState<UndoEntry[]>([])
+  const [future, setFuture] = useState<UndoEntry[]>([])
+  // Only one undo or redo runs at a time so saves land in order
+  const isApplyingRef = useRef(false)
+
+  const record = useCallback((entry: Omit<UndoEntry, 'timestamp'>) => {
+    const now = Date.now()
+    setPast(prev => {
+      const last = prev[prev.length - 1]
+      if (
+        last &&
+        entry.coalesceKey &&
+        last.coalesceKey === entry.coalesceKey &&
+        now - last.timestamp < COALESCE_WINDOW_MS
+      ) {
+        // Keep undoing to the state before the first edit, redo to the latest one
+        return [...prev.slice(0, -1), { ...last, redo: entry.redo, timestamp: now }]
+      }
+      return [...prev, { ...entry, timestamp: now }].slice(-MAX_UNDO_ENTRIES)
+    })
+    // A new edit starts a new branch of history
+    setFuture([])
+  }, [])
+
+  const undo = useCallback(async () => {
+    const entry = past[past.length - 1]
+    if (!entry || isApplyingRef.current) return
+
+    isApplyingRef.current = true
+    setPast(prev => prev.slice(0, -1))
+    try {
+      await entry.undo()
+      setFuture(prev => [...prev, entry])
+    } catch (error) {
+      console.error('[UNDO] Failed to undo:', entry.label, error)
+      // Keep the entry so the undo can be tried again
+      setPast(prev => [...prev, entry])
+    } finally {
+      isApplyingRef.current = false
+    }
+  }, [past])
+
+  const redo = useCallback(async () => {
+    const entry = future[future.length - 1]
+    if (!entry || isApplyingRef.current) return
+
+    isApplyingRef.current = true
+    setFuture(prev => prev.slice(0, -1))
+    try {
+      await entry.redo()
+      // Redone entries never merge with the next edit
+      setPast(prev => [...prev, { ...entry, coalesceKey: undefined }])
+    } catch (error) {
+      console.error('[UNDO] Failed to redo:', entry.label, error)
+      setFuture(prev => [...prev, entry])
+    } finally {
+      isApplyingRef.current = false
+    }
+  }, [future])
+
+  const clear = useCallback(() => {
+    setPast([])
+    setFuture([])
+  }, [])
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undoLabel: past[past.length - 1]?.label,
+    redoLabel: future[future.length - 1]?.label,
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for dot history diffs and descriptions
+ */
+
+import { describeDotHistoryEntry, diffDotForHistory, getCreatedDotChanges } from '../dotHistoryService'
+import type { DotHistoryEntry } from '@/components/HillChartApp'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+const makeEntry = (overrides: Partial<DotHistoryEntry>): DotHistoryEntry => ({
+  id: 'entry-1',
+  dotId: 'dot-1',
+  collectionId: 'collection-1',
+  type: 'updated',
+  label: 'Dot',
+  changes: [],
+  timestamp: 0,
+  ...overrides
+})
+
+describe('dotHistoryService', () => {
+  describe('diffDotForHistory', () => {
+    it('should return no changes for an identical dot', () => {
+      expect(diffDotForHistory(makeDot({ x: 20 }), makeDot({ x: 20 }))).toEqual([])
+    })
+
+    it('should list each changed field in order', () => {
+      const changes = diffDotForHistory(
+        makeDot({ x: 20 }),
+        makeDot({ x: 45, label: 'Checkout', archived: true })
+      )
+
+      expect(changes).toEqual([
+        { field: 'label', from: 'Dot', to: 'Checkout' },
+        { field: 'x', from: 20, to: 45 },
+        { field: 'archived', from: false, to: true }
+      ])
+    })
+
+    it('should ignore position changes below one decimal', () => {
+      expect(diffDotForHistory(makeDot({ x: 20.01 }), makeDot({ x: 20.02 }))).toEqual([])
+    })
+
+    it('should ignore fields the history does not follow', () => {
+      expect(diffDotForHistory(makeDot({ y: 10 }), makeDot({ y: 50, description: 'Notes' }))).toEqual([])
+    })
+  })
+
+  describe('describeDotHistoryEntry', () => {
+    it('should describe created and deleted dots', () => {
+      expect(describeDotHistoryEntry(makeEntry({ type: 'created', changes: getCreatedDotChanges(makeDot({ x: 12.4 })) })))
+        .toEqual(['Added at 12%'])
+      expect(describeDotHistoryEntry(makeEntry({ type: 'deleted' }))).toEqual(['Deleted'])
+    })
+
+    it('should describe every change of an update', () => {
+      const entry = makeEntry({
+        changes: [
+          { field: 'x', from: 20, to: 45 },
+          { field: 'size', from: 3, to: 1 },
+          { field: 'archived', from: true, to: false }
+        ]
+      })
+
+      expect(describeDotHistoryEntry(entry)).toEqual([
+        'Moved from 20% to 45%',
+        'Size changed from 3 to 1',
+        'Unarchived'
+      ])
+    })
+  })
+})
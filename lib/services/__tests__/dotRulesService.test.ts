@@ -0,0 +1,67 @@
+/**
+ * Tests for dot styling rule evaluation
+ */
+
+import { applyDotRules, DEFAULT_DOT_STYLING, getRequiredHistoryLength } from '../dotRulesService'
+import type { DotStylingConfig } from '@/components/HillChartApp'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+const staleStyling: DotStylingConfig = {
+  enabled: true,
+  rules: [
+    {
+      id: 'stale',
+      enabled: true,
+      condition: { type: 'unmoved', snapshots: 2 },
+      actions: [{ type: 'setColor', color: '#ef4444' }]
+    }
+  ]
+}
+
+describe('dotRulesService', () => {
+  describe('applyDotRules', () => {
+    it('should reproduce the previous drag recoloring with the default rules', () => {
+      expect(applyDotRules(makeDot({ x: 100 }), DEFAULT_DOT_STYLING)).toEqual({ color: '#8b5cf6', size: 1 })
+      expect(applyDotRules(makeDot({ x: 60 }), DEFAULT_DOT_STYLING)).toEqual({ color: '#22c55e' })
+      expect(applyDotRules(makeDot({ x: 40 }), DEFAULT_DOT_STYLING)).toEqual({})
+    })
+
+    it('should do nothing when styling is disabled', () => {
+      expect(applyDotRules(makeDot({ x: 100 }), { ...DEFAULT_DOT_STYLING, enabled: false })).toEqual({})
+    })
+
+    it('should only run rules of the requested condition type', () => {
+      expect(applyDotRules(makeDot({ x: 100 }), DEFAULT_DOT_STYLING, [], 'unmoved')).toEqual({})
+    })
+
+    it('should match dots that stayed put across the recent snapshots', () => {
+      const dot = makeDot({ x: 30 })
+
+      expect(applyDotRules(dot, staleStyling, [10, 30, 30])).toEqual({ color: '#ef4444' })
+      expect(applyDotRules(dot, staleStyling, [30, 20])).toEqual({})
+      // Not enough history yet
+      expect(applyDotRules(dot, staleStyling, [30])).toEqual({})
+      expect(applyDotRules(dot, staleStyling, [undefined, 30])).toEqual({})
+    })
+  })
+
+  describe('addTag action', () => {
+    const tagStyling: DotStylingConfig = {
+      enabled: true,
+      rules: [{ ...staleStyling.rules[0], actions: [{ type: 'addTag', tag: 'stale' }] }]
+    }
+
+    it('should add the tag once', () => {
+      expect(applyDotRules(makeDot({ x: 30, tags: ['search'] }), tagStyling, [30, 30])).toEqual({ tags: ['search', 'stale'] })
+      expect(applyDotRules(makeDot({ x: 30, tags: ['Stale'] }), tagStyling, [30, 30])).toEqual({})
+    })
+  })
+
+  describe('getRequiredHistoryLength', () => {
+    it('should return the longest enabled unmoved window', () => {
+      expect(getRequiredHistoryLength(DEFAULT_DOT_STYLING)).toBe(0)
+      expect(getRequiredHistoryLength(staleStyling)).toBe(2)
+      expect(getRequiredHistoryLength({ ...staleStyling, enabled: false })).toBe(0)
+    })
+  })
+})
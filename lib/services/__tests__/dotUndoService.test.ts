@@ -0,0 +1,95 @@
+/**
+ * Tests for the undo steps recorded when dots are deleted
+ */
+
+import { renderHook, act } from '@testing-library/react'
+import { createDeleteDotsUndoEntry } from '../dotUndoService'
+import { useUndoHistory } from '@/lib/hooks/useUndoHistory'
+import * as supabaseService from '../supabaseService'
+import type { Dot } from '@/components/HillChartApp'
+
+// Mock the supabase service
+jest.mock('../supabaseService')
+
+const mockSupabaseService = supabaseService as jest.Mocked<typeof supabaseService>
+
+describe('dotUndoService', () => {
+  const userId = 'test-user-id'
+  const collectionId = 'test-collection-id'
+  const dot: Dot = { id: 'dot-1', label: 'Checkout', x: 60, y: 80, color: '#3b82f6', size: 3, archived: false }
+
+  // Stored dots by ID, standing in for the dots table
+  let stored: Map<string, Dot>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    stored = new Map([[dot.id, dot]])
+    mockSupabaseService.addDots.mockImplementation(async (dots) => {
+      dots.forEach((d) => stored.set(d.id, d))
+      return dots
+    })
+    mockSupabaseService.deleteDots.mockImplementation(async (dotIds) => {
+      dotIds.forEach((id) => stored.delete(id))
+      return true
+    })
+  })
+
+  // A move recorded before the delete, which saves by dot ID like the chart does
+  const moveEntry = (from: number, to: number) => {
+    const moveTo = (x: number) => async () => {
+      const current = stored.get(dot.id)
+      if (!current) throw new Error('Dot not found')
+      stored.set(dot.id, { ...current, x })
+    }
+    return { label: `Move ${dot.label}`, undo: moveTo(from), redo: moveTo(to) }
+  }
+
+  const deleteEntry = (onRestored = jest.fn(), onDeleted = jest.fn()) =>
+    createDeleteDotsUndoEntry(userId, collectionId, [dot], { onRestored, onDeleted })
+
+  it('should restore a deleted dot with its original ID', async () => {
+    const onRestored = jest.fn()
+    stored.delete(dot.id)
+
+    await deleteEntry(onRestored).undo()
+
+    expect(mockSupabaseService.addDots).toHaveBeenCalledWith([dot], collectionId, userId)
+    expect(mockSupabaseService.addDot).not.toHaveBeenCalled()
+    expect(onRestored).toHaveBeenCalledWith([dot])
+  })
+
+  it('should still undo the move made before the delete', async () => {
+    const { result } = renderHook(() => useUndoHistory())
+
+    act(() => result.current.record(moveEntry(20, 60)))
+    stored.delete(dot.id)
+    act(() => result.current.record(deleteEntry()))
+
+    await act(() => result.current.undo())
+    await act(() => result.current.undo())
+
+    expect(stored.get(dot.id)?.x).toBe(20)
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.canRedo).toBe(true)
+  })
+
+  it('should delete the same dot again on redo', async () => {
+    const onDeleted = jest.fn()
+    const entry = deleteEntry(jest.fn(), onDeleted)
+
+    await entry.undo()
+    await entry.redo()
+
+    expect(mockSupabaseService.deleteDots).toHaveBeenCalledWith([dot.id], collectionId, userId)
+    expect(onDeleted).toHaveBeenCalledWith([dot.id])
+    expect(stored.has(dot.id)).toBe(false)
+  })
+
+  it('should name the step after the dot, or the count for several', () => {
+    expect(deleteEntry().label).toBe('Delete Checkout')
+    expect(createDeleteDotsUndoEntry(userId, collectionId, [dot, { ...dot, id: 'dot-2' }], {
+      onRestored: jest.fn(),
+      onDeleted: jest.fn()
+    }).label).toBe('Delete 2 dots')
+  })
+})
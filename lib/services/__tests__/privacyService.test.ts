@@ -123,6 +123,24 @@ describe('PrivacyService - Release Line Encryption', () => {
 
       mockEncryptData.mockRestore();
     });
+
+    it('should encrypt milestone markers as one JSON list', async () => {
+      const markers = [
+        { id: 'beta', position: 70, color: '#3b82f6', label: 'Beta', targetDate: '2026-11-03', style: 'dashed' as const }
+      ];
+      const mockEncryptData = jest.spyOn(privacyService, 'encryptData');
+      mockEncryptData
+        .mockResolvedValueOnce({ encrypted: 'encrypted-color', hash: 'color-hash' })
+        .mockResolvedValueOnce({ encrypted: 'encrypted-text', hash: 'text-hash' })
+        .mockResolvedValueOnce({ encrypted: 'encrypted-markers', hash: 'markers-hash' });
+
+      const result = await privacyService.encryptReleaseLineConfig({ ...testReleaseLineConfig, markers }, testUserId);
+
+      expect(result.markers_encrypted).toBe('encrypted-markers');
+      expect(mockEncryptData).toHaveBeenCalledWith(JSON.stringify(markers), testUserId);
+
+      mockEncryptData.mockRestore();
+    });
   });
 
   describe('decryptReleaseLineConfig', () => {
@@ -174,6 +192,26 @@ describe('PrivacyService - Release Line Encryption', () => {
       mockDecryptData.mockRestore();
     });
 
+    it('should decrypt milestone markers when present', async () => {
+      const markers = [{ id: 'beta', position: 70, color: '#3b82f6', label: 'Beta', style: 'solid' }];
+      const mockDecryptData = jest.spyOn(privacyService, 'decryptData');
+      mockDecryptData
+        .mockResolvedValueOnce('#ff00ff')
+        .mockResolvedValueOnce('Q4')
+        .mockResolvedValueOnce(JSON.stringify(markers));
+
+      const result = await privacyService.decryptReleaseLineConfig({
+        enabled: true,
+        color_encrypted: 'encrypted-color',
+        text_encrypted: 'encrypted-text',
+        markers_encrypted: 'encrypted-markers'
+      }, testUserId);
+
+      expect(result.markers).toEqual(markers);
+
+      mockDecryptData.mockRestore();
+    });
+
     it('should preserve boolean enabled value without decryption', async () => {
       const mockDecryptData = jest.spyOn(privacyService, 'decryptData');
       mockDecryptData.mockResolvedValue('mock-decrypted');
@@ -368,4 +406,47 @@ describe('PrivacyService - Release Line Encryption', () => {
       mockDecryptData.mockRestore();
     });
   });
-});
\ No newline at end of file
+});
+describe('PrivacyService - Dot Details Encryption', () => {
+  const testUserId = 'test-user-id-12345';
+
+  it('should encrypt each detail separately and store missing ones as null', async () => {
+    const mockEncryptData = jest.spyOn(privacyService, 'encryptData');
+    mockEncryptData.mockImplementation(async (data: string) => ({ encrypted: `encrypted:${data}`, hash: 'hash' }));
+
+    const result = await privacyService.encryptDotDetails(
+      { owner: 'Sam', url: 'https://example.com/issues/1' },
+      testUserId
+    );
+
+    expect(result).toEqual({
+      description_encrypted: null,
+      owner_encrypted: 'encrypted:Sam',
+      url_encrypted: 'encrypted:https://example.com/issues/1',
+      due_date_encrypted: null,
+      tags_encrypted: null
+    });
+    expect(mockEncryptData).toHaveBeenCalledTimes(2);
+
+    mockEncryptData.mockRestore();
+  });
+
+  it('should decrypt only the details that are stored', async () => {
+    const mockDecryptData = jest.spyOn(privacyService, 'decryptData');
+    mockDecryptData.mockImplementation(async (data: string) => data.replace('encrypted:', ''));
+
+    const result = await privacyService.decryptDotDetails(
+      {
+        description_encrypted: 'encrypted:**Needs review**',
+        due_date_encrypted: 'encrypted:2026-11-03',
+        owner_encrypted: null,
+        tags_encrypted: 'encrypted:["checkout"]'
+      },
+      testUserId
+    );
+
+    expect(result).toEqual({ description: '**Needs review**', dueDate: '2026-11-03', tags: ['checkout'] });
+
+    mockDecryptData.mockRestore();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for scheduled snapshot due/change detection
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isSnapshotDue, haveDotsChanged, getScheduleDay, runScheduledSnapshots } from '../scheduledSnapshotService'
+import { privacyService } from '../privacyService'
+import { validateSnapshotSchedule } from '@/lib/validation'
+import { createMockSupabaseClient } from '@/lib/testing/mockSupabaseClient'
+import type { Dot } from '@/components/HillChartApp'
+
+jest.mock('../supabaseService')
+jest.mock('../privacyService')
+
+// Wednesday 2024-01-10 and Saturday 2024-01-13, local time
+const wednesday = new Date(2024, 0, 10, 9, 0)
+const saturday = new Date(2024, 0, 13, 9, 0)
+
+const dot: Dot = { id: 'dot-1', label: 'Checkout', x: 20, y: 40, color: '#3b82f6', size: 3, archived: false }
+
+describe('scheduledSnapshotService', () => {
+  describe('isSnapshotDue', () => {
+    it('should be due daily unless a snapshot was already taken today', () => {
+      expect(isSnapshotDue({ frequency: 'daily' }, '2024-01-09', wednesday)).toBe(true)
+      expect(isSnapshotDue({ frequency: 'daily' }, null, wednesday)).toBe(true)
+      expect(isSnapshotDue({ frequency: 'daily' }, '2024-01-10', wednesday)).toBe(false)
+    })
+
+    it('should skip weekends for weekday schedules', () => {
+      expect(isSnapshotDue({ frequency: 'weekdays' }, null, wednesday)).toBe(true)
+      expect(isSnapshotDue({ frequency: 'weekdays' }, null, saturday)).toBe(false)
+    })
+
+    it('should only be due on the chosen day for weekly schedules', () => {
+      expect(isSnapshotDue({ frequency: 'weekly', weekday: 3 }, null, wednesday)).toBe(true)
+      expect(isSnapshotDue({ frequency: 'weekly', weekday: 1 }, null, wednesday)).toBe(false)
+    })
+
+    it('should never be due when off', () => {
+      expect(isSnapshotDue({ frequency: 'off' }, null, wednesday)).toBe(false)
+    })
+
+    it('should count days in the schedule time zone', () => {
+      // Friday 23:30 in New York is already Saturday in UTC and in Auckland
+      const fridayNight = new Date('2024-01-13T04:30:00Z')
+
+      expect(isSnapshotDue({ frequency: 'weekdays', timeZone: 'America/New_York' }, null, fridayNight)).toBe(true)
+      expect(isSnapshotDue({ frequency: 'weekdays', timeZone: 'Pacific/Auckland' }, null, fridayNight)).toBe(false)
+      expect(isSnapshotDue({ frequency: 'daily', timeZone: 'America/New_York' }, '2024-01-12', fridayNight)).toBe(false)
+      expect(isSnapshotDue({ frequency: 'daily', timeZone: 'Pacific/Auckland' }, '2024-01-12', fridayNight)).toBe(true)
+    })
+  })
+
+  describe('getScheduleDay', () => {
+    it('should give the date and weekday in the time zone', () => {
+      const moment = new Date('2024-01-13T04:30:00Z')
+
+      expect(getScheduleDay(moment, 'America/New_York')).toEqual({ date: '2024-01-12', weekday: 5 })
+      expect(getScheduleDay(moment, 'Pacific/Auckland')).toEqual({ date: '2024-01-13', weekday: 6 })
+    })
+
+    it('should use local time without a time zone', () => {
+      expect(getScheduleDay(wednesday)).toEqual({ date: '2024-01-10', weekday: 3 })
+    })
+  })
+
+  describe('haveDotsChanged', () => {
+    it('should ignore dot order', () => {
+      const other = { ...dot, id: 'dot-2' }
+      expect(haveDotsChanged([dot, other], [other, dot])).toBe(false)
+    })
+
+    it('should detect moved, relabelled and added dots', () => {
+      expect(haveDotsChanged([dot], [{ ...dot, x: 30 }])).toBe(true)
+      expect(haveDotsChanged([dot], [{ ...dot, label: 'Payments' }])).toBe(true)
+      expect(haveDotsChanged([dot], [dot, { ...dot, id: 'dot-2' }])).toBe(true)
+    })
+
+    it('should treat a collection without snapshots as changed', () => {
+      expect(haveDotsChanged(null, [])).toBe(true)
+    })
+  })
+
+  describe('runScheduledSnapshots', () => {
+    const userId = '11111111-1111-4111-8111-111111111111'
+    const otherUserId = '22222222-2222-4222-8222-222222222222'
+
+    it('should clear each user key after their collection, also when it fails', async () => {
+      const db = createMockSupabaseClient()
+      db.reset({
+        collections: [
+          { id: 'col-a', user_id: userId, status: 'active', name_encrypted: 'enc', snapshot_schedule: { frequency: 'daily' } },
+          { id: 'col-b', user_id: otherUserId, status: 'active', name_encrypted: 'enc', snapshot_schedule: { frequency: 'daily' } },
+          { id: 'col-c', user_id: otherUserId, status: 'active', name_encrypted: 'enc', snapshot_schedule: null }
+        ],
+        snapshots: [],
+        dots: []
+      })
+      db.failNext('dots', 'select', 'connection lost')
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await runScheduledSnapshots(db as unknown as SupabaseClient, wednesday)
+
+      expect(result).toMatchObject({ checked: 2, created: 1, failed: 1 })
+      expect(jest.mocked(privacyService.clearUserKey).mock.calls).toEqual([[userId], [otherUserId]])
+      jest.restoreAllMocks()
+    })
+  })
+
+  describe('validateSnapshotSchedule', () => {
+    it('should keep the weekday only for weekly schedules', () => {
+      expect(validateSnapshotSchedule({ frequency: 'daily', weekday: 4 })).toEqual({ frequency: 'daily' })
+      expect(validateSnapshotSchedule({ frequency: 'weekly', weekday: 4 })).toEqual({ frequency: 'weekly', weekday: 4 })
+      expect(validateSnapshotSchedule({ frequency: 'weekly' })).toEqual({ frequency: 'weekly', weekday: 1 })
+    })
+
+    it('should keep a valid time zone and reject unknown ones', () => {
+      expect(validateSnapshotSchedule({ frequency: 'daily', timeZone: 'Europe/Berlin' }))
+        .toEqual({ frequency: 'daily', timeZone: 'Europe/Berlin' })
+      expect(validateSnapshotSchedule({ frequency: 'off', timeZone: 'Europe/Berlin' })).toEqual({ frequency: 'off' })
+      expect(() => validateSnapshotSchedule({ frequency: 'daily', timeZone: 'Mars/Olympus' })).toThrow('Invalid time zone')
+    })
+
+    it('should reject unknown frequencies and weekdays', () => {
+      expect(() => validateSnapshotSchedule({ frequency: 'hourly' })).toThrow('Invalid snapshot schedule frequency')
+      expect(() => validateSnapshotSchedule({ frequency: 'weekly', weekday: 7 })).toThrow('Number must be at most 6')
+    })
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Tests for the bulk dot operations in SimpleDataService
+ */
+
+import { simpleDataService } from '../simpleDataService'
+import * as supabaseService from '../supabaseService'
+import type { Dot } from '@/components/HillChartApp'
+
+// Mock the supabase service
+jest.mock('../supabaseService')
+
+const mockSupabaseService = supabaseService as jest.Mocked<typeof supabaseService>
+
+describe('SimpleDataService - Bulk dot operations', () => {
+  const userId = 'test-user-id'
+  const collectionId = 'test-collection-id'
+
+  const dots: Dot[] = [
+    { id: 'dot-1', label: 'Checkout', x: 20, y: 40, color: '#3b82f6', size: 3, archived: false },
+    { id: 'dot-2', label: 'Search', x: 70, y: 60, color: '#22c55e', size: 2, archived: false }
+  ]
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should save every dot with one update call', async () => {
+    mockSupabaseService.updateDots.mockResolvedValue(dots)
+
+    const result = await simpleDataService.updateDots(userId, collectionId, dots)
+
+    expect(mockSupabaseService.updateDots).toHaveBeenCalledTimes(1)
+    expect(mockSupabaseService.updateDots).toHaveBeenCalledWith(dots, collectionId, userId)
+    expect(mockSupabaseService.updateDot).not.toHaveBeenCalled()
+    expect(result).toEqual(dots)
+  })
+
+  it('should delete every dot with one call', async () => {
+    mockSupabaseService.deleteDots.mockResolvedValue(true)
+
+    const result = await simpleDataService.deleteDots(userId, collectionId, ['dot-1', 'dot-2'])
+
+    expect(mockSupabaseService.deleteDots).toHaveBeenCalledWith(['dot-1', 'dot-2'], collectionId, userId)
+    expect(mockSupabaseService.deleteDot).not.toHaveBeenCalled()
+    expect(result).toBe(true)
+  })
+
+  it('should keep the dot IDs when adding dots back', async () => {
+    mockSupabaseService.addDots.mockResolvedValue(dots)
+
+    await simpleDataService.addDots(userId, collectionId, dots)
+
+    expect(mockSupabaseService.addDots).toHaveBeenCalledWith(dots, collectionId, userId)
+  })
+
+  it('should move dots between collections with one call', async () => {
+    mockSupabaseService.moveDots.mockResolvedValue(null)
+
+    const result = await simpleDataService.moveDots(userId, collectionId, 'target-collection-id', dots)
+
+    expect(mockSupabaseService.moveDots).toHaveBeenCalledWith(dots, collectionId, 'target-collection-id', userId)
+    expect(result).toBeNull()
+  })
+
+  it('should return copies with the IDs they got in the target collection', async () => {
+    const copies = dots.map((dot, index) => ({ ...dot, id: `copy-${index}` }))
+    mockSupabaseService.copyDots.mockResolvedValue(copies)
+
+    const result = await simpleDataService.copyDots(userId, collectionId, 'target-collection-id', dots)
+
+    expect(mockSupabaseService.copyDots).toHaveBeenCalledWith(dots, collectionId, 'target-collection-id', userId)
+    expect(result).toEqual(copies)
+  })
+})
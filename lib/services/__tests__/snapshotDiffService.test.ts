@@ -0,0 +1,72 @@
+/**
+ * Tests for the snapshot diff service
+ */
+
+import { diffDots, formatDiffAsText } from '../snapshotDiffService'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+describe('snapshotDiffService', () => {
+  describe('diffDots', () => {
+    it('should classify moves by direction with the hill % delta', () => {
+      const diff = diffDots(
+        [makeDot({ id: 'a', x: 20 }), makeDot({ id: 'b', x: 70 }), makeDot({ id: 'c', x: 50 })],
+        [makeDot({ id: 'a', x: 45 }), makeDot({ id: 'b', x: 60 }), makeDot({ id: 'c', x: 50.2 })]
+      )
+
+      const byId = Object.fromEntries(diff.entries.map(entry => [entry.dotId, entry]))
+      expect(byId.a).toMatchObject({ status: 'forward', delta: 25 })
+      expect(byId.b).toMatchObject({ status: 'backward', delta: -10 })
+      expect(byId.c.status).toBe('unchanged')
+      expect(diff.entries[0].dotId).toBe('a')
+    })
+
+    it('should detect added, archived, removed and renamed dots', () => {
+      const diff = diffDots(
+        [
+          makeDot({ id: 'archived', x: 10 }),
+          makeDot({ id: 'removed', x: 10 }),
+          makeDot({ id: 'renamed', label: 'Old name', x: 30 }),
+          makeDot({ id: 'restored', archived: true })
+        ],
+        [
+          makeDot({ id: 'archived', x: 10, archived: true }),
+          makeDot({ id: 'renamed', label: 'New name', x: 30 }),
+          makeDot({ id: 'restored' }),
+          makeDot({ id: 'added' })
+        ]
+      )
+
+      expect(diff.summary).toEqual({
+        forward: 0,
+        backward: 0,
+        unchanged: 1,
+        added: 2,
+        archived: 1,
+        removed: 1,
+        renamed: 1
+      })
+      expect(diff.entries.find(entry => entry.renamed)).toMatchObject({
+        label: 'New name',
+        previousLabel: 'Old name'
+      })
+    })
+
+    it('should ignore dots archived on both sides', () => {
+      const dot = makeDot({ archived: true })
+      expect(diffDots([dot], [dot]).entries).toEqual([])
+    })
+  })
+
+  describe('formatDiffAsText', () => {
+    it('should group entries by status', () => {
+      const diff = diffDots(
+        [makeDot({ id: 'a', label: 'Checkout', x: 20 })],
+        [makeDot({ id: 'a', label: 'Checkout', x: 35 }), makeDot({ id: 'b', label: 'Search' })]
+      )
+
+      expect(formatDiffAsText(diff, '2024-01-01', 'Live')).toBe(
+        'Changes from 2024-01-01 to Live\n\nMoved forward (1)\n- Checkout +15%\n\nAdded (1)\n- Search'
+      )
+    })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Tests for the snapshot retention service
+ */
+
+import { selectSnapshotsToPrune, RetentionCandidate, DEFAULT_RETENTION_POLICY } from '../snapshotRetentionService'
+import { validateSnapshotRetentionPolicy, ValidationError } from '@/lib/validation'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = new Date(2024, 5, 30, 12).getTime()
+const policy = { ...DEFAULT_RETENTION_POLICY, enabled: true }
+
+const makeCandidate = (id: string, daysAgo: number, overrides: Partial<RetentionCandidate> = {}): RetentionCandidate => ({
+  id,
+  collectionId: 'collection-1',
+  timestamp: NOW - daysAgo * DAY_MS,
+  pinned: false,
+  named: false,
+  ...overrides
+})
+
+const prunedIds = (candidates: RetentionCandidate[], overrides = {}) =>
+  selectSnapshotsToPrune(candidates, { ...policy, ...overrides }, NOW).map(c => c.id).sort()
+
+describe('snapshotRetentionService', () => {
+  describe('selectSnapshotsToPrune', () => {
+    it('should keep every snapshot inside the keep-all window', () => {
+      expect(prunedIds([makeCandidate('a', 1), makeCandidate('b', 1.1), makeCandidate('c', 29)])).toEqual([])
+    })
+
+    it('should keep the newest snapshot per week and per month', () => {
+      const candidates = [
+        // Same week (Wed 2024-05-01 and Thu 2024-05-02)
+        makeCandidate('week-old', 60),
+        makeCandidate('week-new', 59),
+        // Same month, older than a year (2023-05)
+        makeCandidate('month-old', 410),
+        makeCandidate('month-new', 400)
+      ]
+
+      expect(prunedIds(candidates)).toEqual(['month-old', 'week-old'])
+    })
+
+    it('should remove old snapshots when monthly retention is off', () => {
+      expect(prunedIds([makeCandidate('a', 400)], { keepMonthly: false })).toEqual(['a'])
+    })
+
+    it('should never prune pinned or named snapshots and let them fill their bucket', () => {
+      const candidates = [
+        makeCandidate('pinned', 60, { pinned: true }),
+        makeCandidate('newer', 59),
+        makeCandidate('named', 500, { named: true })
+      ]
+
+      expect(prunedIds(candidates, { keepMonthly: false })).toEqual(['newer'])
+    })
+
+    it('should bucket each collection separately', () => {
+      const candidates = [
+        makeCandidate('a', 60),
+        makeCandidate('b', 59, { collectionId: 'collection-2' })
+      ]
+
+      expect(prunedIds(candidates)).toEqual([])
+    })
+
+    it('should prune nothing when the policy is disabled', () => {
+      expect(prunedIds([makeCandidate('a', 400)], { enabled: false, keepMonthly: false })).toEqual([])
+    })
+  })
+
+  describe('validateSnapshotRetentionPolicy', () => {
+    it('should round the windows and default missing fields', () => {
+      expect(validateSnapshotRetentionPolicy({ enabled: true, keepAllDays: 7.4 })).toEqual({
+        enabled: true,
+        keepAllDays: 7,
+        keepWeeklyDays: 365,
+        keepMonthly: true
+      })
+    })
+
+    it('should reject a weekly window shorter than the keep-all window', () => {
+      expect(() => validateSnapshotRetentionPolicy({ keepAllDays: 60, keepWeeklyDays: 30 })).toThrow(ValidationError)
+      expect(() => validateSnapshotRetentionPolicy({ keepAllDays: 0 })).toThrow(ValidationError)
+    })
+  })
+})
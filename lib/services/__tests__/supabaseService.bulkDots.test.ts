@@ -0,0 +1,186 @@
+/**
+ * Tests for the bulk dot operations in supabaseService, against an in-memory Supabase client
+ */
+
+import { updateDots, deleteDots, moveDots, copyDots } from '../supabaseService'
+import { supabase } from '../../supabaseClient'
+import type { MockRow, MockSupabaseClient } from '@/lib/testing/mockSupabaseClient'
+import type { Dot } from '@/components/HillChartApp'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+jest.mock('../../supabaseClient', () => ({
+  supabase: jest.requireActual('../../testing/mockSupabaseClient').createMockSupabaseClient()
+}))
+
+jest.mock('../privacyService', () => ({
+  privacyService: jest.requireActual('../../testing/mockPrivacyService').createMockPrivacyService()
+}))
+
+const db = supabase as unknown as MockSupabaseClient
+
+describe('supabaseService - Bulk dot operations', () => {
+  const userId = '11111111-1111-4111-8111-111111111111'
+  const otherUserId = '22222222-2222-4222-8222-222222222222'
+
+  const dotRow = (dot: Dot, collectionId: string, owner = userId): MockRow => ({
+    id: dot.id,
+    label_encrypted: `enc:${dot.label}`,
+    label_hash: `hash:${dot.label}`,
+    x: dot.x,
+    y: dot.y,
+    color: dot.color,
+    size: dot.size,
+    archived: dot.archived,
+    collection_id: collectionId,
+    user_id: owner
+  })
+
+  const checkout = makeDot({ id: 'dot-1', label: 'Checkout', x: 20, y: 40 })
+  const search = makeDot({ id: 'dot-2', label: 'Search', x: 70, y: 60 })
+
+  // [dot ID, label] of the stored dots in a collection
+  const storedDots = (collectionId: string) =>
+    db.tables.dots
+      .filter((row) => row.collection_id === collectionId)
+      .map((row) => [row.id, row.label_encrypted.replace(/^enc:/, '')])
+
+  const history = () =>
+    db.tables.dot_history.map((row) => [row.collection_id, row.dot_id, row.change_type])
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    db.reset({
+      collections: [
+        { id: 'col-a', user_id: userId },
+        { id: 'col-b', user_id: userId },
+        { id: 'col-other', user_id: otherUserId }
+      ],
+      dots: [dotRow(checkout, 'col-a'), dotRow(search, 'col-a')],
+      dot_history: []
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('updateDots', () => {
+    it('should save the dots in one upsert and record what changed', async () => {
+      const result = await updateDots([{ ...checkout, x: 55 }, search], 'col-a', userId)
+
+      expect(result).toEqual([{ ...checkout, x: 55 }, search])
+      expect(db.tables.dots.find((row) => row.id === 'dot-1')?.x).toBe(55)
+      expect(db.tables.dots).toHaveLength(2)
+      // Search did not change, so only Checkout gets an entry
+      expect(history()).toEqual([['col-a', 'dot-1', 'updated']])
+    })
+
+    it('should refuse unknown dot IDs without writing anything', async () => {
+      await expect(updateDots([{ ...checkout, x: 55 }, makeDot({ id: 'dot-9' })], 'col-a', userId))
+        .rejects.toThrow('Dot not found in collection')
+
+      expect(db.tables.dots.find((row) => row.id === 'dot-1')?.x).toBe(20)
+      expect(db.tables.dots.some((row) => row.id === 'dot-9')).toBe(false)
+      expect(history()).toEqual([])
+    })
+
+    it('should not update a dot with the same ID in another collection', async () => {
+      await expect(updateDots([{ ...checkout, x: 55 }], 'col-b', userId)).rejects.toThrow('Dot not found in collection')
+
+      expect(storedDots('col-b')).toEqual([])
+    })
+  })
+
+  describe('deleteDots', () => {
+    it('should delete the given dots of the collection and record them by label', async () => {
+      db.tables.dots.push(dotRow(checkout, 'col-b'))
+
+      await expect(deleteDots(['dot-1'], 'col-a', userId)).resolves.toBe(true)
+
+      expect(storedDots('col-a')).toEqual([['dot-2', 'Search']])
+      expect(storedDots('col-b')).toEqual([['dot-1', 'Checkout']])
+      expect(db.tables.dot_history.map((row) => row.entry_encrypted)).toEqual([
+        'enc:' + JSON.stringify({ label: 'Checkout', changes: [] })
+      ])
+    })
+
+    it('should leave the dots when the delete fails', async () => {
+      db.failNext('dots', 'delete', 'connection lost')
+
+      await expect(deleteDots(['dot-1', 'dot-2'], 'col-a', userId)).rejects.toThrow('connection lost')
+
+      expect(storedDots('col-a')).toHaveLength(2)
+      expect(history()).toEqual([])
+    })
+  })
+
+  describe('moveDots and copyDots', () => {
+    it('should move dots with their IDs and record them leaving and arriving', async () => {
+      const moved = await moveDots([checkout], 'col-a', 'col-b', userId)
+
+      expect(moved).toEqual([checkout])
+      expect(storedDots('col-a')).toEqual([['dot-2', 'Search']])
+      expect(storedDots('col-b')).toEqual([['dot-1', 'Checkout']])
+      expect(history()).toEqual([
+        ['col-a', 'dot-1', 'deleted'],
+        ['col-b', 'dot-1', 'created']
+      ])
+    })
+
+    it('should give a moved dot a new ID when the target already has its ID', async () => {
+      db.tables.dots.push(dotRow(makeDot({ id: 'dot-1', label: 'Billing' }), 'col-b'))
+
+      const moved = await moveDots([checkout], 'col-a', 'col-b', userId)
+
+      expect(moved?.[0].id).not.toBe('dot-1')
+      expect(storedDots('col-b')).toEqual([['dot-1', 'Billing'], [moved?.[0].id, 'Checkout']])
+      expect(storedDots('col-a')).toEqual([['dot-2', 'Search']])
+    })
+
+    it('should give a moved dot a new ID when another collection of the user has its ID', async () => {
+      db.tables.collections.push({ id: 'col-c', user_id: userId })
+      db.tables.dots.push(dotRow(makeDot({ id: 'dot-1', label: 'Billing' }), 'col-c'))
+
+      const moved = await moveDots([checkout], 'col-a', 'col-b', userId)
+
+      expect(moved?.[0].id).not.toBe('dot-1')
+      expect(storedDots('col-b')).toEqual([[moved?.[0].id, 'Checkout']])
+      expect(storedDots('col-c')).toEqual([['dot-1', 'Billing']])
+    })
+
+    it('should keep the ID when only another user has a dot with it', async () => {
+      db.tables.dots.push(dotRow(makeDot({ id: 'dot-1', label: 'Theirs' }), 'col-other', otherUserId))
+
+      const moved = await moveDots([checkout], 'col-a', 'col-b', userId)
+
+      expect(moved).toEqual([checkout])
+    })
+
+    it('should give copies new IDs and leave the originals', async () => {
+      const copies = await copyDots([checkout, search], 'col-a', 'col-b', userId)
+
+      expect(copies?.map((dot) => dot.id)).not.toContain('dot-1')
+      expect(copies?.map((dot) => dot.label)).toEqual(['Checkout', 'Search'])
+      expect(storedDots('col-a')).toHaveLength(2)
+      expect(storedDots('col-b')).toHaveLength(2)
+    })
+
+    it('should take the inserted dots out of the target again when removing them from the source fails', async () => {
+      db.failNext('dots', 'delete', 'connection lost')
+
+      await expect(moveDots([checkout], 'col-a', 'col-b', userId)).rejects.toThrow('connection lost')
+
+      expect(storedDots('col-a')).toEqual([['dot-1', 'Checkout'], ['dot-2', 'Search']])
+      expect(storedDots('col-b')).toEqual([])
+      expect(history()).toEqual([])
+    })
+
+    it('should refuse a collection the user does not own', async () => {
+      await expect(moveDots([checkout], 'col-a', 'col-other', userId))
+        .rejects.toThrow('Collection not found or not owned by user')
+
+      expect(storedDots('col-a')).toHaveLength(2)
+    })
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * Tests for fetchLatestSnapshotDates, against an in-memory Supabase client
+ */
+
+import { fetchLatestSnapshotDates } from '../supabaseService'
+import { supabase } from '../../supabaseClient'
+import type { MockSupabaseClient } from '@/lib/testing/mockSupabaseClient'
+
+jest.mock('../../supabaseClient', () => ({
+  supabase: jest.requireActual('../../testing/mockSupabaseClient').createMockSupabaseClient()
+}))
+
+const db = supabase as unknown as MockSupabaseClient
+
+describe('supabaseService - fetchLatestSnapshotDates', () => {
+  const userId = '11111111-1111-4111-8111-111111111111'
+  const otherUserId = '22222222-2222-4222-8222-222222222222'
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    db.reset({ snapshots: [] })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should group in the database instead of reading every snapshot row', async () => {
+    const from = jest.spyOn(db, 'from')
+
+    await fetchLatestSnapshotDates(userId)
+
+    expect(from).not.toHaveBeenCalled()
+  })
+
+  it('should return the latest date of each collection of the user', async () => {
+    // More rows than one API response returns
+    db.tables.snapshots = Array.from({ length: 1200 }, (_, index) => ({
+      user_id: userId,
+      collection_id: 'col-a',
+      snapshot_date: `2026-0${1 + (index % 9)}-15`
+    }))
+    db.tables.snapshots.push(
+      { user_id: userId, collection_id: 'col-b', snapshot_date: '2025-12-01' },
+      { user_id: otherUserId, collection_id: 'col-c', snapshot_date: '2026-10-01' }
+    )
+
+    await expect(fetchLatestSnapshotDates(userId)).resolves.toEqual({
+      'col-a': '2026-09-15',
+      'col-b': '2025-12-01'
+    })
+  })
+
+  it('should throw when the query fails', async () => {
+    db.failNext('get_latest_snapshot_dates', 'rpc', 'connection lost')
+
+    await expect(fetchLatestSnapshotDates(userId)).rejects.toThrow('connection lost')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Tests for restoring a snapshot into its live collection, against an in-memory Supabase client
+ */
+
+import { createSnapshot, restoreSnapshot } from '../supabaseService'
+import { supabase } from '../../supabaseClient'
+import type { MockRow, MockSupabaseClient } from '@/lib/testing/mockSupabaseClient'
+import type { Dot } from '@/components/HillChartApp'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+jest.mock('../../supabaseClient', () => ({
+  supabase: jest.requireActual('../../testing/mockSupabaseClient').createMockSupabaseClient()
+}))
+
+jest.mock('../privacyService', () => ({
+  privacyService: jest.requireActual('../../testing/mockPrivacyService').createMockPrivacyService()
+}))
+
+const db = supabase as unknown as MockSupabaseClient
+
+describe('supabaseService - restoreSnapshot', () => {
+  const userId = '11111111-1111-4111-8111-111111111111'
+  const releaseLineConfig = { enabled: true, color: '#ff00ff', text: 'v1' }
+
+  const dotRow = (dot: Dot, collectionId: string): MockRow => ({
+    id: dot.id,
+    label_encrypted: `enc:${dot.label}`,
+    label_hash: `hash:${dot.label}`,
+    x: dot.x,
+    y: dot.y,
+    color: dot.color,
+    size: dot.size,
+    archived: dot.archived,
+    collection_id: collectionId,
+    user_id: userId
+  })
+
+  const checkout = makeDot({ id: 'dot-1', label: 'Checkout', x: 20, y: 40 })
+  const search = makeDot({ id: 'dot-2', label: 'Search', x: 70, y: 60 })
+  const billing = makeDot({ id: 'dot-3', label: 'Billing', x: 10, y: 10 })
+
+  // [dot ID, label] of the stored dots in a collection
+  const storedDots = (collectionId: string) =>
+    db.tables.dots
+      .filter((row) => row.collection_id === collectionId)
+      .map((row) => [row.id, row.label_encrypted.replace(/^enc:/, '')])
+
+  // Snapshot of col-a with Checkout and Search, taken before the live dots changed
+  const takeSnapshot = async () => {
+    await createSnapshot(userId, 'col-a', 'Roadmap', [checkout, search], releaseLineConfig)
+    return db.tables.snapshots[0].id
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    db.reset({
+      collections: [
+        { id: 'col-a', user_id: userId, name_encrypted: 'enc:Roadmap', name_hash: 'hash:Roadmap', status: 'active' },
+        { id: 'col-b', user_id: userId, name_encrypted: 'enc:Later', name_hash: 'hash:Later', status: 'active' }
+      ],
+      dots: [],
+      snapshots: [],
+      dot_history: []
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should record the dots it removed, brought back and changed', async () => {
+    const snapshotId = await takeSnapshot()
+    db.tables.dots.push(dotRow({ ...checkout, x: 55 }, 'col-a'), dotRow(billing, 'col-a'))
+
+    const restored = await restoreSnapshot(userId, snapshotId)
+
+    expect(restored?.dots).toEqual([checkout, search])
+    expect(storedDots('col-a')).toEqual([['dot-1', 'Checkout'], ['dot-2', 'Search']])
+    expect(db.tables.dot_history.map((row) => [row.dot_id, row.change_type])).toEqual([
+      ['dot-3', 'deleted'],
+      ['dot-1', 'updated'],
+      ['dot-2', 'created']
+    ])
+  })
+
+  it('should give a dot a new ID when another collection now has its ID', async () => {
+    const snapshotId = await takeSnapshot()
+    // Search was moved to col-b after the snapshot
+    db.tables.dots.push(dotRow(checkout, 'col-a'), dotRow(search, 'col-b'))
+
+    const restored = await restoreSnapshot(userId, snapshotId)
+
+    const restoredSearch = restored?.dots.find((dot) => dot.label === 'Search')
+    expect(restoredSearch?.id).not.toBe('dot-2')
+    expect(storedDots('col-a')).toEqual([['dot-1', 'Checkout'], [restoredSearch?.id, 'Search']])
+    expect(storedDots('col-b')).toEqual([['dot-2', 'Search']])
+  })
+
+  it('should put the live dots back when the release line config cannot be saved', async () => {
+    const snapshotId = await takeSnapshot()
+    db.tables.dots.push(dotRow(billing, 'col-a'))
+    db.failNext('collections', 'update', 'connection lost')
+
+    await expect(restoreSnapshot(userId, snapshotId)).rejects.toThrow('Failed to restore release line configuration')
+
+    expect(storedDots('col-a')).toEqual([['dot-3', 'Billing']])
+    expect(db.tables.collections[0]).not.toHaveProperty('release_line_config_encrypted')
+    expect(db.tables.dot_history).toEqual([])
+  })
+})
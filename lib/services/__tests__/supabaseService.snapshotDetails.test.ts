@@ -0,0 +1,121 @@
+import { validateSnapshotDetails, validateSnapshotMonth, validateImportData } from '@/lib/validation'
+import { createSnapshot, loadSnapshot, fetchSnapshotSummaries } from '../supabaseService'
+import { privacyService } from '../privacyService'
+import { supabase } from '../../supabaseClient'
+import type { MockSupabaseClient } from '@/lib/testing/mockSupabaseClient'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+jest.mock('../../supabaseClient', () => ({
+  supabase: jest.requireActual('../../testing/mockSupabaseClient').createMockSupabaseClient()
+}))
+
+jest.mock('../privacyService', () => ({
+  privacyService: jest.requireActual('../../testing/mockPrivacyService').createMockPrivacyService()
+}))
+
+const db = supabase as unknown as MockSupabaseClient
+
+describe('Snapshot name and note', () => {
+  describe('validateSnapshotDetails', () => {
+    it('should keep a trimmed name and note', () => {
+      const result = validateSnapshotDetails({ name: '  Sprint 12 review ', note: 'Before the demo' })
+
+      expect(result).toEqual({ name: 'Sprint 12 review', note: 'Before the demo' })
+    })
+
+    it('should drop empty or missing values', () => {
+      expect(validateSnapshotDetails({ name: '   ', note: '' })).toEqual({})
+      expect(validateSnapshotDetails(undefined)).toEqual({})
+    })
+
+    it('should limit the name to 100 characters', () => {
+      expect(() => validateSnapshotDetails({ name: 'a'.repeat(101) })).toThrow('Input too long. Maximum 100 characters allowed')
+    })
+
+    it('should limit the note to 1000 characters', () => {
+      expect(() => validateSnapshotDetails({ note: 'a'.repeat(1001) })).toThrow('Input too long. Maximum 1000 characters allowed')
+    })
+  })
+
+  describe('saving and loading', () => {
+    const userId = '11111111-1111-4111-8111-111111111111'
+    const dots = [makeDot({ label: 'Checkout', x: 40 })]
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      db.reset({ snapshots: [] })
+    })
+
+    it('should store the name and note encrypted and load them back', async () => {
+      await createSnapshot(userId, 'collection-1', 'Collection', dots, undefined, {
+        name: ' Sprint 12 review ',
+        note: 'Before the demo'
+      })
+
+      const [row] = db.tables.snapshots
+      expect(row.name_encrypted).toBe('enc:Sprint 12 review')
+      expect(row.note_encrypted).toBe('enc:Before the demo')
+      expect(JSON.stringify(row)).not.toMatch(/"(name|note)":/)
+
+      const snapshot = await loadSnapshot(userId, row.id)
+      expect(snapshot).toMatchObject({ name: 'Sprint 12 review', note: 'Before the demo', collectionName: 'Collection', dots })
+    })
+
+    it('should leave out blank details', async () => {
+      await createSnapshot(userId, 'collection-1', 'Collection', dots, undefined, { name: '  ', note: '' })
+
+      const [row] = db.tables.snapshots
+      expect(row).not.toHaveProperty('name_encrypted')
+      expect(row).not.toHaveProperty('note_encrypted')
+
+      const snapshot = await loadSnapshot(userId, row.id)
+      expect(snapshot).not.toHaveProperty('name')
+      expect(snapshot).not.toHaveProperty('note')
+    })
+
+    it('should decrypt summary details only for snapshots that have them', async () => {
+      await createSnapshot(userId, 'collection-1', 'Collection', dots, undefined, { name: 'Kickoff' })
+      await createSnapshot(userId, 'collection-1', 'Collection', dots)
+      jest.mocked(privacyService.decryptData).mockClear()
+
+      const summaries = await fetchSnapshotSummaries(userId, { collectionId: 'collection-1' })
+
+      expect(summaries.map((summary) => summary.name)).toEqual(expect.arrayContaining(['Kickoff', undefined]))
+      expect(privacyService.decryptData).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refuse a name over 100 characters without saving', async () => {
+      await expect(createSnapshot(userId, 'collection-1', 'Collection', dots, undefined, { name: 'a'.repeat(101) }))
+        .rejects.toThrow('Input too long')
+
+      expect(db.tables.snapshots).toEqual([])
+    })
+  })
+
+  describe('validateSnapshotMonth', () => {
+    it('should accept YYYY-MM months only', () => {
+      expect(validateSnapshotMonth('2024-12')).toBe('2024-12')
+      expect(() => validateSnapshotMonth('2024-13')).toThrow('Month must be in YYYY-MM format')
+      expect(() => validateSnapshotMonth('2024-1')).toThrow('Month must be in YYYY-MM format')
+    })
+  })
+
+  describe('validateImportData', () => {
+    it('should carry snapshot name and note through import', () => {
+      const result = validateImportData({
+        collections: [{ id: 'collection-1', name: 'Collection', dots: [] }],
+        snapshots: [{
+          date: '2024-01-01',
+          collectionId: 'collection-1',
+          collectionName: 'Collection',
+          dots: [],
+          timestamp: 1704067200000,
+          name: 'Kickoff',
+          note: 'Initial plan'
+        }]
+      })
+
+      expect(result.snapshots[0]).toMatchObject({ name: 'Kickoff', note: 'Initial plan' })
+    })
+  })
+})
@@ -103,6 +103,15 @@ export const INVALIDATION_RULES: Record<string, InvalidationRule[]> = {
     }
   ],
 
+  'snapshot:restore': [
+    {
+      trigger: 'mutation',
+      pattern: '*:collection:*',
+      entityTypes: ['collection', 'dot', 'snapshot'],
+      cascadeRules: ['*:collections*', '*:dots:*', '*:snapshots*']
+    }
+  ],
+
   // User preference operations
   'preferences:update': [
     {
@@ -9,7 +9,8 @@ import { getCacheManager } from './cacheService'
 import * as supabaseService from './supabaseService'
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Collection, Dot, Snapshot, ExportData, ReleaseLineConfig } from '@/components/HillChartApp'
+import { Collection, Dot, Snapshot, SnapshotSummary, ExportData, ReleaseLineConfig, SnapshotRetentionPolicy } from '@/components/HillChartApp'
+import type { RetentionCandidate } from './snapshotRetentionService'
 
 // User preferences interface
 export interface UserPreferences {
@@ -29,8 +30,14 @@ const CacheKeys = {
   collection: (userId: string, collectionId: string) =>
     `user:${userId}:collection:${collectionId}`,
 
-  snapshots: (userId: string) =>
-    `user:${userId}:snapshots`,
+  snapshots: (userId: string, query: supabaseService.SnapshotSummaryQuery = {}) =>
+    `user:${userId}:snapshots:${query.month || 'all'}:${query.collectionId || 'all'}`,
+
+  latestSnapshotDates: (userId: string) =>
+    `user:${userId}:snapshots:latest`,
+
+  snapshot: (userId: string, snapshotId: string) =>
+    `user:${userId}:snapshot:${snapshotId}`,
 
   userPreferences: (userId: string) =>
     `user:${userId}:preferences`,
@@ -47,6 +54,12 @@ const CacheTTL = {
   shortLived: 2 * 60 * 1000         // 2 minutes for frequently changing data
 }
 
+// Current calendar month in YYYY-MM format, local time
+const getCurrentMonth = (): string => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+}
+
 // Options for data fetching
 export interface FetchOptions {
   forceRefresh?: boolean
@@ -329,10 +342,11 @@ export class CachedDataService {
     collectionId: string,
     collectionName: string,
     dots: Dot[],
-    releaseLineConfig?: ReleaseLineConfig
+    releaseLineConfig?: ReleaseLineConfig,
+    details?: Pick<Snapshot, 'name' | 'note'>
   ): Promise<boolean> {
     try {
-      const result = await supabaseService.createSnapshot(userId, collectionId, collectionName, dots, releaseLineConfig)
+      const result = await supabaseService.createSnapshot(userId, collectionId, collectionName, dots, releaseLineConfig, details)
 
       if (result) {
         // Invalidate snapshots cache
@@ -346,38 +360,52 @@ export class CachedDataService {
     }
   }
 
-  async fetchSnapshots(userId: string, options: FetchOptions = {}): Promise<Snapshot[]> {
+  // Full snapshots with dots are only needed for export, so they are not cached
+  async fetchSnapshots(userId: string): Promise<Snapshot[]> {
+    try {
+      return await supabaseService.fetchSnapshots(userId)
+    } catch (error) {
+      console.error('[CACHED_DATA] Failed to fetch snapshots:', error)
+      throw error
+    }
+  }
+
+  async fetchSnapshotSummaries(
+    userId: string,
+    query: supabaseService.SnapshotSummaryQuery = {},
+    options: FetchOptions = {}
+  ): Promise<SnapshotSummary[]> {
     const { forceRefresh = false, useCache = true, ttl = CacheTTL.snapshots } = options
-    const cacheKey = CacheKeys.snapshots(userId)
+    const cacheKey = CacheKeys.snapshots(userId, query)
 
     try {
       // Check cache first unless force refresh is requested
       if (useCache && !forceRefresh) {
-        const cached = await this.getCacheManager().get<Snapshot[]>(cacheKey)
+        const cached = await this.getCacheManager().get<SnapshotSummary[]>(cacheKey)
         if (cached) {
-          console.log(`[CACHED_DATA] Cache hit for snapshots: ${cacheKey}`)
+          console.log(`[CACHED_DATA] Cache hit for snapshot summaries: ${cacheKey}`)
           return cached
         }
       }
 
       // Fetch from database
-      console.log(`[CACHED_DATA] Fetching snapshots from database: ${cacheKey}`)
-      const snapshots = await supabaseService.fetchSnapshots(userId)
+      console.log(`[CACHED_DATA] Fetching snapshot summaries from database: ${cacheKey}`)
+      const summaries = await supabaseService.fetchSnapshotSummaries(userId, query)
 
       // Cache the result
       if (useCache) {
-        await this.getCacheManager().set(cacheKey, snapshots, ttl)
+        await this.getCacheManager().set(cacheKey, summaries, ttl)
       }
 
-      return snapshots
+      return summaries
     } catch (error) {
-      console.error('[CACHED_DATA] Failed to fetch snapshots:', error)
+      console.error('[CACHED_DATA] Failed to fetch snapshot summaries:', error)
 
       // Try to return stale cache data as fallback
       if (useCache) {
-        const staleData = await this.getCacheManager().get<Snapshot[]>(cacheKey)
+        const staleData = await this.getCacheManager().get<SnapshotSummary[]>(cacheKey)
         if (staleData) {
-          console.warn('[CACHED_DATA] Returning stale cache data for snapshots')
+          console.warn('[CACHED_DATA] Returning stale cache data for snapshot summaries')
           return staleData
         }
       }
@@ -386,11 +414,53 @@ export class CachedDataService {
     }
   }
 
-  async loadSnapshot(userId: string, snapshotId: string): Promise<Snapshot | null> {
+  async fetchLatestSnapshotDates(userId: string, options: FetchOptions = {}): Promise<Record<string, string>> {
+    const { forceRefresh = false, useCache = true, ttl = CacheTTL.snapshots } = options
+    const cacheKey = CacheKeys.latestSnapshotDates(userId)
+
     try {
-      // Snapshots are typically loaded once, so we don't cache individual snapshots
-      // but we could add caching here if needed
-      return await supabaseService.loadSnapshot(userId, snapshotId)
+      if (useCache && !forceRefresh) {
+        const cached = await this.getCacheManager().get<Record<string, string>>(cacheKey)
+        if (cached) {
+          console.log(`[CACHED_DATA] Cache hit for latest snapshot dates: ${cacheKey}`)
+          return cached
+        }
+      }
+
+      const latestDates = await supabaseService.fetchLatestSnapshotDates(userId)
+
+      if (useCache) {
+        await this.getCacheManager().set(cacheKey, latestDates, ttl)
+      }
+
+      return latestDates
+    } catch (error) {
+      console.error('[CACHED_DATA] Failed to fetch latest snapshot dates:', error)
+      throw error
+    }
+  }
+
+  // Snapshot contents never change once taken, so each opened snapshot is cached on its own
+  async loadSnapshot(userId: string, snapshotId: string, options: FetchOptions = {}): Promise<Snapshot | null> {
+    const { forceRefresh = false, useCache = true, ttl = CacheTTL.snapshots } = options
+    const cacheKey = CacheKeys.snapshot(userId, snapshotId)
+
+    try {
+      if (useCache && !forceRefresh) {
+        const cached = await this.getCacheManager().get<Snapshot>(cacheKey)
+        if (cached) {
+          console.log(`[CACHED_DATA] Cache hit for snapshot: ${cacheKey}`)
+          return cached
+        }
+      }
+
+      const snapshot = await supabaseService.loadSnapshot(userId, snapshotId)
+
+      if (snapshot && useCache) {
+        await this.getCacheManager().set(cacheKey, snapshot, ttl)
+      }
+
+      return snapshot
     } catch (error) {
       console.error('[CACHED_DATA] Failed to load snapshot:', error)
       throw error
@@ -413,6 +483,52 @@ export class CachedDataService {
     }
   }
 
+  async setSnapshotPinned(userId: string, snapshotId: string, pinned: boolean): Promise<boolean> {
+    try {
+      const result = await supabaseService.setSnapshotPinned(userId, snapshotId, pinned)
+
+      if (result) {
+        await this.getCacheManager().invalidateByOperation('snapshot:delete', userId, snapshotId, 'snapshot')
+      }
+
+      return result
+    } catch (error) {
+      console.error('[CACHED_DATA] Failed to pin snapshot:', error)
+      throw error
+    }
+  }
+
+  async pruneSnapshots(userId: string, policy: SnapshotRetentionPolicy, dryRun: boolean = false): Promise<RetentionCandidate[]> {
+    try {
+      const pruned = await supabaseService.pruneSnapshots(userId, policy, dryRun)
+
+      if (!dryRun && pruned.length > 0) {
+        await this.getCacheManager().invalidateByOperation('snapshot:delete', userId, pruned[0].id, 'snapshot')
+      }
+
+      return pruned
+    } catch (error) {
+      console.error('[CACHED_DATA] Failed to prune snapshots:', error)
+      throw error
+    }
+  }
+
+  async restoreSnapshot(userId: string, snapshotId: string): Promise<Collection | null> {
+    try {
+      const result = await supabaseService.restoreSnapshot(userId, snapshotId)
+
+      if (result) {
+        // Restoring rewrites the collection's dots and adds a safety snapshot
+        await this.getCacheManager().invalidateByOperation('snapshot:restore', userId, result.id, 'collection')
+      }
+
+      return result
+    } catch (error) {
+      console.error('[CACHED_DATA] Failed to restore snapshot:', error)
+      throw error
+    }
+  }
+
   // User preferences operations
   async fetchUserPreferences(userId: string, options: FetchOptions = {}): Promise<UserPreferences | null> {
     const { forceRefresh = false, useCache = true, ttl = CacheTTL.userPreferences } = options
@@ -497,7 +613,7 @@ export class CachedDataService {
 
       // Pre-populate cache with fresh data
       await this.fetchCollections(userId, false, { forceRefresh: true })
-      await this.fetchSnapshots(userId, { forceRefresh: true })
+      await this.fetchSnapshotSummaries(userId, { month: getCurrentMonth() }, { forceRefresh: true })
       await this.fetchUserPreferences(userId, { forceRefresh: true })
 
       console.log(`[CACHED_DATA] Cache refresh complete for user: ${userId}`)
@@ -525,7 +641,7 @@ export class CachedDataService {
     try {
       const [collectionsValid, snapshotsValid, preferencesValid] = await Promise.all([
         this.getCacheManager().validateFreshness(CacheKeys.collections(userId)),
-        this.getCacheManager().validateFreshness(CacheKeys.snapshots(userId)),
+        this.getCacheManager().validateFreshness(CacheKeys.snapshots(userId, { month: getCurrentMonth() })),
         this.getCacheManager().validateFreshness(CacheKeys.userPreferences(userId))
       ])
 
@@ -569,8 +685,13 @@ export const updateDot = cachedDataService.updateDot.bind(cachedDataService)
 export const deleteDot = cachedDataService.deleteDot.bind(cachedDataService)
 export const createSnapshot = cachedDataService.createSnapshot.bind(cachedDataService)
 export const fetchSnapshots = cachedDataService.fetchSnapshots.bind(cachedDataService)
+export const fetchSnapshotSummaries = cachedDataService.fetchSnapshotSummaries.bind(cachedDataService)
+export const fetchLatestSnapshotDates = cachedDataService.fetchLatestSnapshotDates.bind(cachedDataService)
 export const loadSnapshot = cachedDataService.loadSnapshot.bind(cachedDataService)
 export const deleteSnapshot = cachedDataService.deleteSnapshot.bind(cachedDataService)
+export const restoreSnapshot = cachedDataService.restoreSnapshot.bind(cachedDataService)
+export const setSnapshotPinned = cachedDataService.setSnapshotPinned.bind(cachedDataService)
+export const pruneSnapshots = cachedDataService.pruneSnapshots.bind(cachedDataService)
 export const fetchUserPreferences = cachedDataService.fetchUserPreferences.bind(cachedDataService)
 export const importData = cachedDataService.importData.bind(cachedDataService)
 export const resetAllCollections = cachedDataService.resetAllCollections.bind(cachedDataService)
@@ -0,0 +1,55 @@
+/**
+ * Dot History Service - Work out and describe the changes recorded in the dot history
+ *
+ * Pure helpers: supabaseService records the entries when dots are added, updated or
+ * deleted, and the timeline and activity feed use the descriptions.
+ */
+
+import type { Dot, DotHistoryChange, DotHistoryEntry, DotHistoryField } from '@/components/HillChartApp'
+
+// Fields the audit trail follows, in the order they are described
+export const DOT_HISTORY_FIELDS: DotHistoryField[] = ['label', 'x', 'color', 'size', 'archived']
+
+/**
+ * Fields that differ between the stored dot and its update; positions are compared to one decimal
+ */
+export const diffDotForHistory = (previous: Dot, next: Dot): DotHistoryChange[] =>
+  DOT_HISTORY_FIELDS.flatMap((field): DotHistoryChange[] => {
+    const from = field === 'x' ? Math.round(previous.x * 10) / 10 : previous[field]
+    const to = field === 'x' ? Math.round(next.x * 10) / 10 : next[field]
+    return from === to ? [] : [{ field, from, to }]
+  })
+
+/**
+ * Changes recorded when a dot is created, so its timeline starts from where it was placed
+ */
+export const getCreatedDotChanges = (dot: Dot): DotHistoryChange[] => [
+  { field: 'x', from: dot.x, to: dot.x }
+]
+
+const formatPosition = (value: DotHistoryChange['to']) => `${Math.round(Number(value))}%`
+
+/**
+ * One-line description of a change, e.g. "Moved from 20% to 45%"
+ */
+export const describeDotHistoryChange = (change: DotHistoryChange): string => {
+  switch (change.field) {
+    case 'x': return `Moved from ${formatPosition(change.from)} to ${formatPosition(change.to)}`
+    case 'label': return `Renamed from "${change.from}" to "${change.to}"`
+    case 'color': return `Color changed from ${change.from} to ${change.to}`
+    case 'size': return `Size changed from ${change.from} to ${change.to}`
+    case 'archived': return change.to ? 'Archived' : 'Unarchived'
+  }
+}
+
+/**
+ * Descriptions of everything an entry records
+ */
+export const describeDotHistoryEntry = (entry: DotHistoryEntry): string[] => {
+  if (entry.type === 'created') {
+    const position = entry.changes.find(change => change.field === 'x')
+    return [position ? `Added at ${formatPosition(position.to)}` : 'Added']
+  }
+  if (entry.type === 'deleted') return ['Deleted']
+  return entry.changes.map(describeDotHistoryChange)
+}
@@ -0,0 +1,120 @@
+/**
+ * Dot Rules Service - Evaluate a collection's automatic dot styling rules
+ *
+ * Pure rule evaluation; HillChartApp runs position rules when a drag ends and
+ * "unmoved" rules after a snapshot is taken, then saves the changes with updateDot.
+ */
+
+import type { Dot, DotRule, DotRuleAction, DotRuleCondition, DotStylingConfig } from '@/components/HillChartApp'
+
+// Reproduces the drag behavior from before rules existed:
+// over the top turns green, reaching the end turns small and purple
+export const DEFAULT_DOT_RULES: DotRule[] = [
+  {
+    id: 'over-the-top',
+    enabled: true,
+    condition: { type: 'position', operator: 'gt', value: 50 },
+    actions: [
+      { type: 'setColor', color: '#22c55e' },
+      { type: 'setSize', size: 3 }
+    ]
+  },
+  {
+    id: 'done',
+    enabled: true,
+    condition: { type: 'position', operator: 'eq', value: 100 },
+    actions: [
+      { type: 'setColor', color: '#8b5cf6' },
+      { type: 'setSize', size: 1 }
+    ]
+  }
+]
+
+export const DEFAULT_DOT_STYLING: DotStylingConfig = {
+  enabled: true,
+  rules: DEFAULT_DOT_RULES
+}
+
+/**
+ * Positions of one dot in the most recent snapshots, oldest first;
+ * undefined where the dot was not in the snapshot
+ */
+export type DotPositionHistory = Array<number | undefined>
+
+const matchesCondition = (dot: Dot, condition: DotRuleCondition, history: DotPositionHistory): boolean => {
+  if (condition.type === 'unmoved') {
+    const recent = history.slice(-condition.snapshots)
+    return recent.length === condition.snapshots && recent.every(x => x === dot.x)
+  }
+
+  switch (condition.operator) {
+    case 'gt': return dot.x > condition.value
+    case 'gte': return dot.x >= condition.value
+    case 'lt': return dot.x < condition.value
+    case 'lte': return dot.x <= condition.value
+    case 'eq': return dot.x === condition.value
+  }
+}
+
+const applyAction = (dot: Dot) => (updates: Partial<Dot>, action: DotRuleAction): Partial<Dot> => {
+  switch (action.type) {
+    case 'setColor': return { ...updates, color: action.color }
+    case 'setSize': return { ...updates, size: action.size }
+    case 'archive': return { ...updates, archived: true }
+    case 'addTag': {
+      // Only touch the tags when the dot doesn't have this one yet
+      const tags = updates.tags ?? dot.tags ?? []
+      return tags.some(tag => tag.toLowerCase() === action.tag.toLowerCase())
+        ? updates
+        : { ...updates, tags: [...tags, action.tag] }
+    }
+  }
+}
+
+/**
+ * Changes the matching rules make to a dot, applied in rule order.
+ * Only fields that actually change are returned, so an empty object means nothing to save.
+ */
+export const applyDotRules = (
+  dot: Dot,
+  styling: DotStylingConfig,
+  history: DotPositionHistory = [],
+  conditionType?: DotRuleCondition['type']
+): Partial<Dot> => {
+  if (!styling.enabled) return {}
+
+  const updates = styling.rules
+    .filter(rule => rule.enabled && (!conditionType || rule.condition.type === conditionType))
+    .filter(rule => matchesCondition(dot, rule.condition, history))
+    .reduce<Partial<Dot>>((acc, rule) => rule.actions.reduce(applyAction(dot), acc), {})
+
+  return Object.fromEntries(
+    Object.entries(updates).filter(([key, value]) => dot[key as keyof Dot] !== value)
+  ) as Partial<Dot>
+}
+
+/**
+ * How many past snapshots the "unmoved" rules need to look at (0 when there are none)
+ */
+export const getRequiredHistoryLength = (styling: DotStylingConfig): number =>
+  styling.enabled
+    ? Math.max(0, ...styling.rules
+      .filter(rule => rule.enabled)
+      .map(rule => (rule.condition.type === 'unmoved' ? rule.condition.snapshots : 0)))
+    : 0
+
+const operatorLabels: Record<Extract<DotRuleCondition, { type: 'position' }>['operator'], string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '='
+}
+
+/**
+ * Short text for a rule condition, e.g. "x > 50" or "hasn't moved in 2 snapshots"
+ */
+export const describeDotRuleCondition = (condition: DotRuleCondition): string =>
+  condition.type === 'position'
+    ? `x ${operatorLabels[condition.operator]} ${condition.value}`
+    : `hasn't moved in ${condition.snapshots} snapshot${condition.snapshots === 1 ? '' : 's'}`
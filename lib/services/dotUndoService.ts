@@ -0,0 +1,51 @@
+/**
+ * Dot Undo Service - Undo steps for deleting dots
+ *
+ * Deleted dots come back through the batched add, which keeps their IDs, so the
+ * undo steps recorded before the delete (moves, edits) still find them.
+ */
+
+import type { Dot } from '@/components/HillChartApp'
+import type { UndoEntry } from '@/lib/hooks/useUndoHistory'
+import { addDots, deleteDots } from './simpleDataService'
+
+interface DeleteDotsUndoCallbacks {
+  // Put the restored dots back into the collection on screen
+  onRestored: (dots: Dot[]) => void
+  // Take the deleted dots out of the collection on screen
+  onDeleted: (dotIds: string[]) => void
+}
+
+/**
+ * Delete dots and keep them in state, throwing when the delete fails
+ */
+export const removeDots = async (
+  userId: string,
+  collectionId: string,
+  dots: Dot[],
+  onDeleted: DeleteDotsUndoCallbacks['onDeleted']
+): Promise<void> => {
+  const dotIds = dots.map((dot) => dot.id)
+  if (!(await deleteDots(userId, collectionId, dotIds))) {
+    throw new Error('Dots could not be deleted')
+  }
+  onDeleted(dotIds)
+}
+
+/**
+ * Undo step for dots that have just been deleted: undo restores them with the same IDs, redo deletes them again
+ */
+export const createDeleteDotsUndoEntry = (
+  userId: string,
+  collectionId: string,
+  dots: Dot[],
+  { onRestored, onDeleted }: DeleteDotsUndoCallbacks
+): Omit<UndoEntry, 'timestamp'> => ({
+  label: dots.length === 1 ? `Delete ${dots[0].label}` : `Delete ${dots.length} dots`,
+  undo: async () => {
+    const restoredDots = await addDots(userId, collectionId, dots)
+    if (!restoredDots) throw new Error('Dots could not be restored')
+    onRestored(restoredDots)
+  },
+  redo: () => removeDots(userId, collectionId, dots, onDeleted),
+})
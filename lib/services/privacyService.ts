@@ -1,5 +1,24 @@
 import { supabase } from "@/lib/supabaseClient"
 import { createHash, createHmac } from "crypto"
+import type { DotDetails, ReleaseLineConfig } from "@/components/HillChartApp"
+
+// Release line configuration as stored in release_line_config_encrypted
+export interface EncryptedReleaseLineConfig {
+  enabled: boolean
+  color_encrypted: string
+  text_encrypted: string
+  markers_encrypted?: string
+}
+
+// Optional dot details as stored in the dots table; null when the dot has no value
+export interface EncryptedDotDetails {
+  description_encrypted: string | null
+  owner_encrypted: string | null
+  url_encrypted: string | null
+  due_date_encrypted: string | null
+  // JSON list of tags
+  tags_encrypted: string | null
+}
 
 // Privacy service for handling encrypted data
 export class PrivacyService {
@@ -39,6 +58,37 @@ export class PrivacyService {
     }
   }
 
+  // Derive the primary key from the server's key material (server-side only)
+  private deriveServerUserKey(userId: string): string {
+    // Server-side: Access environment variable directly
+    const keyMaterial = process.env.KEY_MATERIAL
+    console.log('[PRIVACY_SERVICE] Server-side key material check - exists:', !!keyMaterial, 'length:', keyMaterial?.length || 0)
+    if (!keyMaterial) {
+      throw new Error('KEY_MATERIAL environment variable is not configured. Please set this environment variable with a secure random string.')
+    }
+
+    // Validate key material length for security
+    if (keyMaterial.length < 32) {
+      throw new Error('KEY_MATERIAL must be at least 32 characters long for adequate security')
+    }
+
+    // Use HMAC-SHA256 with domain separation for primary key generation
+    const hmac = createHmac('sha256', keyMaterial)
+    hmac.update(`primary-key|${userId}`) // Domain-separated message format
+    return hmac.digest('hex').substring(0, 64) // Use first 64 chars for AES-256 (32 bytes)
+  }
+
+  // Load a user's key without a user session, for trusted server jobs such as
+  // scheduled snapshots. The caller is responsible for authenticating the job.
+  loadServerUserKey(userId: string): void {
+    if (typeof window !== 'undefined') {
+      throw new Error('Server user keys can only be loaded server-side')
+    }
+    if (!this.userKeys.has(userId)) {
+      this.userKeys.set(userId, this.deriveServerUserKey(userId))
+    }
+  }
+
   // Generate a user-specific encryption key from user ID and session
   private async generateUserKey(userId: string): Promise<string> {
     try {
@@ -56,22 +106,7 @@ export class PrivacyService {
       console.log('[PRIVACY_SERVICE] Environment check - isServerSide:', isServerSide)
       
       if (isServerSide) {
-        // Server-side: Access environment variable directly
-        const keyMaterial = process.env.KEY_MATERIAL
-        console.log('[PRIVACY_SERVICE] Server-side key material check - exists:', !!keyMaterial, 'length:', keyMaterial?.length || 0)
-        if (!keyMaterial) {
-          throw new Error('KEY_MATERIAL environment variable is not configured. Please set this environment variable with a secure random string.')
-        }
-
-        // Validate key material length for security
-        if (keyMaterial.length < 32) {
-          throw new Error('KEY_MATERIAL must be at least 32 characters long for adequate security')
-        }
-
-        // Use HMAC-SHA256 with domain separation for primary key generation
-        const hmac = createHmac('sha256', keyMaterial)
-        hmac.update(`primary-key|${userId}`) // Domain-separated message format
-        const key = hmac.digest('hex').substring(0, 64) // Use first 64 chars for AES-256 (32 bytes)
+        const key = this.deriveServerUserKey(userId)
         console.log('[PRIVACY_SERVICE] Server-side key generation successful, key length:', key.length)
         return key
       } else {
@@ -430,6 +465,31 @@ export class PrivacyService {
     }
   }
 
+  // Encrypt the optional dot details, each into its own column like the label
+  async encryptDotDetails(details: DotDetails, userId: string): Promise<EncryptedDotDetails> {
+    const encryptField = async (value?: string) =>
+      value ? (await this.encryptData(value, userId)).encrypted : null
+
+    return {
+      description_encrypted: await encryptField(details.description),
+      owner_encrypted: await encryptField(details.owner),
+      url_encrypted: await encryptField(details.url),
+      due_date_encrypted: await encryptField(details.dueDate),
+      tags_encrypted: await encryptField(details.tags?.length ? JSON.stringify(details.tags) : undefined)
+    }
+  }
+
+  // Decrypt the optional dot details, leaving out fields without a value
+  async decryptDotDetails(row: Partial<EncryptedDotDetails>, userId: string): Promise<DotDetails> {
+    const details: DotDetails = {}
+    if (row.description_encrypted) details.description = await this.decryptData(row.description_encrypted, userId)
+    if (row.owner_encrypted) details.owner = await this.decryptData(row.owner_encrypted, userId)
+    if (row.url_encrypted) details.url = await this.decryptData(row.url_encrypted, userId)
+    if (row.due_date_encrypted) details.dueDate = await this.decryptData(row.due_date_encrypted, userId)
+    if (row.tags_encrypted) details.tags = JSON.parse(await this.decryptData(row.tags_encrypted, userId))
+    return details
+  }
+
   // Search collections by name hash (privacy-preserving search)
   // Note: This performs exact hash matching. If substring/fuzzy search is needed,
   // implement a tokenization scheme that hashes normalized tokens and searches across token hashes.
@@ -452,7 +512,7 @@ export class PrivacyService {
   }
 
   // Encrypt release line configuration
-  async encryptReleaseLineConfig(config: { enabled: boolean; color: string; text: string }, userId: string) {
+  async encryptReleaseLineConfig(config: ReleaseLineConfig, userId: string) {
     console.log('[PRIVACY_SERVICE] Encrypting release line config:', { enabled: config.enabled, hasColor: !!config.color, hasText: !!config.text, userId })
     
     // Boolean doesn't need encryption
@@ -464,15 +524,23 @@ export class PrivacyService {
     
     console.log('[PRIVACY_SERVICE] Release line config encryption successful:', { enabled, hasColorEncrypted: !!colorEncrypted, hasTextEncrypted: !!textEncrypted })
     
-    return {
+    const encryptedConfig: EncryptedReleaseLineConfig = {
       enabled,
       color_encrypted: colorEncrypted,
       text_encrypted: textEncrypted
     }
+
+    // Milestone markers are encrypted together as one JSON list
+    if (config.markers && config.markers.length > 0) {
+      const { encrypted: markersEncrypted } = await this.encryptData(JSON.stringify(config.markers), userId)
+      encryptedConfig.markers_encrypted = markersEncrypted
+    }
+
+    return encryptedConfig
   }
 
   // Decrypt release line configuration
-  async decryptReleaseLineConfig(encryptedConfig: { enabled: boolean; color_encrypted: string; text_encrypted: string }, userId: string) {
+  async decryptReleaseLineConfig(encryptedConfig: EncryptedReleaseLineConfig, userId: string): Promise<ReleaseLineConfig> {
     console.log('[PRIVACY_SERVICE] Decrypting release line config:', { enabled: encryptedConfig.enabled, hasColorEncrypted: !!encryptedConfig.color_encrypted, hasTextEncrypted: !!encryptedConfig.text_encrypted, userId })
     
     // Boolean doesn't need decryption
@@ -484,11 +552,17 @@ export class PrivacyService {
     
     console.log('[PRIVACY_SERVICE] Release line config decryption successful:', { enabled, color, text })
     
-    return {
+    const config: ReleaseLineConfig = {
       enabled,
       color,
       text
     }
+
+    if (encryptedConfig.markers_encrypted) {
+      config.markers = JSON.parse(await this.decryptData(encryptedConfig.markers_encrypted, userId))
+    }
+
+    return config
   }
 
   // Clear user key (for logout)
@@ -0,0 +1,232 @@
+/**
+ * Scheduled Snapshot Service - Automatic snapshots for collections with a schedule
+ *
+ * Runs server-side from the scheduled snapshots job endpoint. Due collections are
+ * found across all users with a service role client, and snapshots are encrypted
+ * through the same path as manual ones (buildSnapshotRow).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Dot, ReleaseLineConfig, SnapshotSchedule } from '@/components/HillChartApp'
+import { privacyService } from './privacyService'
+import type { EncryptedDotDetails } from './privacyService'
+import { buildSnapshotRow } from './supabaseService'
+import { validateSnapshotSchedule } from '@/lib/validation'
+
+export interface ScheduledSnapshotResult {
+  checked: number
+  created: number
+  skippedUnchanged: number
+  notDue: number
+  failed: number
+}
+
+// Columns of the collections the job selects
+interface ScheduledCollectionRow {
+  id: string
+  user_id: string
+  name_encrypted: string
+  release_line_config_encrypted: string | null
+  // Validated with validateSnapshotSchedule before use
+  snapshot_schedule: unknown
+}
+
+interface ScheduledDotRow extends Partial<EncryptedDotDetails> {
+  id: string
+  label_encrypted: string
+  label_hash: string
+  x: number
+  y: number
+  color: string
+  size: number
+  archived: boolean
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Calendar day (YYYY-MM-DD, like snapshot_date) and weekday (0 = Sunday) of a moment in a time zone.
+ * Without a time zone the server's own is used.
+ */
+export const getScheduleDay = (date: Date, timeZone?: string): { date: string; weekday: number } => {
+  if (!timeZone) {
+    const year = date.getFullYear()
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
+    return { date: `${year}-${month}-${day}`, weekday: date.getDay() }
+  }
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit', weekday: 'short' })
+      .formatToParts(date)
+      .map(({ type, value }) => [type, value])
+  )
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, weekday: WEEKDAY_NAMES.indexOf(parts.weekday) }
+}
+
+/**
+ * Whether a collection should get an automatic snapshot today, in the schedule's time zone.
+ * Any snapshot already taken today, manual or automatic, counts.
+ */
+export const isSnapshotDue = (schedule: SnapshotSchedule, lastSnapshotDate: string | null, now: Date): boolean => {
+  const today = getScheduleDay(now, schedule.timeZone)
+  if (lastSnapshotDate && lastSnapshotDate >= today.date) return false
+
+  switch (schedule.frequency) {
+    case 'daily':
+      return true
+    case 'weekdays':
+      return today.weekday >= 1 && today.weekday <= 5
+    case 'weekly':
+      return today.weekday === (schedule.weekday ?? 1)
+    default:
+      return false
+  }
+}
+
+const toComparableDots = (dots: Dot[]) =>
+  dots
+    .map(({ id, label, x, y, color, size, archived }) => ({ id, label, x, y, color, size, archived: archived === true }))
+    .sort((a, b) => a.id.localeCompare(b.id))
+
+/**
+ * Whether the live dots differ from the last snapshot (no snapshot counts as changed)
+ */
+export const haveDotsChanged = (previousDots: Dot[] | null, currentDots: Dot[]): boolean => {
+  if (!previousDots) return true
+  return JSON.stringify(toComparableDots(previousDots)) !== JSON.stringify(toComparableDots(currentDots))
+}
+
+/**
+ * Create snapshots for every active collection whose schedule is due
+ */
+export const runScheduledSnapshots = async (
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<ScheduledSnapshotResult> => {
+  const result: ScheduledSnapshotResult = { checked: 0, created: 0, skippedUnchanged: 0, notDue: 0, failed: 0 }
+
+  const { data: collections, error } = await supabaseAdmin
+    .from("collections")
+    .select("id, user_id, name_encrypted, release_line_config_encrypted, snapshot_schedule")
+    .eq("status", "active")
+    .not("snapshot_schedule", "is", null)
+
+  if (error) {
+    throw error
+  }
+
+  console.log('[SCHEDULED_SNAPSHOTS] Collections with a schedule:', collections.length)
+
+  for (const collection of (collections || []) as ScheduledCollectionRow[]) {
+    result.checked++
+    const userId: string = collection.user_id
+
+    try {
+      const schedule = validateSnapshotSchedule(collection.snapshot_schedule)
+
+      const { data: lastSnapshots, error: lastSnapshotError } = await supabaseAdmin
+        .from("snapshots")
+        .select("snapshot_date, dots_data_encrypted")
+        .eq("collection_id", collection.id)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+
+      if (lastSnapshotError) {
+        throw lastSnapshotError
+      }
+
+      const lastSnapshot = lastSnapshots?.[0] ?? null
+      if (!isSnapshotDue(schedule, lastSnapshot?.snapshot_date ?? null, now)) {
+        result.notDue++
+        continue
+      }
+
+      // No user session here: load the user's key from the server key material
+      privacyService.loadServerUserKey(userId)
+
+      const { data: dotRows, error: dotsError } = await supabaseAdmin
+        .from("dots")
+        .select("*")
+        .eq("collection_id", collection.id)
+        .eq("user_id", userId)
+
+      if (dotsError) {
+        throw dotsError
+      }
+
+      const dots: Dot[] = await Promise.all(
+        ((dotRows || []) as ScheduledDotRow[]).map(async (row) => {
+          const { label } = await privacyService.decryptDot({
+            id: row.id,
+            label_encrypted: row.label_encrypted,
+            label_hash: row.label_hash,
+            userId
+          })
+          return {
+            id: row.id,
+            label,
+            x: row.x,
+            y: row.y,
+            color: row.color,
+            size: row.size,
+            archived: row.archived === true,
+            ...(await privacyService.decryptDotDetails(row, userId))
+          }
+        })
+      )
+
+      const previousDots: Dot[] | null = lastSnapshot
+        ? JSON.parse(await privacyService.decryptData(lastSnapshot.dots_data_encrypted, userId))
+        : null
+
+      if (!haveDotsChanged(previousDots, dots)) {
+        result.skippedUnchanged++
+        continue
+      }
+
+      const collectionName = await privacyService.decryptData(collection.name_encrypted, userId)
+
+      let releaseLineConfig: ReleaseLineConfig | undefined
+      if (collection.release_line_config_encrypted) {
+        try {
+          releaseLineConfig = await privacyService.decryptReleaseLineConfig(
+            JSON.parse(collection.release_line_config_encrypted),
+            userId
+          )
+        } catch (releaseLineError) {
+          console.warn('[SCHEDULED_SNAPSHOTS] Failed to decrypt release line config for collection:', collection.id, releaseLineError)
+        }
+      }
+
+      // Left unnamed on purpose: named snapshots are kept by the retention policy
+      const row = await buildSnapshotRow(
+        userId,
+        collection.id,
+        collectionName,
+        dots,
+        releaseLineConfig,
+        { note: 'Created automatically by the snapshot schedule' },
+        now,
+        getScheduleDay(now, schedule.timeZone).date
+      )
+
+      const { error: insertError } = await supabaseAdmin.from("snapshots").insert([row])
+      if (insertError) {
+        throw insertError
+      }
+
+      result.created++
+    } catch (collectionError) {
+      console.error('[SCHEDULED_SNAPSHOTS] Failed for collection:', collection.id, collectionError)
+      result.failed++
+    } finally {
+      // Don't keep users' keys in server memory between collections and runs
+      privacyService.clearUserKey(userId)
+    }
+  }
+
+  console.log('[SCHEDULED_SNAPSHOTS] Run completed:', result)
+  return result
+}
@@ -6,7 +6,10 @@
  */
 
 import * as supabaseService from './supabaseService'
-import type { Collection, Dot, Snapshot, ReleaseLineConfig } from '@/components/HillChartApp'
+import type { Collection, Dot, Snapshot, SnapshotSummary, ReleaseLineConfig, HillCurveConfig, DotStylingConfig, ColorPaletteConfig, FilterPreset, DotListConfig, DotHistoryEntry, SnapshotSchedule, SnapshotRetentionPolicy } from '@/components/HillChartApp'
+import type { RetentionCandidate } from './snapshotRetentionService'
+
+export type { SnapshotSummaryQuery } from './supabaseService'
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -96,16 +99,43 @@ export class SimpleDataService {
     return result.success
   }
 
+  // Bulk dot operations
+  async addDots(userId: string, collectionId: string, dots: Dot[]): Promise<Dot[] | null> {
+    console.log(`[SIMPLE_DATA] Adding ${dots.length} dots to collection: ${collectionId}`)
+    return await supabaseService.addDots(dots, collectionId, userId)
+  }
+
+  async updateDots(userId: string, collectionId: string, dots: Dot[]): Promise<Dot[] | null> {
+    console.log(`[SIMPLE_DATA] Updating ${dots.length} dots in collection: ${collectionId}`)
+    return await supabaseService.updateDots(dots, collectionId, userId)
+  }
+
+  async deleteDots(userId: string, collectionId: string, dotIds: string[]): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] Deleting ${dotIds.length} dots from collection: ${collectionId}`)
+    return await supabaseService.deleteDots(dotIds, collectionId, userId)
+  }
+
+  async moveDots(userId: string, fromCollectionId: string, toCollectionId: string, dots: Dot[]): Promise<Dot[] | null> {
+    console.log(`[SIMPLE_DATA] Moving ${dots.length} dots from collection: ${fromCollectionId} to: ${toCollectionId}`)
+    return await supabaseService.moveDots(dots, fromCollectionId, toCollectionId, userId)
+  }
+
+  async copyDots(userId: string, fromCollectionId: string, toCollectionId: string, dots: Dot[]): Promise<Dot[] | null> {
+    console.log(`[SIMPLE_DATA] Copying ${dots.length} dots from collection: ${fromCollectionId} to: ${toCollectionId}`)
+    return await supabaseService.copyDots(dots, fromCollectionId, toCollectionId, userId)
+  }
+
   // Snapshots operations
   async createSnapshot(
     userId: string,
     collectionId: string,
     collectionName: string,
     dots: Dot[],
-    releaseLineConfig?: ReleaseLineConfig
+    releaseLineConfig?: ReleaseLineConfig,
+    details?: Pick<Snapshot, 'name' | 'note'>
   ): Promise<boolean> {
     console.log(`[SIMPLE_DATA] Creating snapshot for collection: ${collectionId}`)
-    return await supabaseService.createSnapshot(userId, collectionId, collectionName, dots, releaseLineConfig)
+    return await supabaseService.createSnapshot(userId, collectionId, collectionName, dots, releaseLineConfig, details)
   }
 
   async fetchSnapshots(userId: string, options: SimpleFetchOptions = {}): Promise<Snapshot[]> {
@@ -113,6 +143,16 @@ export class SimpleDataService {
     return await supabaseService.fetchSnapshots(userId)
   }
 
+  async fetchSnapshotSummaries(userId: string, query: supabaseService.SnapshotSummaryQuery = {}): Promise<SnapshotSummary[]> {
+    console.log(`[SIMPLE_DATA] Fetching snapshot summaries:`, query)
+    return await supabaseService.fetchSnapshotSummaries(userId, query)
+  }
+
+  async fetchLatestSnapshotDates(userId: string): Promise<Record<string, string>> {
+    console.log(`[SIMPLE_DATA] Fetching latest snapshot dates`)
+    return await supabaseService.fetchLatestSnapshotDates(userId)
+  }
+
   async loadSnapshot(userId: string, snapshotId: string): Promise<Snapshot | null> {
     console.log(`[SIMPLE_DATA] Loading snapshot: ${snapshotId}`)
     return await supabaseService.loadSnapshot(userId, snapshotId)
@@ -123,6 +163,21 @@ export class SimpleDataService {
     return await supabaseService.deleteSnapshot(userId, snapshotId)
   }
 
+  async setSnapshotPinned(userId: string, snapshotId: string, pinned: boolean): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] ${pinned ? 'Pinning' : 'Unpinning'} snapshot: ${snapshotId}`)
+    return await supabaseService.setSnapshotPinned(userId, snapshotId, pinned)
+  }
+
+  async pruneSnapshots(userId: string, policy: SnapshotRetentionPolicy, dryRun: boolean = false): Promise<RetentionCandidate[]> {
+    console.log(`[SIMPLE_DATA] ${dryRun ? 'Previewing' : 'Applying'} snapshot retention policy`)
+    return await supabaseService.pruneSnapshots(userId, policy, dryRun)
+  }
+
+  async restoreSnapshot(userId: string, snapshotId: string): Promise<Collection | null> {
+    console.log(`[SIMPLE_DATA] Restoring snapshot: ${snapshotId}`)
+    return await supabaseService.restoreSnapshot(userId, snapshotId)
+  }
+
   // User preferences operations
   async fetchUserPreferences(userId: string, options: SimpleFetchOptions = {}): Promise<any> {
     console.log(`[SIMPLE_DATA] Fetching fresh user preferences from database`)
@@ -187,6 +242,95 @@ export class SimpleDataService {
     console.log(`[SIMPLE_DATA] Getting release line config for collection: ${collectionId}`)
     return await supabaseService.getCollectionReleaseLineConfig(userId, collectionId)
   }
+
+  // Hill curve configuration operations
+  async updateCollectionHillCurveConfig(
+    userId: string,
+    collectionId: string,
+    config: HillCurveConfig
+  ): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] Updating hill curve config for collection: ${collectionId}`)
+    return await supabaseService.updateCollectionHillCurveConfig(userId, collectionId, config)
+  }
+
+  // Dot styling rule operations
+  async updateCollectionDotStyling(
+    userId: string,
+    collectionId: string,
+    styling: DotStylingConfig
+  ): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] Updating dot styling rules for collection: ${collectionId}`)
+    return await supabaseService.updateCollectionDotStyling(userId, collectionId, styling)
+  }
+
+  // Color palette operations
+  async updateCollectionColorPalette(
+    userId: string,
+    collectionId: string,
+    palette: ColorPaletteConfig
+  ): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] Updating color palette for collection: ${collectionId}`)
+    return await supabaseService.updateCollectionColorPalette(userId, collectionId, palette)
+  }
+
+  // Dot history operations
+  async fetchDotHistory(
+    userId: string,
+    collectionId: string,
+    options: { dotId?: string; limit?: number } = {}
+  ): Promise<DotHistoryEntry[]> {
+    console.log(`[SIMPLE_DATA] Fetching dot history for collection: ${collectionId}`)
+    return await supabaseService.fetchDotHistory(userId, collectionId, options)
+  }
+
+  // Filter preset operations
+  async updateCollectionFilterPresets(
+    userId: string,
+    collectionId: string,
+    presets: FilterPreset[]
+  ): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] Updating filter presets for collection: ${collectionId}`)
+    return await supabaseService.updateCollectionFilterPresets(userId, collectionId, presets)
+  }
+
+  // Dot list operations
+  async updateCollectionDotListConfig(
+    userId: string,
+    collectionId: string,
+    config: DotListConfig
+  ): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] Updating dot list settings for collection: ${collectionId}`)
+    return await supabaseService.updateCollectionDotListConfig(userId, collectionId, config)
+  }
+
+  // Snapshot retention policy operations
+  async getSnapshotRetentionPolicy(userId: string): Promise<SnapshotRetentionPolicy> {
+    console.log(`[SIMPLE_DATA] Getting snapshot retention policy`)
+    return await supabaseService.getSnapshotRetentionPolicy(userId)
+  }
+
+  async updateSnapshotRetentionPolicy(userId: string, policy: SnapshotRetentionPolicy): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] Updating snapshot retention policy`)
+    return await supabaseService.updateSnapshotRetentionPolicy(userId, policy)
+  }
+
+  // Snapshot schedule operations
+  async updateCollectionSnapshotSchedule(
+    userId: string,
+    collectionId: string,
+    schedule: SnapshotSchedule
+  ): Promise<boolean> {
+    console.log(`[SIMPLE_DATA] Updating snapshot schedule for collection: ${collectionId}`)
+    return await supabaseService.updateCollectionSnapshotSchedule(userId, collectionId, schedule)
+  }
+
+  async getCollectionSnapshotSchedule(
+    userId: string,
+    collectionId: string
+  ): Promise<SnapshotSchedule | null> {
+    console.log(`[SIMPLE_DATA] Getting snapshot schedule for collection: ${collectionId}`)
+    return await supabaseService.getCollectionSnapshotSchedule(userId, collectionId)
+  }
 }
 
 // Export singleton instance
@@ -202,12 +346,32 @@ export const deleteCollection = simpleDataService.deleteCollection.bind(simpleDa
 export const addDot = simpleDataService.addDot.bind(simpleDataService)
 export const updateDot = simpleDataService.updateDot.bind(simpleDataService)
 export const deleteDot = simpleDataService.deleteDot.bind(simpleDataService)
+export const addDots = simpleDataService.addDots.bind(simpleDataService)
+export const updateDots = simpleDataService.updateDots.bind(simpleDataService)
+export const deleteDots = simpleDataService.deleteDots.bind(simpleDataService)
+export const moveDots = simpleDataService.moveDots.bind(simpleDataService)
+export const copyDots = simpleDataService.copyDots.bind(simpleDataService)
 export const createSnapshot = simpleDataService.createSnapshot.bind(simpleDataService)
 export const fetchSnapshots = simpleDataService.fetchSnapshots.bind(simpleDataService)
+export const fetchSnapshotSummaries = simpleDataService.fetchSnapshotSummaries.bind(simpleDataService)
+export const fetchLatestSnapshotDates = simpleDataService.fetchLatestSnapshotDates.bind(simpleDataService)
 export const loadSnapshot = simpleDataService.loadSnapshot.bind(simpleDataService)
 export const deleteSnapshot = simpleDataService.deleteSnapshot.bind(simpleDataService)
+export const restoreSnapshot = simpleDataService.restoreSnapshot.bind(simpleDataService)
+export const setSnapshotPinned = simpleDataService.setSnapshotPinned.bind(simpleDataService)
+export const pruneSnapshots = simpleDataService.pruneSnapshots.bind(simpleDataService)
 export const fetchUserPreferences = simpleDataService.fetchUserPreferences.bind(simpleDataService)
 export const importData = simpleDataService.importData.bind(simpleDataService)
 export const resetAllCollections = simpleDataService.resetAllCollections.bind(simpleDataService)
 export const updateCollectionReleaseLineConfig = simpleDataService.updateCollectionReleaseLineConfig.bind(simpleDataService)
 export const getCollectionReleaseLineConfig = simpleDataService.getCollectionReleaseLineConfig.bind(simpleDataService)
+export const updateCollectionHillCurveConfig = simpleDataService.updateCollectionHillCurveConfig.bind(simpleDataService)
+export const updateCollectionDotStyling = simpleDataService.updateCollectionDotStyling.bind(simpleDataService)
+export const updateCollectionColorPalette = simpleDataService.updateCollectionColorPalette.bind(simpleDataService)
+export const updateCollectionFilterPresets = simpleDataService.updateCollectionFilterPresets.bind(simpleDataService)
+export const updateCollectionDotListConfig = simpleDataService.updateCollectionDotListConfig.bind(simpleDataService)
+export const fetchDotHistory = simpleDataService.fetchDotHistory.bind(simpleDataService)
+export const updateCollectionSnapshotSchedule = simpleDataService.updateCollectionSnapshotSchedule.bind(simpleDataService)
+export const getCollectionSnapshotSchedule = simpleDataService.getCollectionSnapshotSchedule.bind(simpleDataService)
+export const getSnapshotRetentionPolicy = simpleDataService.getSnapshotRetentionPolicy.bind(simpleDataService)
+export const updateSnapshotRetentionPolicy = simpleDataService.updateSnapshotRetentionPolicy.bind(simpleDataService)
@@ -0,0 +1,155 @@
+/**
+ * Snapshot Diff Service - Compare two states of a collection
+ *
+ * Works on plain dot lists so it can compare two snapshots, or a snapshot
+ * and the live collection. No database access: callers pass decrypted dots.
+ */
+
+import type { Dot } from '@/components/HillChartApp'
+
+export type DotDiffStatus = 'forward' | 'backward' | 'unchanged' | 'added' | 'archived' | 'removed'
+
+export interface DotDiffEntry {
+  dotId: string
+  label: string
+  previousLabel?: string
+  renamed: boolean
+  status: DotDiffStatus
+  color: string
+  from?: { x: number; y: number }
+  to?: { x: number; y: number }
+  // Change in hill percentage (positive = further over the hill)
+  delta: number
+}
+
+export interface SnapshotDiff {
+  entries: DotDiffEntry[]
+  summary: Record<DotDiffStatus | 'renamed', number>
+}
+
+// Moves smaller than this many hill percent count as staying put
+export const UNCHANGED_THRESHOLD = 0.5
+
+const roundDelta = (value: number): number => Math.round(value * 10) / 10
+
+/**
+ * Diff two dot lists, matching dots by id
+ */
+export const diffDots = (fromDots: Dot[], toDots: Dot[]): SnapshotDiff => {
+  const fromById = new Map(fromDots.map(dot => [dot.id, dot]))
+  const toById = new Map(toDots.map(dot => [dot.id, dot]))
+  const entries: DotDiffEntry[] = []
+
+  toById.forEach((toDot, id) => {
+    const fromDot = fromById.get(id)
+    const wasActive = fromDot !== undefined && !fromDot.archived
+
+    // Archived on both sides: nothing to report
+    if (toDot.archived && !wasActive) return
+
+    const renamed = fromDot !== undefined && fromDot.label !== toDot.label
+    const base = {
+      dotId: id,
+      label: toDot.label,
+      renamed,
+      color: toDot.color,
+      ...(renamed && { previousLabel: fromDot!.label })
+    }
+
+    if (toDot.archived) {
+      entries.push({
+        ...base,
+        status: 'archived',
+        from: { x: fromDot!.x, y: fromDot!.y },
+        delta: 0
+      })
+      return
+    }
+
+    if (!wasActive) {
+      entries.push({
+        ...base,
+        status: 'added',
+        to: { x: toDot.x, y: toDot.y },
+        delta: 0
+      })
+      return
+    }
+
+    const delta = toDot.x - fromDot!.x
+    const status: DotDiffStatus = Math.abs(delta) < UNCHANGED_THRESHOLD
+      ? 'unchanged'
+      : delta > 0 ? 'forward' : 'backward'
+
+    entries.push({
+      ...base,
+      status,
+      from: { x: fromDot!.x, y: fromDot!.y },
+      to: { x: toDot.x, y: toDot.y },
+      delta: roundDelta(delta)
+    })
+  })
+
+  fromById.forEach((fromDot, id) => {
+    if (toById.has(id) || fromDot.archived) return
+    entries.push({
+      dotId: id,
+      label: fromDot.label,
+      renamed: false,
+      status: 'removed',
+      color: fromDot.color,
+      from: { x: fromDot.x, y: fromDot.y },
+      delta: 0
+    })
+  })
+
+  // Biggest movers first, then alphabetical
+  entries.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.label.localeCompare(b.label))
+
+  const summary: SnapshotDiff['summary'] = {
+    forward: 0,
+    backward: 0,
+    unchanged: 0,
+    added: 0,
+    archived: 0,
+    removed: 0,
+    renamed: 0
+  }
+  entries.forEach(entry => {
+    summary[entry.status]++
+    if (entry.renamed) summary.renamed++
+  })
+
+  return { entries, summary }
+}
+
+export const diffStatusLabels: Record<DotDiffStatus, string> = {
+  forward: 'Moved forward',
+  backward: 'Moved backward',
+  unchanged: 'Stayed put',
+  added: 'Added',
+  archived: 'Archived',
+  removed: 'Removed'
+}
+
+/**
+ * Format a diff as plain text, e.g. for pasting into a status update
+ */
+export const formatDiffAsText = (diff: SnapshotDiff, fromLabel: string, toLabel: string): string => {
+  const lines: string[] = [`Changes from ${fromLabel} to ${toLabel}`]
+
+  ;(Object.keys(diffStatusLabels) as DotDiffStatus[]).forEach(status => {
+    const matching = diff.entries.filter(entry => entry.status === status)
+    if (matching.length === 0) return
+    lines.push('', `${diffStatusLabels[status]} (${matching.length})`)
+    matching.forEach(entry => {
+      const delta = entry.status === 'forward' || entry.status === 'backward'
+        ? ` ${entry.delta > 0 ? '+' : ''}${entry.delta}%`
+        : ''
+      const rename = entry.renamed ? ` (was "${entry.previousLabel}")` : ''
+      lines.push(`- ${entry.label}${delta}${rename}`)
+    })
+  })
+
+  return lines.join('\n')
+}
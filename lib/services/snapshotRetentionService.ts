@@ -0,0 +1,88 @@
+/**
+ * Snapshot Retention Service - Decide which snapshots a retention policy removes
+ *
+ * Pure selection logic; the pruning itself lives in supabaseService (pruneSnapshots).
+ * Works on snapshot metadata only, so no snapshot has to be decrypted to prune.
+ */
+
+import type { SnapshotRetentionPolicy } from '@/components/HillChartApp'
+
+export interface RetentionCandidate {
+  id: string
+  collectionId: string
+  timestamp: number
+  pinned: boolean
+  named: boolean
+}
+
+export const DEFAULT_RETENTION_POLICY: SnapshotRetentionPolicy = {
+  enabled: false,
+  keepAllDays: 30,
+  keepWeeklyDays: 365,
+  keepMonthly: true
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const pad = (value: number): string => String(value).padStart(2, '0')
+
+// Monday of the snapshot's week, local time
+const getWeekKey = (date: Date): string => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7))
+  return `week:${monday.getFullYear()}-${pad(monday.getMonth() + 1)}-${pad(monday.getDate())}`
+}
+
+const getMonthKey = (date: Date): string => `month:${date.getFullYear()}-${pad(date.getMonth() + 1)}`
+
+/**
+ * Bucket a snapshot falls into under the policy:
+ * 'all' = always kept, a week/month key = one kept per bucket, null = removed
+ */
+const getRetentionBucket = (timestamp: number, policy: SnapshotRetentionPolicy, now: number): string | null => {
+  const ageDays = (now - timestamp) / DAY_MS
+  if (ageDays <= policy.keepAllDays) return 'all'
+
+  const date = new Date(timestamp)
+  if (ageDays <= policy.keepWeeklyDays) return getWeekKey(date)
+  return policy.keepMonthly ? getMonthKey(date) : null
+}
+
+/**
+ * Select the snapshots a policy would remove.
+ * Pinned and named snapshots are never selected, and they count as the kept
+ * snapshot of their week or month. Otherwise the newest snapshot of each bucket is kept.
+ */
+export const selectSnapshotsToPrune = (
+  candidates: RetentionCandidate[],
+  policy: SnapshotRetentionPolicy,
+  now: number = Date.now()
+): RetentionCandidate[] => {
+  if (!policy.enabled) return []
+
+  const isProtected = (candidate: RetentionCandidate) => candidate.pinned || candidate.named
+  const filledBuckets = new Set<string>()
+  const bucketOf = (candidate: RetentionCandidate) => {
+    const bucket = getRetentionBucket(candidate.timestamp, policy, now)
+    return bucket && `${candidate.collectionId}|${bucket}`
+  }
+
+  candidates.filter(isProtected).forEach(candidate => {
+    const bucket = bucketOf(candidate)
+    if (bucket) filledBuckets.add(bucket)
+  })
+
+  return [...candidates]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter(candidate => {
+      if (isProtected(candidate)) return false
+
+      const bucket = getRetentionBucket(candidate.timestamp, policy, now)
+      if (bucket === 'all') return false
+      if (bucket === null) return true
+
+      const key = `${candidate.collectionId}|${bucket}`
+      if (filledBuckets.has(key)) return true
+      filledBuckets.add(key)
+      return false
+    })
+}
@@ -1,8 +1,11 @@
 import { supabase } from "@/lib/supabaseClient"
-import { Collection, Dot, Snapshot, ExportData, ReleaseLineConfig } from "@/components/HillChartApp"
+import { Collection, Dot, Snapshot, SnapshotSummary, ExportData, ReleaseLineConfig, HillCurveConfig, DotStylingConfig, ColorPaletteConfig, FilterPreset, DotListConfig, DotHistoryEntry, SnapshotSchedule, SnapshotRetentionPolicy } from "@/components/HillChartApp"
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { privacyService } from "./privacyService"
+import type { EncryptedDotDetails } from "./privacyService"
+import { selectSnapshotsToPrune, RetentionCandidate, DEFAULT_RETENTION_POLICY } from "./snapshotRetentionService"
+import { diffDotForHistory, getCreatedDotChanges } from "./dotHistoryService"
 import { 
   validateDot, 
   validateCollection, 
@@ -16,7 +19,16 @@ import {
   validateReleaseLineConfig,
   ValidationError,
   sanitizeString,
-  validateSnapshotId
+  validateSnapshotId,
+  validateSnapshotMonth,
+  validateSnapshotDetails,
+  validateSnapshotSchedule,
+  validateSnapshotRetentionPolicy,
+  validateHillCurveConfig,
+  validateDotStylingConfig,
+  validateColorPaletteConfig,
+  validateFilterPresets,
+  validateDotListConfig
 } from "@/lib/validation"
 
 // Helper function to get local date string in YYYY-MM-DD format
@@ -37,9 +49,14 @@ interface CollectionRow {
   archived_at?: string
   deleted_at?: string
   release_line_config_encrypted?: string
+  hill_curve_config_encrypted?: string | null
+  dot_styling_encrypted?: string | null
+  color_palette_encrypted?: string | null
+  filter_presets_encrypted?: string | null
+  dot_list_config_encrypted?: string | null
 }
 
-interface DotRow {
+interface DotRow extends Partial<EncryptedDotDetails> {
   id: string
   label_encrypted: string
   label_hash: string
@@ -61,6 +78,105 @@ interface SnapshotRow {
   snapshot_date: string
   dots_data_encrypted: string
   release_line_config_encrypted?: string
+  name_encrypted?: string | null
+  note_encrypted?: string | null
+  pinned?: boolean
+}
+
+// Collection settings (hill curve, dot styling rules, color palette, filter presets, dot list) are encrypted as one JSON blob each
+const encryptCollectionSetting = async (setting: HillCurveConfig | DotStylingConfig | ColorPaletteConfig | FilterPreset[] | DotListConfig, userId: string): Promise<string> => {
+  const { encrypted } = await privacyService.encryptData(JSON.stringify(setting), userId)
+  return encrypted
+}
+
+const decryptCollectionSetting = async <T>(
+  encrypted: string,
+  userId: string,
+  validate: (setting: unknown) => T
+): Promise<T | undefined> => {
+  try {
+    return validate(JSON.parse(await privacyService.decryptData(encrypted, userId)))
+  } catch (error) {
+    // Fall back to the default rather than failing the whole collection
+    console.warn('[COLLECTION_SETTING] Failed to decrypt collection setting:', error)
+    return undefined
+  }
+}
+
+type DotHistoryRecord = Pick<DotHistoryEntry, 'collectionId' | 'dotId' | 'type' | 'label' | 'changes'>
+
+// Write entries to the dot history audit trail in one insert. History is best effort:
+// a failure is logged and never fails the dot change that triggered it.
+const recordDotHistory = async (userId: string, records: DotHistoryRecord[]): Promise<void> => {
+  if (records.length === 0) return
+
+  try {
+    const rows = await Promise.all(
+      records.map(async (record) => ({
+        user_id: userId,
+        collection_id: record.collectionId,
+        dot_id: record.dotId,
+        change_type: record.type,
+        entry_encrypted: (await privacyService.encryptData(
+          JSON.stringify({ label: record.label, changes: record.changes }),
+          userId
+        )).encrypted
+      }))
+    )
+    const { error } = await supabase.from("dot_history").insert(rows)
+
+    if (error) {
+      throw error
+    }
+  } catch (error) {
+    console.warn('[DOT_HISTORY] Failed to record dot history:', records.map(({ dotId, type }) => ({ dotId, type })), error)
+  }
+}
+
+// Encrypt a validated dot into a row of the given collection
+const buildDotRow = async (dot: Dot, collectionId: string, userId: string) => {
+  const encryptedDot = await privacyService.encryptDot({
+    id: dot.id,
+    label: dot.label,
+    userId
+  })
+  return {
+    id: dot.id,
+    label_encrypted: encryptedDot.label_encrypted,
+    label_hash: encryptedDot.label_hash,
+    x: dot.x,
+    y: dot.y,
+    color: dot.color,
+    size: dot.size,
+    archived: dot.archived === true,
+    ...(await privacyService.encryptDotDetails(dot, userId)),
+    collection_id: collectionId,
+    user_id: userId
+  }
+}
+
+// Encrypt the optional snapshot name and note into their row columns
+const encryptSnapshotDetails = async (details: Pick<Snapshot, 'name' | 'note'>, userId: string): Promise<Partial<SnapshotRow>> => {
+  const columns: Partial<SnapshotRow> = {}
+  if (details.name) {
+    columns.name_encrypted = (await privacyService.encryptData(details.name, userId)).encrypted
+  }
+  if (details.note) {
+    columns.note_encrypted = (await privacyService.encryptData(details.note, userId)).encrypted
+  }
+  return columns
+}
+
+// Decrypt the optional snapshot name and note from a row
+const decryptSnapshotDetails = async (row: Pick<SnapshotRow, 'name_encrypted' | 'note_encrypted'>, userId: string): Promise<Pick<Snapshot, 'name' | 'note'>> => {
+  const details: Pick<Snapshot, 'name' | 'note'> = {}
+  if (row.name_encrypted) {
+    details.name = await privacyService.decryptData(row.name_encrypted, userId)
+  }
+  if (row.note_encrypted) {
+    details.note = await privacyService.decryptData(row.note_encrypted, userId)
+  }
+  return details
 }
 
 // Enhanced error handling wrapper
@@ -156,7 +272,7 @@ export const fetchCollections = async (
 
     const { data: collectionsData, error: collectionsError } = await supabase
       .from("collections")
-      .select("id, name_encrypted, name_hash, status, archived_at, deleted_at, release_line_config_encrypted")
+      .select("id, name_encrypted, name_hash, status, archived_at, deleted_at, release_line_config_encrypted, hill_curve_config_encrypted, dot_styling_encrypted, color_palette_encrypted, filter_presets_encrypted, dot_list_config_encrypted")
       .eq("user_id", validatedUserId)
       .in("status", statusFilter)
       .order("status", { ascending: true }) // Active first, then archived
@@ -213,7 +329,8 @@ export const fetchCollections = async (
                   y: dot.y,
                   color: dot.color,
                   size: dot.size,
-                  archived: dot.archived
+                  archived: dot.archived,
+                  ...(await privacyService.decryptDotDetails(dot, validatedUserId))
                 }
               } catch (dotError) {
                 console.error('[FETCH_COLLECTIONS] Failed to decrypt dot:', dot.id, dotError)
@@ -223,7 +340,7 @@ export const fetchCollections = async (
           )
 
           // Decrypt release line config if present
-          let releaseLineConfig: { enabled: boolean; color: string; text: string } | undefined = undefined
+          let releaseLineConfig: ReleaseLineConfig | undefined = undefined
           if (collection.release_line_config_encrypted) {
             try {
               const encryptedConfig = JSON.parse(collection.release_line_config_encrypted)
@@ -240,6 +357,22 @@ export const fetchCollections = async (
             }
           }
 
+          const hillCurveConfig = collection.hill_curve_config_encrypted
+            ? await decryptCollectionSetting(collection.hill_curve_config_encrypted, validatedUserId, validateHillCurveConfig)
+            : undefined
+          const dotStyling = collection.dot_styling_encrypted
+            ? await decryptCollectionSetting(collection.dot_styling_encrypted, validatedUserId, validateDotStylingConfig)
+            : undefined
+          const colorPalette = collection.color_palette_encrypted
+            ? await decryptCollectionSetting(collection.color_palette_encrypted, validatedUserId, validateColorPaletteConfig)
+            : undefined
+          const filterPresets = collection.filter_presets_encrypted
+            ? await decryptCollectionSetting(collection.filter_presets_encrypted, validatedUserId, validateFilterPresets)
+            : undefined
+          const dotList = collection.dot_list_config_encrypted
+            ? await decryptCollectionSetting(collection.dot_list_config_encrypted, validatedUserId, validateDotListConfig)
+            : undefined
+
           return {
             id: decryptedCollection.id,
             name: decryptedCollection.name,
@@ -247,7 +380,12 @@ export const fetchCollections = async (
             archived_at: collection.archived_at,
             deleted_at: collection.deleted_at,
             dots: decryptedDots,
-            releaseLineConfig
+            releaseLineConfig,
+            hillCurveConfig,
+            dotStyling,
+            colorPalette,
+            filterPresets,
+            dotList
           }
         } catch (collectionError) {
           console.error('[FETCH_COLLECTIONS] Failed to decrypt collection:', collection.id, collectionError)
@@ -291,6 +429,22 @@ export const addCollection = async (collection: Collection, userId: string): Pro
       console.log('[ADD_COLLECTION] Release line config encryption successful')
     }
 
+    const hillCurveConfigEncrypted = validatedCollection.hillCurveConfig
+      ? await encryptCollectionSetting(validatedCollection.hillCurveConfig, validatedUserId)
+      : null
+    const dotStylingEncrypted = validatedCollection.dotStyling
+      ? await encryptCollectionSetting(validatedCollection.dotStyling, validatedUserId)
+      : null
+    const colorPaletteEncrypted = validatedCollection.colorPalette
+      ? await encryptCollectionSetting(validatedCollection.colorPalette, validatedUserId)
+      : null
+    const filterPresetsEncrypted = validatedCollection.filterPresets
+      ? await encryptCollectionSetting(validatedCollection.filterPresets, validatedUserId)
+      : null
+    const dotListEncrypted = validatedCollection.dotList
+      ? await encryptCollectionSetting(validatedCollection.dotList, validatedUserId)
+      : null
+
     const { data, error } = await supabase
       .from("collections")
       .insert([{ 
@@ -299,7 +453,12 @@ export const addCollection = async (collection: Collection, userId: string): Pro
         name_hash: encryptedCollection.name_hash,
         user_id: validatedUserId,
         status: 'active',
-        release_line_config_encrypted: releaseLineConfigEncrypted
+        release_line_config_encrypted: releaseLineConfigEncrypted,
+        hill_curve_config_encrypted: hillCurveConfigEncrypted,
+        dot_styling_encrypted: dotStylingEncrypted,
+        color_palette_encrypted: colorPaletteEncrypted,
+        filter_presets_encrypted: filterPresetsEncrypted,
+        dot_list_config_encrypted: dotListEncrypted
       }])
       .select()
 
@@ -467,6 +626,7 @@ export const addDot = async (dot: Dot, collectionId: string, userId: string): Pr
         color: validatedDot.color,
         size: validatedDot.size,
         archived: validatedDot.archived,
+        ...(await privacyService.encryptDotDetails(validatedDot, validatedUserId)),
         collection_id: validatedCollectionId, 
         user_id: validatedUserId 
       }])
@@ -475,6 +635,16 @@ export const addDot = async (dot: Dot, collectionId: string, userId: string): Pr
     if (error) {
       throw error
     }
+
+    if (data) {
+      await recordDotHistory(validatedUserId, [{
+        collectionId: validatedCollectionId,
+        dotId: validatedDot.id,
+        type: 'created',
+        label: validatedDot.label,
+        changes: getCreatedDotChanges(validatedDot)
+      }])
+    }
     
     return data ? { ...validatedDot, archived: validatedDot.archived } : null
   } catch (error) {
@@ -489,6 +659,14 @@ export const updateDot = async (dot: Dot, userId: string): Promise<Dot | null> =
     const validatedUserId = validateUserId(userId)
     const validatedDot = validateDot(dot)
 
+    // Stored state before the update, to record what changed
+    const { data: previousRow } = await supabase
+      .from("dots")
+      .select("collection_id, label_encrypted, x, y, color, size, archived")
+      .eq("id", validatedDot.id)
+      .eq("user_id", validatedUserId)
+      .maybeSingle()
+
     // Encrypt the updated label if it changed
     const encryptedDot = await privacyService.encryptDot({
       id: validatedDot.id,
@@ -505,7 +683,8 @@ export const updateDot = async (dot: Dot, userId: string): Promise<Dot | null> =
         y: validatedDot.y,
         color: validatedDot.color,
         size: validatedDot.size,
-        archived: validatedDot.archived
+        archived: validatedDot.archived,
+        ...(await privacyService.encryptDotDetails(validatedDot, validatedUserId))
       })
       .eq("id", validatedDot.id)
       .eq("user_id", validatedUserId)
@@ -514,6 +693,28 @@ export const updateDot = async (dot: Dot, userId: string): Promise<Dot | null> =
     if (error) {
       throw error
     }
+
+    if (data && previousRow) {
+      const previousDot: Dot = {
+        id: validatedDot.id,
+        label: await privacyService.decryptData(previousRow.label_encrypted, validatedUserId),
+        x: Number(previousRow.x),
+        y: Number(previousRow.y),
+        color: previousRow.color,
+        size: previousRow.size,
+        archived: previousRow.archived === true
+      }
+      const changes = diffDotForHistory(previousDot, validatedDot)
+      if (changes.length > 0) {
+        await recordDotHistory(validatedUserId, [{
+          collectionId: previousRow.collection_id,
+          dotId: validatedDot.id,
+          type: 'updated',
+          label: validatedDot.label,
+          changes
+        }])
+      }
+    }
     
     return data ? { ...validatedDot, archived: validatedDot.archived } : null
   } catch (error) {
@@ -528,6 +729,14 @@ export const deleteDot = async (dotId: string, userId: string): Promise<{ succes
     const validatedUserId = validateUserId(userId)
     const validatedDotId = validateDotId(dotId)
 
+    // Keep the label and collection for the history entry
+    const { data: deletedRow } = await supabase
+      .from("dots")
+      .select("collection_id, label_encrypted")
+      .eq("id", validatedDotId)
+      .eq("user_id", validatedUserId)
+      .maybeSingle()
+
     const { error } = await supabase
       .from("dots")
       .delete()
@@ -537,6 +746,17 @@ export const deleteDot = async (dotId: string, userId: string): Promise<{ succes
     if (error) {
       throw error
     }
+
+    if (deletedRow) {
+      const label = await privacyService.decryptData(deletedRow.label_encrypted, validatedUserId)
+      await recordDotHistory(validatedUserId, [{
+        collectionId: deletedRow.collection_id,
+        dotId: validatedDotId,
+        type: 'deleted',
+        label,
+        changes: []
+      }])
+    }
     
     return { success: true }
   } catch (error) {
@@ -545,56 +765,395 @@ export const deleteDot = async (dotId: string, userId: string): Promise<{ succes
   }
 }
 
-// Create a snapshot of the current state
-export const createSnapshot = async (userId: string, collectionId: string, collectionName: string, dots: Dot[], releaseLineConfig?: ReleaseLineConfig): Promise<boolean> => {
+// Bulk dot operations: each one is a single request however many dots are selected
+
+// Verify the user owns every given collection
+const verifyCollectionsOwned = async (collectionIds: string[], userId: string): Promise<void> => {
+  const { data, error } = await supabase
+    .from("collections")
+    .select("id")
+    .in("id", collectionIds)
+    .eq("user_id", userId)
+
+  if (error || (data || []).length !== new Set(collectionIds).size) {
+    throw new Error('Collection not found or not owned by user')
+  }
+}
+
+// Add several dots to a collection, keeping their IDs
+export const addDots = async (dots: Dot[], collectionId: string, userId: string): Promise<Dot[] | null> => {
   try {
     const validatedUserId = validateUserId(userId)
     const validatedCollectionId = validateCollectionId(collectionId)
-    const validatedCollectionName = sanitizeString(collectionName, 100)
-    
-    if (!validatedCollectionName) {
-      throw new ValidationError('Collection name cannot be empty')
+    const validatedDots = dots.map(dot => validateDot(dot))
+    if (validatedDots.length === 0) return []
+
+    await verifyCollectionsOwned([validatedCollectionId], validatedUserId)
+
+    const rows = await Promise.all(validatedDots.map(dot => buildDotRow(dot, validatedCollectionId, validatedUserId)))
+    const { error } = await supabase.from("dots").insert(rows)
+
+    if (error) {
+      throw error
     }
 
-    // Validate all dots
+    await recordDotHistory(validatedUserId, validatedDots.map(dot => ({
+      collectionId: validatedCollectionId,
+      dotId: dot.id,
+      type: 'created' as const,
+      label: dot.label,
+      changes: getCreatedDotChanges(dot)
+    })))
+
+    return validatedDots
+  } catch (error) {
+    handleServiceError(error, 'add dots')
+    return null
+  }
+}
+
+// Save several dots of a collection at once
+export const updateDots = async (dots: Dot[], collectionId: string, userId: string): Promise<Dot[] | null> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
     const validatedDots = dots.map(dot => validateDot(dot))
+    if (validatedDots.length === 0) return []
+
+    // Stored state before the update, to record what changed
+    const { data: previousRows } = await supabase
+      .from("dots")
+      .select("id, label_encrypted, x, y, color, size, archived")
+      .in("id", validatedDots.map(dot => dot.id))
+      .eq("collection_id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
 
-    if (validatedDots.length > 1000) {
-      throw new ValidationError('Too many dots in snapshot. Maximum 1000 allowed')
+    // Only dots that already exist are updated; the upsert never creates rows for unknown IDs
+    const knownIds = new Set((previousRows || []).map(row => row.id))
+    const existingDots = validatedDots.filter(dot => knownIds.has(dot.id))
+    if (existingDots.length !== validatedDots.length) {
+      throw new Error('Dot not found in collection')
     }
 
-    // Validate release line config if provided
-    let validatedReleaseLineConfig: ReleaseLineConfig | undefined
-    if (releaseLineConfig) {
-      validatedReleaseLineConfig = validateReleaseLineConfig(releaseLineConfig)
+    const rows = await Promise.all(existingDots.map(dot => buildDotRow(dot, validatedCollectionId, validatedUserId)))
+    const { error } = await supabase
+      .from("dots")
+      .upsert(rows, { onConflict: "id,collection_id" })
+
+    if (error) {
+      throw error
     }
 
-    // Encrypt collection name and dots data
-    const { encrypted: encryptedName } = await privacyService.encryptData(validatedCollectionName, validatedUserId)
-    const { encrypted: encryptedDotsData } = await privacyService.encryptData(JSON.stringify(validatedDots), validatedUserId)
+    const records = await Promise.all((previousRows || []).map(async (row): Promise<DotHistoryRecord | null> => {
+      const dot = existingDots.find(d => d.id === row.id)
+      if (!dot) return null
+      const previousDot: Dot = {
+        id: row.id,
+        label: await privacyService.decryptData(row.label_encrypted, validatedUserId),
+        x: Number(row.x),
+        y: Number(row.y),
+        color: row.color,
+        size: row.size,
+        archived: row.archived === true
+      }
+      const changes = diffDotForHistory(previousDot, dot)
+      return changes.length > 0
+        ? { collectionId: validatedCollectionId, dotId: dot.id, type: 'updated', label: dot.label, changes }
+        : null
+    }))
+    await recordDotHistory(validatedUserId, records.filter((record): record is DotHistoryRecord => record !== null))
+
+    return existingDots
+  } catch (error) {
+    handleServiceError(error, 'update dots')
+    return null
+  }
+}
+
+// Delete several dots of a collection at once
+export const deleteDots = async (dotIds: string[], collectionId: string, userId: string): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+    const validatedDotIds = dotIds.map(dotId => validateDotId(dotId))
+    if (validatedDotIds.length === 0) return true
+
+    const { data: deletedRows, error } = await supabase
+      .from("dots")
+      .delete()
+      .in("id", validatedDotIds)
+      .eq("collection_id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
+      .select("id, label_encrypted")
 
-    // Encrypt release line config if provided
-    let encryptedReleaseLineConfig: string | undefined
-    if (validatedReleaseLineConfig) {
-      const { encrypted } = await privacyService.encryptData(JSON.stringify(validatedReleaseLineConfig), validatedUserId)
-      encryptedReleaseLineConfig = encrypted
+    if (error) {
+      throw error
     }
 
-    const now = new Date()
-    const insertData: any = {
-      user_id: validatedUserId,
-      collection_id: validatedCollectionId,
-      collection_name_encrypted: encryptedName,
-      created_at: now.toISOString(),
-      snapshot_date: getLocalDateString(now),
-      dots_data_encrypted: encryptedDotsData
+    await recordDotHistory(validatedUserId, await Promise.all((deletedRows || []).map(async (row) => ({
+      collectionId: validatedCollectionId,
+      dotId: row.id,
+      type: 'deleted' as const,
+      label: await privacyService.decryptData(row.label_encrypted, validatedUserId),
+      changes: []
+    }))))
+
+    return true
+  } catch (error) {
+    handleServiceError(error, 'delete dots')
+    return false
+  }
+}
+
+// IDs of the given dots that the user already has in a collection other than `collectionId`.
+// updateDot and deleteDot find dots by ID across all the user's collections, so IDs have to stay unique per user.
+const findDotIdsTakenElsewhere = async (dotIds: string[], collectionId: string, userId: string): Promise<Set<string>> => {
+  if (dotIds.length === 0) return new Set()
+
+  const { data: conflictingRows, error } = await supabase
+    .from("dots")
+    .select("id, collection_id")
+    .in("id", dotIds)
+    .eq("user_id", userId)
+
+  if (error) {
+    throw error
+  }
+
+  return new Set((conflictingRows || [])
+    .filter(row => row.collection_id !== collectionId)
+    .map(row => row.id))
+}
+
+// Put dots into another collection as freshly encrypted rows, removing them from the source when moving.
+// Dots are keyed by (id, collection_id) but edited by ID alone, so a copy always gets a new ID and a
+// moved dot only changes ID when another of the user's collections already has a dot with its ID.
+const transferDots = async (
+  dots: Dot[],
+  fromCollectionId: string,
+  toCollectionId: string,
+  userId: string,
+  mode: 'move' | 'copy'
+): Promise<Dot[]> => {
+  const validatedUserId = validateUserId(userId)
+  const validatedFromId = validateCollectionId(fromCollectionId)
+  const validatedToId = validateCollectionId(toCollectionId)
+  const validatedDots = dots.map(dot => validateDot(dot))
+  if (validatedDots.length === 0) return []
+  if (validatedFromId === validatedToId) {
+    throw new Error('Dots are already in this collection')
+  }
+
+  await verifyCollectionsOwned([validatedFromId, validatedToId], validatedUserId)
+
+  const sourceIds = validatedDots.map(dot => dot.id)
+  // The dots being moved don't conflict with themselves
+  const takenIds = await findDotIdsTakenElsewhere(sourceIds, validatedFromId, validatedUserId)
+  const transferredDots = validatedDots.map(dot =>
+    mode === 'copy' || takenIds.has(dot.id) ? { ...dot, id: crypto.randomUUID() } : dot
+  )
+
+  const rows = await Promise.all(transferredDots.map(dot => buildDotRow(dot, validatedToId, validatedUserId)))
+  const { error: insertError } = await supabase.from("dots").insert(rows)
+
+  if (insertError) {
+    throw insertError
+  }
+
+  if (mode === 'move') {
+    const { error: deleteError } = await supabase
+      .from("dots")
+      .delete()
+      .in("id", sourceIds)
+      .eq("collection_id", validatedFromId)
+      .eq("user_id", validatedUserId)
+
+    if (deleteError) {
+      // Leave the dots where they were rather than in both collections
+      await supabase
+        .from("dots")
+        .delete()
+        .in("id", transferredDots.map(dot => dot.id))
+        .eq("collection_id", validatedToId)
+        .eq("user_id", validatedUserId)
+      throw deleteError
+    }
+  }
+
+  // Each collection's activity shows the dot leaving or arriving
+  await recordDotHistory(validatedUserId, transferredDots.flatMap((dot, index): DotHistoryRecord[] => [
+    ...(mode === 'move'
+      ? [{ collectionId: validatedFromId, dotId: sourceIds[index], type: 'deleted' as const, label: dot.label, changes: [] }]
+      : []),
+    { collectionId: validatedToId, dotId: dot.id, type: 'created', label: dot.label, changes: getCreatedDotChanges(dot) }
+  ]))
+
+  return transferredDots
+}
+
+// Move dots to another collection of the same user; returns them with their IDs in the target
+export const moveDots = async (
+  dots: Dot[],
+  fromCollectionId: string,
+  toCollectionId: string,
+  userId: string
+): Promise<Dot[] | null> => {
+  try {
+    return await transferDots(dots, fromCollectionId, toCollectionId, userId, 'move')
+  } catch (error) {
+    handleServiceError(error, 'move dots')
+    return null
+  }
+}
+
+// Copy dots into another collection of the same user; the copies get new IDs
+export const copyDots = async (
+  dots: Dot[],
+  fromCollectionId: string,
+  toCollectionId: string,
+  userId: string
+): Promise<Dot[] | null> => {
+  try {
+    return await transferDots(dots, fromCollectionId, toCollectionId, userId, 'copy')
+  } catch (error) {
+    handleServiceError(error, 'copy dots')
+    return null
+  }
+}
+
+// Fetch the dot history of a collection, newest first; pass a dot ID for one dot's timeline
+export const fetchDotHistory = async (
+  userId: string,
+  collectionId: string,
+  options: { dotId?: string; limit?: number } = {}
+): Promise<DotHistoryEntry[]> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+
+    let query = supabase
+      .from("dot_history")
+      .select("id, dot_id, collection_id, change_type, entry_encrypted, created_at")
+      .eq("user_id", validatedUserId)
+      .eq("collection_id", validatedCollectionId)
+
+    if (options.dotId) {
+      query = query.eq("dot_id", validateDotId(options.dotId))
     }
 
-    // Only include release_line_config_encrypted if we have data
-    if (encryptedReleaseLineConfig) {
-      insertData.release_line_config_encrypted = encryptedReleaseLineConfig
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(Math.min(options.limit ?? 100, 500))
+
+    if (error) {
+      throw error
     }
 
+    const entries = await Promise.all(
+      (data || []).map(async (row): Promise<DotHistoryEntry | null> => {
+        try {
+          const { label, changes } = JSON.parse(await privacyService.decryptData(row.entry_encrypted, validatedUserId))
+          return {
+            id: row.id,
+            dotId: row.dot_id,
+            collectionId: row.collection_id,
+            type: row.change_type,
+            label,
+            changes,
+            timestamp: new Date(row.created_at).getTime()
+          }
+        } catch (entryError) {
+          // Skip entries that can't be read rather than failing the whole feed
+          console.warn('[FETCH_DOT_HISTORY] Failed to decrypt history entry:', row.id, entryError)
+          return null
+        }
+      })
+    )
+
+    return entries.filter((entry): entry is DotHistoryEntry => entry !== null)
+  } catch (error) {
+    console.error('[FETCH_DOT_HISTORY] Overall error:', error)
+    handleServiceError(error, 'fetch dot history')
+    return []
+  }
+}
+
+// Validate and encrypt a snapshot into a row ready to insert.
+// Shared by createSnapshot and the scheduled snapshot job, which inserts with its own client.
+export const buildSnapshotRow = async (
+  userId: string,
+  collectionId: string,
+  collectionName: string,
+  dots: Dot[],
+  releaseLineConfig?: ReleaseLineConfig,
+  details?: Pick<Snapshot, 'name' | 'note'>,
+  now: Date = new Date(),
+  // The day the snapshot belongs to; local to wherever this runs unless given
+  snapshotDate: string = getLocalDateString(now)
+): Promise<Omit<SnapshotRow, 'id'>> => {
+  const validatedUserId = validateUserId(userId)
+  const validatedCollectionId = validateCollectionId(collectionId)
+  const validatedCollectionName = sanitizeString(collectionName, 100)
+  const validatedDetails = validateSnapshotDetails(details)
+  
+  if (!validatedCollectionName) {
+    throw new ValidationError('Collection name cannot be empty')
+  }
+
+  // Validate all dots
+  const validatedDots = dots.map(dot => validateDot(dot))
+
+  if (validatedDots.length > 1000) {
+    throw new ValidationError('Too many dots in snapshot. Maximum 1000 allowed')
+  }
+
+  // Validate release line config if provided
+  let validatedReleaseLineConfig: ReleaseLineConfig | undefined
+  if (releaseLineConfig) {
+    validatedReleaseLineConfig = validateReleaseLineConfig(releaseLineConfig)
+  }
+
+  // Encrypt collection name and dots data
+  const { encrypted: encryptedName } = await privacyService.encryptData(validatedCollectionName, validatedUserId)
+  const { encrypted: encryptedDotsData } = await privacyService.encryptData(JSON.stringify(validatedDots), validatedUserId)
+
+  // Encrypt release line config if provided
+  let encryptedReleaseLineConfig: string | undefined
+  if (validatedReleaseLineConfig) {
+    const { encrypted } = await privacyService.encryptData(JSON.stringify(validatedReleaseLineConfig), validatedUserId)
+    encryptedReleaseLineConfig = encrypted
+  }
+
+  const row: Omit<SnapshotRow, 'id'> = {
+    user_id: validatedUserId,
+    collection_id: validatedCollectionId,
+    collection_name_encrypted: encryptedName,
+    created_at: now.toISOString(),
+    snapshot_date: snapshotDate,
+    dots_data_encrypted: encryptedDotsData,
+    ...(await encryptSnapshotDetails(validatedDetails, validatedUserId))
+  }
+
+  // Only include release_line_config_encrypted if we have data
+  if (encryptedReleaseLineConfig) {
+    row.release_line_config_encrypted = encryptedReleaseLineConfig
+  }
+
+  return row
+}
+
+// Create a snapshot of the current state, optionally named and annotated
+export const createSnapshot = async (
+  userId: string,
+  collectionId: string,
+  collectionName: string,
+  dots: Dot[],
+  releaseLineConfig?: ReleaseLineConfig,
+  details?: Pick<Snapshot, 'name' | 'note'>
+): Promise<boolean> => {
+  try {
+    const insertData = await buildSnapshotRow(userId, collectionId, collectionName, dots, releaseLineConfig, details)
+
     const { error } = await supabase
       .from("snapshots")
       .insert([insertData])
@@ -655,11 +1214,14 @@ export const fetchSnapshots = async (userId: string): Promise<Snapshot[]> => {
         }
         
         const snapshot: Snapshot = {
+          id: row.id,
           date: row.snapshot_date,
           collectionId: row.collection_id,
           collectionName: decryptedCollectionName,
           dots: dots,
-          timestamp: new Date(row.created_at).getTime()
+          timestamp: new Date(row.created_at).getTime(),
+          ...(await decryptSnapshotDetails(row, validatedUserId)),
+          ...(row.pinned && { pinned: true })
         }
 
         // Only include releaseLineConfig if it exists
@@ -678,6 +1240,84 @@ export const fetchSnapshots = async (userId: string): Promise<Snapshot[]> => {
   }
 }
 
+// Scope of a snapshot summary query; both filters are optional
+export interface SnapshotSummaryQuery {
+  // Calendar month in YYYY-MM format
+  month?: string
+  collectionId?: string
+}
+
+// Fetch lightweight snapshot metadata. Dots are not selected or decrypted;
+// open a snapshot with loadSnapshot to get them.
+export const fetchSnapshotSummaries = async (userId: string, query: SnapshotSummaryQuery = {}): Promise<SnapshotSummary[]> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+
+    let request = supabase
+      .from("snapshots")
+      .select("id, collection_id, created_at, snapshot_date, name_encrypted, note_encrypted, pinned")
+      .eq("user_id", validatedUserId)
+
+    if (query.month) {
+      const [year, month] = validateSnapshotMonth(query.month).split('-').map(Number)
+      const nextMonth = month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`
+      request = request.gte("snapshot_date", `${query.month}-01`).lt("snapshot_date", `${nextMonth}-01`)
+    }
+
+    if (query.collectionId) {
+      request = request.eq("collection_id", validateCollectionId(query.collectionId))
+    }
+
+    const { data, error } = await request.order("created_at", { ascending: false })
+
+    if (error) {
+      throw error
+    }
+
+    // Only named or annotated snapshots need a decryption round trip
+    return await Promise.all(
+      (data || []).map(async (row: Pick<SnapshotRow, 'id' | 'collection_id' | 'created_at' | 'snapshot_date' | 'name_encrypted' | 'note_encrypted' | 'pinned'>) => ({
+        id: row.id,
+        date: row.snapshot_date,
+        collectionId: row.collection_id,
+        timestamp: new Date(row.created_at).getTime(),
+        ...(await decryptSnapshotDetails(row, validatedUserId)),
+        ...(row.pinned && { pinned: true })
+      }))
+    )
+  } catch (error) {
+    handleServiceError(error, 'fetch snapshot summaries')
+    return []
+  }
+}
+
+// Date of the most recent snapshot of each collection (YYYY-MM-DD), by collection ID.
+// Grouped in the database, one row per collection, so the API row limit never cuts it short.
+// Reads two plain columns, so nothing is decrypted.
+export const fetchLatestSnapshotDates = async (userId: string): Promise<Record<string, string>> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+
+    const { data, error } = await supabase.rpc("get_latest_snapshot_dates", {
+      p_user_id: validatedUserId
+    })
+
+    if (error) {
+      throw error
+    }
+
+    const latestDates: Record<string, string> = {}
+    ;(data || []).forEach((row: Pick<SnapshotRow, 'collection_id' | 'snapshot_date'>) => {
+      latestDates[row.collection_id] = row.snapshot_date
+    })
+
+    return latestDates
+  } catch (error) {
+    handleServiceError(error, 'fetch latest snapshot dates')
+    return {}
+  }
+}
+
 // Load a specific snapshot
 export const loadSnapshot = async (userId: string, snapshotId: string): Promise<Snapshot | null> => {
   try {
@@ -724,11 +1364,14 @@ export const loadSnapshot = async (userId: string, snapshotId: string): Promise<
     }
 
     const snapshot: Snapshot = {
+      id: data.id,
       date: data.snapshot_date,
       collectionId: data.collection_id,
       collectionName: decryptedCollectionName,
       dots: dots,
-      timestamp: new Date(data.created_at).getTime()
+      timestamp: new Date(data.created_at).getTime(),
+      ...(await decryptSnapshotDetails(data, validatedUserId)),
+      ...(data.pinned && { pinned: true })
     }
 
     // Only include releaseLineConfig if it exists
@@ -766,6 +1409,228 @@ export const deleteSnapshot = async (userId: string, snapshotId: string): Promis
   }
 }
 
+// Pin or unpin a snapshot; pinned snapshots are never pruned
+export const setSnapshotPinned = async (userId: string, snapshotId: string, pinned: boolean): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedSnapshotId = validateSnapshotId(snapshotId)
+
+    const { error } = await supabase
+      .from("snapshots")
+      .update({ pinned: pinned === true })
+      .eq("id", validatedSnapshotId)
+      .eq("user_id", validatedUserId)
+
+    if (error) {
+      throw error
+    }
+
+    return true
+  } catch (error) {
+    handleServiceError(error, 'pin snapshot')
+    return false
+  }
+}
+
+// Apply a retention policy. With dryRun, only report what would be removed.
+// Reads snapshot metadata only; nothing is decrypted.
+export const pruneSnapshots = async (
+  userId: string,
+  policy: SnapshotRetentionPolicy,
+  dryRun: boolean = false
+): Promise<RetentionCandidate[]> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedPolicy = validateSnapshotRetentionPolicy(policy)
+
+    const { data, error } = await supabase
+      .from("snapshots")
+      .select("id, collection_id, created_at, name_encrypted, pinned")
+      .eq("user_id", validatedUserId)
+
+    if (error) {
+      throw error
+    }
+
+    const candidates: RetentionCandidate[] = (data || []).map((row: Pick<SnapshotRow, 'id' | 'collection_id' | 'created_at' | 'name_encrypted' | 'pinned'>) => ({
+      id: row.id,
+      collectionId: row.collection_id,
+      timestamp: new Date(row.created_at).getTime(),
+      pinned: row.pinned === true,
+      named: Boolean(row.name_encrypted)
+    }))
+
+    const toPrune = selectSnapshotsToPrune(candidates, validatedPolicy)
+    console.log('[PRUNE_SNAPSHOTS]', dryRun ? 'Dry run:' : 'Pruning:', toPrune.length, 'of', candidates.length)
+
+    if (dryRun) {
+      return toPrune
+    }
+
+    const pruned: RetentionCandidate[] = []
+    for (const candidate of toPrune) {
+      if (await deleteSnapshot(validatedUserId, candidate.id)) {
+        pruned.push(candidate)
+      }
+    }
+
+    return pruned
+  } catch (error) {
+    handleServiceError(error, 'prune snapshots')
+    return []
+  }
+}
+
+// Restore a snapshot into its live collection, replacing the collection's dots and
+// release line config. A safety snapshot of the current state is taken first so the
+// restore itself can be undone.
+export const restoreSnapshot = async (userId: string, snapshotId: string): Promise<Collection | null> => {
+  try {
+    console.log('[RESTORE_SNAPSHOT] Starting restore:', { userId, snapshotId })
+    const validatedUserId = validateUserId(userId)
+
+    const snapshot = await loadSnapshot(validatedUserId, snapshotId)
+    if (!snapshot) {
+      throw new Error('Snapshot not found')
+    }
+
+    const liveCollection = (await fetchCollections(validatedUserId))
+      .find(collection => collection.id === snapshot.collectionId)
+    if (!liveCollection) {
+      throw new Error('Collection not found or not active')
+    }
+
+    // A dot moved to another collection since the snapshot keeps its ID there; the restored copy gets a new one
+    const snapshotDots = snapshot.dots.map(dot => validateDot(dot))
+    const takenIds = await findDotIdsTakenElsewhere(snapshotDots.map(dot => dot.id), liveCollection.id, validatedUserId)
+    const validatedDots = snapshotDots.map(dot => takenIds.has(dot.id) ? { ...dot, id: crypto.randomUUID() } : dot)
+    // Encrypt the snapshot dots up front, so a failure here leaves the live dots alone
+    const dotRows = await Promise.all(validatedDots.map(dot => buildDotRow(dot, liveCollection.id, validatedUserId)))
+
+    // Safety snapshot of the live state before anything is overwritten
+    const restoredFrom = snapshot.name || snapshot.date
+    const safetyCreated = await createSnapshot(
+      validatedUserId,
+      liveCollection.id,
+      liveCollection.name,
+      liveCollection.dots,
+      liveCollection.releaseLineConfig,
+      {
+        name: `Before restoring ${restoredFrom}`.slice(0, 100),
+        note: 'Automatic safety snapshot taken before restoring an earlier state'
+      }
+    )
+    if (!safetyCreated) {
+      throw new Error('Failed to create safety snapshot')
+    }
+    console.log('[RESTORE_SNAPSHOT] Safety snapshot created')
+
+    // The live rows as stored, to put back if the snapshot dots can't be inserted
+    const { data: previousRows, error: previousError } = await supabase
+      .from("dots")
+      .select("*")
+      .eq("collection_id", liveCollection.id)
+      .eq("user_id", validatedUserId)
+
+    if (previousError) {
+      throw previousError
+    }
+
+    const deleteLiveDots = () => supabase
+      .from("dots")
+      .delete()
+      .eq("collection_id", liveCollection.id)
+      .eq("user_id", validatedUserId)
+
+    // Put the live rows back after a failed step, leaving the collection as it was
+    const putBackLiveDots = async () => {
+      try {
+        const { error: clearError } = await deleteLiveDots()
+        if (clearError) {
+          throw clearError
+        }
+        if (previousRows && previousRows.length > 0) {
+          const { error: rollbackError } = await supabase.from("dots").insert(previousRows)
+          if (rollbackError) {
+            throw rollbackError
+          }
+        }
+        console.log('[RESTORE_SNAPSHOT] Live dots put back after failed restore')
+      } catch (rollbackError) {
+        console.error('[RESTORE_SNAPSHOT] Failed to put back the live dots:', rollbackError)
+      }
+    }
+
+    // Replace the live dots with the snapshot dots
+    const { error: deleteError } = await deleteLiveDots()
+
+    if (deleteError) {
+      throw deleteError
+    }
+
+    if (dotRows.length > 0) {
+      const { error: insertError } = await supabase.from("dots").insert(dotRows)
+      if (insertError) {
+        await putBackLiveDots()
+        throw insertError
+      }
+    }
+
+    // Snapshots taken before release lines existed keep the current config
+    if (snapshot.releaseLineConfig) {
+      let releaseLineSaved = false
+      try {
+        releaseLineSaved = await updateCollectionReleaseLineConfig(validatedUserId, liveCollection.id, snapshot.releaseLineConfig)
+      } catch (releaseLineError) {
+        console.error('[RESTORE_SNAPSHOT] Failed to restore the release line config:', releaseLineError)
+      }
+      if (!releaseLineSaved) {
+        await putBackLiveDots()
+        throw new Error('Failed to restore release line configuration')
+      }
+    }
+
+    // The activity of the collection shows the dots the restore removed, brought back and changed
+    const previousDots = await Promise.all((previousRows || []).map(async (row): Promise<Dot> => ({
+      id: row.id,
+      label: await privacyService.decryptData(row.label_encrypted, validatedUserId),
+      x: Number(row.x),
+      y: Number(row.y),
+      color: row.color,
+      size: row.size,
+      archived: row.archived === true
+    })))
+    await recordDotHistory(validatedUserId, [
+      ...previousDots
+        .filter(previousDot => !validatedDots.some(dot => dot.id === previousDot.id))
+        .map((previousDot): DotHistoryRecord => ({
+          collectionId: liveCollection.id, dotId: previousDot.id, type: 'deleted', label: previousDot.label, changes: []
+        })),
+      ...validatedDots.flatMap((dot): DotHistoryRecord[] => {
+        const previousDot = previousDots.find(previous => previous.id === dot.id)
+        if (!previousDot) {
+          return [{ collectionId: liveCollection.id, dotId: dot.id, type: 'created', label: dot.label, changes: getCreatedDotChanges(dot) }]
+        }
+        const changes = diffDotForHistory(previousDot, dot)
+        return changes.length > 0
+          ? [{ collectionId: liveCollection.id, dotId: dot.id, type: 'updated', label: dot.label, changes }]
+          : []
+      })
+    ])
+
+    console.log('[RESTORE_SNAPSHOT] Restore completed:', { collectionId: liveCollection.id, dots: validatedDots.length })
+    return {
+      ...liveCollection,
+      dots: validatedDots,
+      releaseLineConfig: snapshot.releaseLineConfig || liveCollection.releaseLineConfig
+    }
+  } catch (error) {
+    console.error('[RESTORE_SNAPSHOT] Restore failed:', error)
+    handleServiceError(error, 'restore snapshot')
+    return null
+  }
+}
+
 // Import data with comprehensive validation and encryption
 export const importData = async (data: ExportData, userId: string): Promise<Collection[]> => {
   try {
@@ -802,6 +1667,22 @@ export const importData = async (data: ExportData, userId: string): Promise<Coll
           releaseLineConfigEncrypted = JSON.stringify(encryptedReleaseLineConfig)
         }
 
+        const hillCurveConfigEncrypted = collection.hillCurveConfig
+          ? await encryptCollectionSetting(collection.hillCurveConfig, validatedUserId)
+          : null
+        const dotStylingEncrypted = collection.dotStyling
+          ? await encryptCollectionSetting(collection.dotStyling, validatedUserId)
+          : null
+        const colorPaletteEncrypted = collection.colorPalette
+          ? await encryptCollectionSetting(collection.colorPalette, validatedUserId)
+          : null
+        const filterPresetsEncrypted = collection.filterPresets
+          ? await encryptCollectionSetting(collection.filterPresets, validatedUserId)
+          : null
+        const dotListEncrypted = collection.dotList
+          ? await encryptCollectionSetting(collection.dotList, validatedUserId)
+          : null
+
         return {
           id: collection.id,
           name_encrypted: encryptedCollection.name_encrypted,
@@ -810,7 +1691,12 @@ export const importData = async (data: ExportData, userId: string): Promise<Coll
           status: (collection as any).status || 'active',
           archived_at: (collection as any).archived_at || null,
           deleted_at: null,
-          release_line_config_encrypted: releaseLineConfigEncrypted
+          release_line_config_encrypted: releaseLineConfigEncrypted,
+          hill_curve_config_encrypted: hillCurveConfigEncrypted,
+          dot_styling_encrypted: dotStylingEncrypted,
+          color_palette_encrypted: colorPaletteEncrypted,
+          filter_presets_encrypted: filterPresetsEncrypted,
+          dot_list_config_encrypted: dotListEncrypted
         }
       })
     )
@@ -836,7 +1722,7 @@ export const importData = async (data: ExportData, userId: string): Promise<Coll
           id: dot.id,
           label: dot.label,
           userId: validatedUserId
-        }).then(encryptedDot => ({
+        }).then(async encryptedDot => ({
           id: dot.id,
           label_encrypted: encryptedDot.label_encrypted,
           label_hash: encryptedDot.label_hash,
@@ -845,6 +1731,7 @@ export const importData = async (data: ExportData, userId: string): Promise<Coll
           color: dot.color,
           size: dot.size,
           archived: dot.archived === true,
+          ...(await privacyService.encryptDotDetails(dot, validatedUserId)),
           user_id: validatedUserId,
           collection_id: collection.id,
         }))
@@ -928,6 +1815,8 @@ export const importData = async (data: ExportData, userId: string): Promise<Coll
               created_at: new Date(snapshot.timestamp).toISOString(),
               snapshot_date: snapshot.date,
               dots_data_encrypted: encryptedDotsData,
+              ...(await encryptSnapshotDetails(snapshot, validatedUserId)),
+              pinned: snapshot.pinned === true
             }
 
             // Only include release_line_config_encrypted if we have data
@@ -1082,7 +1971,7 @@ export const deleteAllUserData = async (userId: string): Promise<boolean> => {
 export const updateCollectionReleaseLineConfig = async (
   userId: string, 
   collectionId: string, 
-  config: { enabled: boolean; color: string; text: string }
+  config: ReleaseLineConfig
 ): Promise<boolean> => {
   try {
     console.log('[UPDATE_RELEASE_LINE_CONFIG] Starting update:', { userId, collectionId, config })
@@ -1140,7 +2029,7 @@ export const updateCollectionReleaseLineConfig = async (
 export const getCollectionReleaseLineConfig = async (
   userId: string, 
   collectionId: string
-): Promise<{ enabled: boolean; color: string; text: string } | null> => {
+): Promise<ReleaseLineConfig | null> => {
   try {
     console.log('[GET_RELEASE_LINE_CONFIG] Starting fetch:', { userId, collectionId })
     const validatedUserId = validateUserId(userId)
@@ -1242,4 +2131,282 @@ export const deleteCollectionReleaseLineConfig = async (
     handleServiceError(error, 'delete release line configuration')
     return false
   }
-} 
\ No newline at end of file
+} 
+
+// Hill Curve Configuration Functions
+
+// Update the curve shape and phase zones of a collection
+export const updateCollectionHillCurveConfig = async (
+  userId: string,
+  collectionId: string,
+  config: HillCurveConfig
+): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+    const validatedConfig = validateHillCurveConfig(config)
+
+    const { error } = await supabase
+      .from("collections")
+      .update({
+        hill_curve_config_encrypted: await encryptCollectionSetting(validatedConfig, validatedUserId)
+      })
+      .eq("id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
+
+    if (error) {
+      throw error
+    }
+
+    return true
+  } catch (error) {
+    console.error('[UPDATE_HILL_CURVE_CONFIG] Overall error:', error)
+    handleServiceError(error, 'update hill curve configuration')
+    return false
+  }
+}
+
+// Dot Styling Rule Functions
+
+// Update the automatic dot styling rules of a collection
+export const updateCollectionDotStyling = async (
+  userId: string,
+  collectionId: string,
+  styling: DotStylingConfig
+): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+    const validatedStyling = validateDotStylingConfig(styling)
+
+    const { error } = await supabase
+      .from("collections")
+      .update({
+        dot_styling_encrypted: await encryptCollectionSetting(validatedStyling, validatedUserId)
+      })
+      .eq("id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
+
+    if (error) {
+      throw error
+    }
+
+    return true
+  } catch (error) {
+    console.error('[UPDATE_DOT_STYLING] Overall error:', error)
+    handleServiceError(error, 'update dot styling rules')
+    return false
+  }
+}
+
+// Color Palette Functions
+
+// Update the named dot colors of a collection
+export const updateCollectionColorPalette = async (
+  userId: string,
+  collectionId: string,
+  palette: ColorPaletteConfig
+): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+    const validatedPalette = validateColorPaletteConfig(palette)
+
+    const { error } = await supabase
+      .from("collections")
+      .update({
+        color_palette_encrypted: await encryptCollectionSetting(validatedPalette, validatedUserId)
+      })
+      .eq("id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
+
+    if (error) {
+      throw error
+    }
+
+    return true
+  } catch (error) {
+    console.error('[UPDATE_COLOR_PALETTE] Overall error:', error)
+    handleServiceError(error, 'update color palette')
+    return false
+  }
+}
+
+// Filter Preset Functions
+
+// Replace the saved dot filter presets of a collection
+export const updateCollectionFilterPresets = async (
+  userId: string,
+  collectionId: string,
+  presets: FilterPreset[]
+): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+    const validatedPresets = validateFilterPresets(presets)
+
+    const { error } = await supabase
+      .from("collections")
+      .update({
+        filter_presets_encrypted: await encryptCollectionSetting(validatedPresets, validatedUserId)
+      })
+      .eq("id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
+
+    if (error) {
+      throw error
+    }
+
+    return true
+  } catch (error) {
+    console.error('[UPDATE_FILTER_PRESETS] Overall error:', error)
+    handleServiceError(error, 'update filter presets')
+    return false
+  }
+}
+
+// Dot List Functions
+
+// Save how the sidebar sorts, groups and manually orders a collection's dots
+export const updateCollectionDotListConfig = async (
+  userId: string,
+  collectionId: string,
+  config: DotListConfig
+): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+    const validatedConfig = validateDotListConfig(config)
+
+    const { error } = await supabase
+      .from("collections")
+      .update({
+        dot_list_config_encrypted: await encryptCollectionSetting(validatedConfig, validatedUserId)
+      })
+      .eq("id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
+
+    if (error) {
+      throw error
+    }
+
+    return true
+  } catch (error) {
+    console.error('[UPDATE_DOT_LIST_CONFIG] Overall error:', error)
+    handleServiceError(error, 'update dot list settings')
+    return false
+  }
+}
+
+// Snapshot Schedule Functions
+
+// Update the automatic snapshot schedule for a collection
+export const updateCollectionSnapshotSchedule = async (
+  userId: string,
+  collectionId: string,
+  schedule: SnapshotSchedule
+): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+    const validatedSchedule = validateSnapshotSchedule(schedule)
+
+    const { error } = await supabase
+      .from("collections")
+      .update({
+        // "off" is stored as null so the scheduled job never looks at the collection
+        snapshot_schedule: validatedSchedule.frequency === 'off' ? null : validatedSchedule
+      })
+      .eq("id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
+
+    if (error) {
+      throw error
+    }
+
+    return true
+  } catch (error) {
+    console.error('[UPDATE_SNAPSHOT_SCHEDULE] Overall error:', error)
+    handleServiceError(error, 'update snapshot schedule')
+    return false
+  }
+}
+
+// Get the automatic snapshot schedule for a collection
+export const getCollectionSnapshotSchedule = async (
+  userId: string,
+  collectionId: string
+): Promise<SnapshotSchedule | null> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedCollectionId = validateCollectionId(collectionId)
+
+    const { data, error } = await supabase
+      .from("collections")
+      .select("snapshot_schedule")
+      .eq("id", validatedCollectionId)
+      .eq("user_id", validatedUserId)
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return null
+    }
+
+    return data.snapshot_schedule ? validateSnapshotSchedule(data.snapshot_schedule) : { frequency: 'off' }
+  } catch (error) {
+    console.error('[GET_SNAPSHOT_SCHEDULE] Overall error:', error)
+    handleServiceError(error, 'get snapshot schedule')
+    return null
+  }
+}
+
+// Snapshot Retention Policy Functions
+
+// Get the user's snapshot retention policy (defaults when never set)
+export const getSnapshotRetentionPolicy = async (userId: string): Promise<SnapshotRetentionPolicy> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+
+    const { data, error } = await supabase
+      .from("user_preferences")
+      .select("snapshot_retention")
+      .eq("user_id", validatedUserId)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    return data?.snapshot_retention
+      ? validateSnapshotRetentionPolicy(data.snapshot_retention)
+      : DEFAULT_RETENTION_POLICY
+  } catch (error) {
+    handleServiceError(error, 'get snapshot retention policy')
+    return DEFAULT_RETENTION_POLICY
+  }
+}
+
+// Save the user's snapshot retention policy
+export const updateSnapshotRetentionPolicy = async (userId: string, policy: SnapshotRetentionPolicy): Promise<boolean> => {
+  try {
+    const validatedUserId = validateUserId(userId)
+    const validatedPolicy = validateSnapshotRetentionPolicy(policy)
+
+    const { error } = await supabase
+      .from("user_preferences")
+      .upsert({ user_id: validatedUserId, snapshot_retention: validatedPolicy }, { onConflict: 'user_id' })
+
+    if (error) {
+      throw error
+    }
+
+    return true
+  } catch (error) {
+    handleServiceError(error, 'update snapshot retention policy')
+    return false
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Test fixtures for dots, shared by the service and utility tests
+ */
+
+import type { Dot } from '@/components/HillChartApp'
+
+/**
+ * A plain active dot at the foot of the hill, with the given fields replaced
+ */
+export const makeDot = (overrides: Partial<Dot> = {}): Dot => ({
+  id: 'dot-1',
+  label: 'Dot',
+  x: 0,
+  y: 0,
+  color: '#3b82f6',
+  size: 3,
+  archived: false,
+  ...overrides
+})
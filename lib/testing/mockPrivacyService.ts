@@ -0,0 +1,35 @@
+/**
+ * Stand-in for privacyService in tests: values are "encrypted" by prefixing them with enc:,
+ * so stored rows stay readable in assertions. Install it from a test in lib/services/__tests__ with:
+ *
+ *   jest.mock('../privacyService', () => ({
+ *     privacyService: jest.requireActual('../../testing/mockPrivacyService').createMockPrivacyService()
+ *   }))
+ */
+
+export const createMockPrivacyService = () => ({
+  encryptDot: jest.fn(async ({ id, label }: { id: string; label: string }) => ({
+    id,
+    label_encrypted: `enc:${label}`,
+    label_hash: `hash:${label}`
+  })),
+  encryptDotDetails: jest.fn(async () => ({})),
+  encryptData: jest.fn(async (data: string) => ({ encrypted: `enc:${data}`, hash: `hash:${data}` })),
+  decryptData: jest.fn(async (data: string) => data.replace(/^enc:/, '')),
+  decryptCollection: jest.fn(async ({ id, name_encrypted, name_hash }: { id: string; name_encrypted: string; name_hash: string }) => ({
+    id,
+    name: name_encrypted.replace(/^enc:/, ''),
+    name_hash
+  })),
+  decryptDot: jest.fn(async ({ id, label_encrypted, label_hash }: { id: string; label_encrypted: string; label_hash: string }) => ({
+    id,
+    label: label_encrypted.replace(/^enc:/, ''),
+    label_hash
+  })),
+  decryptDotDetails: jest.fn(async () => ({})),
+  encryptReleaseLineConfig: jest.fn(async ({ enabled, color, text }: { enabled: boolean; color: string; text: string }) => ({
+    enabled,
+    color_encrypted: `enc:${color}`,
+    text_encrypted: `enc:${text}`
+  }))
+})
@@ -0,0 +1,204 @@
+/**
+ * In-memory stand-in for the Supabase client, for testing supabaseService against table rows
+ *
+ * Supports just enough of the PostgREST query builder for the service functions under
+ * test. Install it from a test in lib/services/__tests__ with:
+ *
+ *   jest.mock('../../supabaseClient', () => ({
+ *     supabase: jest.requireActual('../../testing/mockSupabaseClient').createMockSupabaseClient()
+ *   }))
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+export type MockRow = Record<string, any>
+
+type MockAction = 'select' | 'insert' | 'upsert' | 'update' | 'delete'
+// Failures can also be set up for database functions called through rpc()
+type FailingAction = MockAction | 'rpc'
+
+// Tables keyed by (id, collection_id), like the dots table
+const COMPOSITE_KEY_TABLES = ['dots']
+
+// Database functions called through rpc(), mirroring their SQL in supabase/migrations
+const RPC_FUNCTIONS: Record<string, (client: MockSupabaseClient, params: any) => MockRow[]> = {
+  get_latest_snapshot_dates: (client, { p_user_id }) => {
+    const latest = new Map<string, string>()
+    client.rows('snapshots')
+      .filter((row) => row.user_id === p_user_id && row.snapshot_date)
+      .forEach((row) => {
+        const current = latest.get(row.collection_id)
+        if (!current || row.snapshot_date > current) latest.set(row.collection_id, row.snapshot_date)
+      })
+    return Array.from(latest, ([collection_id, snapshot_date]) => ({ collection_id, snapshot_date }))
+  }
+}
+
+class MockQuery {
+  private action: MockAction = 'select'
+  private payload: any = null
+  private filters: ((row: MockRow) => boolean)[] = []
+  private onConflict: string[] = []
+  private sort: { column: string; ascending: boolean } | null = null
+  private maxRows: number | null = null
+  private singleRow: 'single' | 'maybeSingle' | null = null
+
+  constructor(private client: MockSupabaseClient, private table: string) {}
+
+  select() { return this }
+  insert(rows: MockRow[]) { return this.run('insert', rows) }
+  upsert(rows: MockRow[], options: { onConflict: string }) {
+    this.onConflict = options.onConflict.split(',')
+    return this.run('upsert', rows)
+  }
+  update(values: MockRow) { return this.run('update', values) }
+  delete() { return this.run('delete', null) }
+
+  eq(column: string, value: any) { return this.where((row) => row[column] === value) }
+  in(column: string, values: any[]) { return this.where((row) => values.includes(row[column])) }
+  gte(column: string, value: any) { return this.where((row) => row[column] >= value) }
+  lt(column: string, value: any) { return this.where((row) => row[column] < value) }
+  // Stands in for `.not(column, 'is', null)`, the only form the services use
+  not(column: string) { return this.where((row) => row[column] != null) }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.sort = { column, ascending }
+    return this
+  }
+  limit(count: number) {
+    this.maxRows = count
+    return this
+  }
+  single() {
+    this.singleRow = 'single'
+    return this
+  }
+  maybeSingle() {
+    this.singleRow = 'maybeSingle'
+    return this
+  }
+
+  then(resolve: (result: { data: any; error: any }) => void, reject?: (error: any) => void) {
+    return Promise.resolve().then(() => this.respond()).then(resolve, reject)
+  }
+
+  private run(action: MockAction, payload: any) {
+    this.action = action
+    this.payload = payload
+    return this
+  }
+
+  private where(filter: (row: MockRow) => boolean) {
+    this.filters.push(filter)
+    return this
+  }
+
+  private respond(): { data: any; error: any } {
+    const failure = this.client.takeFailure(this.table, this.action)
+    if (failure) return { data: null, error: { message: failure } }
+
+    let data: MockRow[]
+    try {
+      data = this.execute()
+    } catch (error) {
+      return { data: null, error: { message: (error as Error).message } }
+    }
+    if (this.sort) {
+      const { column, ascending } = this.sort
+      data = [...data].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1))
+    }
+    if (this.maxRows !== null) data = data.slice(0, this.maxRows)
+    if (!this.singleRow) return { data, error: null }
+
+    if (data.length === 1) return { data: data[0], error: null }
+    return this.singleRow === 'maybeSingle' && data.length === 0
+      ? { data: null, error: null }
+      : { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned' } }
+  }
+
+  private execute(): MockRow[] {
+    const rows = this.client.rows(this.table)
+    const matches = (row: MockRow) => this.filters.every((filter) => filter(row))
+
+    switch (this.action) {
+      case 'select':
+        return rows.filter(matches)
+      case 'insert': {
+        const inserted = (this.payload as MockRow[]).map((row) => ({ id: this.client.nextId(), ...row }))
+        const sameKey = (a: MockRow, b: MockRow) =>
+          a.id === b.id && (!COMPOSITE_KEY_TABLES.includes(this.table) || a.collection_id === b.collection_id)
+        if (inserted.some((row) => rows.some((existing) => sameKey(existing, row)))) {
+          throw new Error(`duplicate key value violates unique constraint "${this.table}_pkey"`)
+        }
+        rows.push(...inserted)
+        return inserted
+      }
+      case 'upsert':
+        (this.payload as MockRow[]).forEach((row) => {
+          const index = rows.findIndex((existing) => this.onConflict.every((column) => existing[column] === row[column]))
+          if (index === -1) rows.push(row)
+          else rows[index] = { ...rows[index], ...row }
+        })
+        return this.payload
+      case 'update': {
+        const updated = rows.filter(matches)
+        updated.forEach((row) => Object.assign(row, this.payload))
+        return updated
+      }
+      case 'delete': {
+        const deleted = rows.filter(matches)
+        this.client.tables[this.table] = rows.filter((row) => !matches(row))
+        return deleted
+      }
+    }
+  }
+}
+
+export class MockSupabaseClient {
+  // Rows by table, standing in for the database
+  tables: Record<string, MockRow[]> = {}
+  // Errors the next matching request returns instead of running
+  private failures: { table: string; action: FailingAction; message: string }[] = []
+  private idCounter = 0
+
+  from(table: string) {
+    return new MockQuery(this, table)
+  }
+
+  // Fail it with failNext(name, 'rpc', message)
+  async rpc(name: string, params: any): Promise<{ data: any; error: any }> {
+    const failure = this.takeFailure(name, 'rpc')
+    if (failure) return { data: null, error: { message: failure } }
+    const run = RPC_FUNCTIONS[name]
+    if (!run) return { data: null, error: { message: `Could not find the function public.${name}` } }
+    return { data: run(this, params), error: null }
+  }
+
+  // Start a test from the given rows
+  reset(tables: Record<string, MockRow[]>) {
+    this.tables = tables
+    this.failures = []
+    this.idCounter = 0
+  }
+
+  // Make the next request of this kind on the table fail with the message
+  failNext(table: string, action: FailingAction, message: string) {
+    this.failures.push({ table, action, message })
+  }
+
+  rows(table: string): MockRow[] {
+    return (this.tables[table] ??= [])
+  }
+
+  takeFailure(table: string, action: FailingAction): string | null {
+    const index = this.failures.findIndex((failure) => failure.table === table && failure.action === action)
+    return index === -1 ? null : this.failures.splice(index, 1)[0].message
+  }
+
+  nextId(): string {
+    this.idCounter += 1
+    return `row-${this.idCounter}`
+  }
+}
+
+export const createMockSupabaseClient = () => new MockSupabaseClient()
@@ -0,0 +1,38 @@
+/**
+ * Tests for named color palette helpers
+ */
+
+import { DEFAULT_COLOR_PALETTE, getColorPickerOptions, getPaletteColorName } from '../colorPaletteUtils'
+
+const palette = {
+  colors: [
+    { color: '#ef4444', name: 'Blocked' },
+    { color: '#f97316', name: 'At risk' },
+    { color: '#22c55e', name: 'On track' }
+  ],
+  showLegend: true
+}
+
+describe('colorPaletteUtils', () => {
+  it('should keep the original five colors as the default palette', () => {
+    expect(DEFAULT_COLOR_PALETTE.colors.map(entry => entry.color)).toEqual([
+      '#3b82f6', '#22c55e', '#ef4444', '#f97316', '#8b5cf6'
+    ])
+  })
+
+  it('should look up color names regardless of case', () => {
+    expect(getPaletteColorName(palette, '#EF4444')).toBe('Blocked')
+    expect(getPaletteColorName(palette, '#3b82f6')).toBeUndefined()
+  })
+
+  it('should offer the palette in the color picker', () => {
+    expect(getColorPickerOptions(palette, '#22c55e')).toEqual(palette.colors)
+  })
+
+  it('should keep a dot color that is not in the palette selectable', () => {
+    const options = getColorPickerOptions(palette, '#8b5cf6')
+
+    expect(options).toHaveLength(4)
+    expect(options[3]).toEqual({ color: '#8b5cf6', name: 'Custom' })
+  })
+})
@@ -0,0 +1,39 @@
+/**
+ * Tests for side-by-side comparison helpers
+ */
+
+import { buildComparisonLegend } from '../comparisonUtils'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+describe('comparisonUtils', () => {
+  describe('buildComparisonLegend', () => {
+    it('should pair dots of two dates by id, keeping the newer label', () => {
+      const legend = buildComparisonLegend(
+        [makeDot({ label: 'Old name', x: 20.4 })],
+        [makeDot({ label: 'New name', x: 55.6, color: '#ef4444' })],
+        true
+      )
+
+      expect(legend).toEqual([
+        { key: 'dot-1', label: 'New name', color: '#ef4444', left: 20, right: 56 }
+      ])
+    })
+
+    it('should pair dots of two collections by label', () => {
+      const legend = buildComparisonLegend(
+        [makeDot({ id: 'a', label: 'Checkout', x: 10 }), makeDot({ id: 'b', label: 'Search', x: 30 })],
+        [makeDot({ id: 'c', label: 'checkout ', x: 70 })],
+        false
+      )
+
+      expect(legend).toEqual([
+        { key: 'checkout', label: 'checkout ', color: '#3b82f6', left: 10, right: 70 },
+        { key: 'search', label: 'Search', color: '#3b82f6', left: 30 }
+      ])
+    })
+
+    it('should leave out archived dots', () => {
+      expect(buildComparisonLegend([makeDot({ archived: true })], [], true)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,27 @@
+/**
+ * Tests for dot details helpers
+ */
+
+import { formatDotUrl, getDotDetails, hasDotDetails, isDotOverdue } from '../dotDetailsUtils'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+describe('dotDetailsUtils', () => {
+  it('should pick only the details with a value', () => {
+    const dot = makeDot({ owner: 'Sam', description: '', dueDate: '2026-11-03' })
+
+    expect(getDotDetails(dot)).toEqual({ owner: 'Sam', dueDate: '2026-11-03' })
+    expect(hasDotDetails(dot)).toBe(true)
+    expect(hasDotDetails(makeDot({}))).toBe(false)
+  })
+
+  it('should flag unfinished dots past their due date', () => {
+    expect(isDotOverdue(makeDot({ x: 40, dueDate: '2026-10-01' }), '2026-10-19')).toBe(true)
+    expect(isDotOverdue(makeDot({ x: 100, dueDate: '2026-10-01' }), '2026-10-19')).toBe(false)
+    expect(isDotOverdue(makeDot({ x: 40, dueDate: '2026-10-19' }), '2026-10-19')).toBe(false)
+    expect(isDotOverdue(makeDot({ x: 40 }), '2026-10-19')).toBe(false)
+  })
+
+  it('should drop the protocol and trailing slash from links', () => {
+    expect(formatDotUrl('https://github.com/org/repo/pull/12/')).toBe('github.com/org/repo/pull/12')
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Tests for dot filter helpers
+ */
+
+import { getDotFilterOptions, isDotFilterActive, matchesDotFilter, toggleDotFilterValue, EMPTY_DOT_FILTER } from '../dotFilterUtils'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+describe('dotFilterUtils', () => {
+  describe('matchesDotFilter', () => {
+    it('should match every dot with an empty filter', () => {
+      expect(matchesDotFilter(makeDot({}), EMPTY_DOT_FILTER)).toBe(true)
+      expect(isDotFilterActive(EMPTY_DOT_FILTER)).toBe(false)
+    })
+
+    it('should match any value within a list and every list together', () => {
+      const filter = { ...EMPTY_DOT_FILTER, tags: ['Checkout', 'search'], sizes: [3] }
+
+      expect(matchesDotFilter(makeDot({ tags: ['checkout'] }), filter)).toBe(true)
+      expect(matchesDotFilter(makeDot({ tags: ['search'], size: 5 }), filter)).toBe(false)
+      expect(matchesDotFilter(makeDot({}), filter)).toBe(false)
+    })
+
+    it('should compare colors without case and owners exactly', () => {
+      expect(matchesDotFilter(makeDot({ color: '#3B82F6' }), { ...EMPTY_DOT_FILTER, colors: ['#3b82f6'] })).toBe(true)
+      expect(matchesDotFilter(makeDot({ owner: 'Sam' }), { ...EMPTY_DOT_FILTER, owners: ['Sam'] })).toBe(true)
+      expect(matchesDotFilter(makeDot({}), { ...EMPTY_DOT_FILTER, owners: ['Sam'] })).toBe(false)
+    })
+  })
+
+  it('should collect distinct options from the dots', () => {
+    const options = getDotFilterOptions([
+      makeDot({ id: 'a', tags: ['search', 'Checkout'], owner: 'Sam', size: 4 }),
+      makeDot({ id: 'b', tags: ['checkout'], color: '#EF4444', size: 2 })
+    ])
+
+    expect(options.tags).toEqual(['Checkout', 'search'])
+    expect(options.colors).toEqual(['#3b82f6', '#ef4444'])
+    expect(options.sizes).toEqual([2, 4])
+    expect(options.owners).toEqual(['Sam'])
+  })
+
+  it('should toggle values in and out of a filter list', () => {
+    const withTag = toggleDotFilterValue(EMPTY_DOT_FILTER, 'tags', 'search')
+
+    expect(withTag.tags).toEqual(['search'])
+    expect(toggleDotFilterValue(withTag, 'tags', 'search').tags).toEqual([])
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Tests for sidebar dot list sorting, grouping and manual ordering
+ */
+
+import {
+  DEFAULT_DOT_LIST_CONFIG,
+  getLastMovedTimes,
+  groupDotList,
+  moveInManualOrder,
+  sortDotList
+} from '../dotListUtils'
+import { DEFAULT_COLOR_PALETTE } from '../colorPaletteUtils'
+import type { DotHistoryEntry, DotSortMode } from '@/components/HillChartApp'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+const dots = [
+  makeDot({ id: 'a', label: 'search', x: 20, color: '#ef4444', size: 2 }),
+  makeDot({ id: 'b', label: 'Checkout', x: 80, color: '#22c55e', size: 5 }),
+  makeDot({ id: 'c', label: 'Billing 10', x: 50, color: '#abcdef', size: 2 }),
+  makeDot({ id: 'd', label: 'Billing 9', x: 97, color: '#3b82f6', size: 1 })
+]
+
+const sortIds = (sortMode: DotSortMode, extra: Partial<typeof DEFAULT_DOT_LIST_CONFIG> = {}, lastMoved?: Record<string, number>) =>
+  sortDotList(dots, { ...DEFAULT_DOT_LIST_CONFIG, sortMode, ...extra }, { palette: DEFAULT_COLOR_PALETTE, lastMoved })
+    .map((dot) => dot.id)
+
+describe('dotListUtils', () => {
+  describe('sortDotList', () => {
+    it('should sort by position, furthest along first', () => {
+      expect(sortIds('position')).toEqual(['d', 'b', 'c', 'a'])
+    })
+
+    it('should sort names without case and with numbers in order', () => {
+      expect(sortIds('name')).toEqual(['d', 'c', 'b', 'a'])
+    })
+
+    it('should sort colors in palette order, with other colors last', () => {
+      expect(sortIds('color')).toEqual(['d', 'b', 'a', 'c'])
+    })
+
+    it('should sort larger dots first and break ties by position', () => {
+      expect(sortIds('size')).toEqual(['b', 'c', 'a', 'd'])
+    })
+
+    it('should sort the most recently moved first', () => {
+      expect(sortIds('lastMoved', {}, { a: 300, c: 100 })).toEqual(['a', 'c', 'd', 'b'])
+    })
+
+    it('should follow the manual order, with new dots after it by position', () => {
+      expect(sortIds('manual', { manualOrder: ['c', 'a', 'deleted'] })).toEqual(['c', 'a', 'd', 'b'])
+    })
+  })
+
+  describe('groupDotList', () => {
+    it('should split dots at the peak and near the end, keeping the order', () => {
+      const groups = groupDotList(sortDotList(dots, DEFAULT_DOT_LIST_CONFIG, { palette: DEFAULT_COLOR_PALETTE }))
+
+      expect(groups.map((group) => [group.title, group.dots.map((dot) => dot.id)])).toEqual([
+        ['Up the hill', ['a']],
+        ['Over the top', ['b', 'c']],
+        ['Done', ['d']]
+      ])
+    })
+
+    it('should leave out empty groups', () => {
+      expect(groupDotList([makeDot({ x: 10 })]).map((group) => group.key)).toEqual(['upHill'])
+    })
+  })
+
+  describe('moveInManualOrder', () => {
+    it('should move a dot to the position of the target', () => {
+      expect(moveInManualOrder(['a', 'b', 'c', 'd'], 'a', 'c')).toEqual(['b', 'c', 'a', 'd'])
+      expect(moveInManualOrder(['a', 'b', 'c', 'd'], 'd', 'b')).toEqual(['a', 'd', 'b', 'c'])
+    })
+
+    it('should keep the order when either dot is missing', () => {
+      expect(moveInManualOrder(['a', 'b'], 'x', 'a')).toEqual(['a', 'b'])
+    })
+  })
+
+  describe('getLastMovedTimes', () => {
+    it('should take the latest creation or position change of each dot', () => {
+      const entry = (dotId: string, timestamp: number, type: DotHistoryEntry['type'], field?: 'x' | 'label'): DotHistoryEntry => ({
+        id: `${dotId}-${timestamp}`,
+        dotId,
+        collectionId: 'c1',
+        type,
+        label: dotId,
+        changes: field ? [{ field, from: 0, to: 1 }] : [],
+        timestamp
+      })
+
+      expect(getLastMovedTimes([
+        entry('a', 100, 'created'),
+        entry('a', 300, 'updated', 'x'),
+        entry('a', 500, 'updated', 'label'),
+        entry('b', 200, 'created')
+      ])).toEqual({ a: 300, b: 200 })
+    })
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Tests for hill chart geometry helpers
+ */
+
+import { countHillSides, generatePhaseZonePath, getDotAriaLabel, getHillY, layoutDotLabels, placeDotsOnHill } from '../hillChartUtils'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+describe('hillChartUtils', () => {
+  describe('getHillY', () => {
+    it('should peak in the middle and mirror on both sides', () => {
+      expect(getHillY(50)).toBeCloseTo(-5)
+      expect(getHillY(25)).toBeCloseTo(getHillY(75))
+      expect(getHillY(25)).toBeGreaterThan(getHillY(50))
+    })
+
+    it('should move the top of the hill to the configured peak', () => {
+      const curve = { peak: 30, steepness: 1, zones: [] }
+
+      expect(getHillY(30, curve)).toBeCloseTo(-5)
+      expect(getHillY(50, curve)).toBeGreaterThan(getHillY(30, curve))
+      // Both ends still sit on the base line
+      expect(getHillY(0, curve)).toBeCloseTo(getHillY(100, curve))
+    })
+
+    it('should narrow the hill as steepness grows', () => {
+      const gentle = { peak: 50, steepness: 0.5, zones: [] }
+      const steep = { peak: 50, steepness: 2, zones: [] }
+
+      expect(getHillY(30, steep)).toBeGreaterThan(getHillY(30, gentle))
+    })
+  })
+
+  describe('placeDotsOnHill', () => {
+    it('should recompute y from x on the given curve', () => {
+      const curve = { peak: 70, steepness: 1, zones: [] }
+      const [dot] = placeDotsOnHill([makeDot({ x: 70, y: 120 })], curve)
+
+      expect(dot.y).toBeCloseTo(-5)
+    })
+  })
+
+  describe('generatePhaseZonePath', () => {
+    it('should close the zone on the base line at both ends', () => {
+      const path = generatePhaseZonePath({ name: 'Figuring it out', start: 0, end: 50, color: '#3b82f6' })
+
+      expect(path.startsWith('M 0 150')).toBe(true)
+      expect(path.endsWith('L 300 150 Z')).toBe(true)
+    })
+  })
+
+  describe('countHillSides', () => {
+    it('should split active dots at the top of the hill and skip archived ones', () => {
+      const counts = countHillSides([
+        makeDot({ id: 'a', x: 10 }),
+        makeDot({ id: 'b', x: 49.9 }),
+        makeDot({ id: 'c', x: 50 }),
+        makeDot({ id: 'd', x: 90, archived: true })
+      ])
+
+      expect(counts).toEqual({ upHill: 2, downHill: 1 })
+    })
+
+    it('should split at a configured peak', () => {
+      const counts = countHillSides(
+        [makeDot({ id: 'a', x: 40 }), makeDot({ id: 'b', x: 60 })],
+        { peak: 65, steepness: 1, zones: [] }
+      )
+
+      expect(counts).toEqual({ upHill: 2, downHill: 0 })
+    })
+  })
+
+  describe('getDotAriaLabel', () => {
+    it('should announce the name, rounded progress and side of the hill', () => {
+      expect(getDotAriaLabel(makeDot({ label: 'Checkout', x: 34.6 }))).toBe('Checkout, 35%, up-hill')
+      expect(getDotAriaLabel(makeDot({ label: 'Search', x: 50 }))).toBe('Search, 50%, down-hill')
+    })
+
+    it('should use the configured peak for the side', () => {
+      const curve = { peak: 70, steepness: 1, zones: [] }
+
+      expect(getDotAriaLabel(makeDot({ label: 'Search', x: 60 }), curve)).toBe('Search, 60%, up-hill')
+    })
+  })
+
+  describe('layoutDotLabels', () => {
+    it('should stack labels of dots at the same spot', () => {
+      const positions = layoutDotLabels([
+        makeDot({ id: 'a', x: 50, y: 100 }),
+        makeDot({ id: 'b', x: 50, y: 100 })
+      ])
+
+      expect(positions.a.stackLevel).toBe(0)
+      expect(positions.b.stackLevel).toBeGreaterThan(0)
+      expect(positions.b.y).not.toBe(positions.a.y)
+    })
+
+    it('should place a dragged dot label at the drag position', () => {
+      const positions = layoutDotLabels([makeDot({ id: 'a', x: 10, y: 100 })], { id: 'a', x: 50, y: 20 })
+
+      expect(positions.a.displayX).toBe(300)
+      expect(positions.a.y).toBe(-15)
+    })
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Tests for the quick-add dot syntax
+ */
+
+import { isQuickAddList, parseQuickAdd, parseQuickAddList, splitByLabelLength } from '../quickAddUtils'
+import { DEFAULT_COLOR_PALETTE } from '../colorPaletteUtils'
+import type { ColorPaletteConfig } from '@/components/HillChartApp'
+
+describe('quickAddUtils', () => {
+  describe('parseQuickAdd', () => {
+    it('should read the color, size and position tokens', () => {
+      expect(parseQuickAdd('Checkout flow #red !4 @35%', DEFAULT_COLOR_PALETTE)).toEqual({
+        label: 'Checkout flow',
+        color: '#ef4444',
+        size: 4,
+        x: 35
+      })
+    })
+
+    it('should accept tokens anywhere and without the percent sign', () => {
+      expect(parseQuickAdd('@70 Search !2 results', DEFAULT_COLOR_PALETTE)).toEqual({
+        label: 'Search results',
+        size: 2,
+        x: 70
+      })
+    })
+
+    it('should match multi-word palette names and hex colors', () => {
+      const palette: ColorPaletteConfig = { colors: [{ color: '#1e3a8a', name: 'Dark Blue' }], showLegend: false }
+
+      expect(parseQuickAdd('API #darkblue', palette).color).toBe('#1e3a8a')
+      expect(parseQuickAdd('API #A855F7', palette).color).toBe('#a855f7')
+    })
+
+    it('should keep tokens that do not parse in the label', () => {
+      expect(parseQuickAdd('Issue #123 !9 @150%', DEFAULT_COLOR_PALETTE)).toEqual({
+        label: 'Issue #123 !9 @150%'
+      })
+    })
+  })
+
+  describe('parseQuickAddList', () => {
+    it('should add one dot per line and drop bullets and blank lines', () => {
+      const dots = parseQuickAddList('- Checkout #green\n\n2. Search @80%\r\n• Billing', DEFAULT_COLOR_PALETTE)
+
+      expect(dots).toEqual([
+        { label: 'Checkout', color: '#22c55e' },
+        { label: 'Search', x: 80 },
+        { label: 'Billing' }
+      ])
+    })
+  })
+
+  describe('splitByLabelLength', () => {
+    it('should set aside labels over the length limit without shortening them', () => {
+      const longLabel = 'Migrate billing to the new provider'
+      const dots = parseQuickAddList(`Checkout #green\n${longLabel}\nSearch`, DEFAULT_COLOR_PALETTE)
+
+      expect(splitByLabelLength(dots)).toEqual({
+        fitting: [{ label: 'Checkout', color: '#22c55e' }, { label: 'Search' }],
+        tooLong: [{ label: longLabel }]
+      })
+    })
+  })
+
+  describe('isQuickAddList', () => {
+    it('should ignore a trailing newline on a single line', () => {
+      expect(isQuickAddList('Checkout\n')).toBe(false)
+      expect(isQuickAddList('Checkout\nSearch')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Tests for snapshot playback and trail helpers
+ */
+
+import { getCollectionSnapshots, mergeSnapshotSummaries, interpolateSnapshotDots, getPlaybackFrame, buildDotTrails } from '../snapshotUtils'
+import type { Dot, Snapshot } from '@/components/HillChartApp'
+import { makeDot } from '@/lib/testing/dotFixtures'
+
+const flatHill = (x: number) => x
+
+const makeSnapshot = (timestamp: number, dots: Dot[], collectionId = 'collection-1'): Snapshot => ({
+  date: new Date(timestamp).toISOString().split('T')[0],
+  collectionId,
+  collectionName: 'Collection',
+  dots,
+  timestamp
+})
+
+describe('snapshotUtils', () => {
+  describe('getCollectionSnapshots', () => {
+    it('should keep only the collection snapshots, oldest first', () => {
+      const snapshots = [
+        makeSnapshot(3000, []),
+        makeSnapshot(1000, []),
+        makeSnapshot(2000, [], 'collection-2')
+      ]
+
+      const result = getCollectionSnapshots(snapshots, 'collection-1')
+
+      expect(result.map(s => s.timestamp)).toEqual([1000, 3000])
+    })
+
+    it('should return an empty list without a collection', () => {
+      expect(getCollectionSnapshots([makeSnapshot(1000, [])], null)).toEqual([])
+    })
+  })
+
+  describe('mergeSnapshotSummaries', () => {
+    it('should add new summaries and replace known ones by id', () => {
+      const summary = { id: 'a', date: '2024-01-01', collectionId: 'collection-1', timestamp: 1000 }
+
+      const result = mergeSnapshotSummaries(
+        [summary, { ...summary, id: 'b' }],
+        [{ ...summary, pinned: true }, { ...summary, id: 'c' }]
+      )
+
+      expect(result.map(s => s.id)).toEqual(['a', 'b', 'c'])
+      expect(result[0].pinned).toBe(true)
+    })
+  })
+
+  describe('interpolateSnapshotDots', () => {
+    it('should move matched dots along the curve', () => {
+      const from = makeSnapshot(1000, [makeDot({ x: 20 })])
+      const to = makeSnapshot(2000, [makeDot({ x: 60 })])
+
+      const [dot] = interpolateSnapshotDots(from, to, 0.5, flatHill)
+
+      expect(dot.x).toBe(40)
+      expect(dot.y).toBe(40)
+      expect(dot.opacity).toBe(1)
+    })
+
+    it('should fade in added dots and fade out archived dots', () => {
+      const from = makeSnapshot(1000, [makeDot({ id: 'old', x: 10 })])
+      const to = makeSnapshot(2000, [
+        makeDot({ id: 'old', x: 10, archived: true }),
+        makeDot({ id: 'new', x: 30 })
+      ])
+
+      const frame = interpolateSnapshotDots(from, to, 0.25, flatHill)
+
+      expect(frame.find(d => d.id === 'old')?.opacity).toBe(0.75)
+      expect(frame.find(d => d.id === 'new')?.opacity).toBe(0.25)
+      expect(frame.find(d => d.id === 'new')?.x).toBe(30)
+    })
+  })
+
+  describe('getPlaybackFrame', () => {
+    it('should interpolate between the snapshots around the position', () => {
+      const snapshots = [
+        makeSnapshot(1000, [makeDot({ x: 0 })]),
+        makeSnapshot(2000, [makeDot({ x: 50 })]),
+        makeSnapshot(3000, [makeDot({ x: 100 })])
+      ]
+
+      expect(getPlaybackFrame(snapshots, 1.5, flatHill)[0].x).toBe(75)
+      expect(getPlaybackFrame(snapshots, 5, flatHill)[0].x).toBe(100)
+    })
+
+    it('should return an empty frame without snapshots', () => {
+      expect(getPlaybackFrame([], 0, flatHill)).toEqual([])
+    })
+  })
+
+  describe('buildDotTrails', () => {
+    const snapshots = [
+      makeSnapshot(1000, [makeDot({ x: 10 })]),
+      makeSnapshot(2000, [makeDot({ x: 40 })]),
+      makeSnapshot(3000, [makeDot({ x: 30 }), makeDot({ id: 'dot-2', x: 5 })])
+    ]
+
+    it('should trace each dot through the last snapshots', () => {
+      const trails = buildDotTrails(snapshots, [makeDot({ x: 50 })], 2)
+
+      expect(trails).toHaveLength(1)
+      expect(trails[0].points.map(p => p.x)).toEqual([40, 30])
+      expect(trails[0].points.map(p => p.regressed)).toEqual([false, true])
+    })
+
+    it('should skip archived dots and dots never captured', () => {
+      const trails = buildDotTrails(
+        snapshots,
+        [makeDot({ archived: true }), makeDot({ id: 'dot-3' })],
+        10
+      )
+
+      expect(trails).toEqual([])
+    })
+
+    it('should return no trails for a zero length', () => {
+      expect(buildDotTrails(snapshots, [makeDot({})], 0)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Chart Export Utilities - Turn on-screen hill chart SVGs into standalone images
+ *
+ * Theme colors in the live SVG come from CSS classes and variables, which do not
+ * survive serialization, so exported copies get explicit colors and fonts.
+ */
+
+export const EXPORT_WIDTH = 800
+export const EXPORT_HEIGHT = 360
+
+const getExportColors = () => {
+  const isDarkMode = document.documentElement.classList.contains("dark")
+  return {
+    backgroundColor: isDarkMode ? "#0f0f0f" : "#ffffff",
+    textColor: isDarkMode ? "#fafafa" : "#0a0a0a",
+    mutedColor: isDarkMode ? "#a1a1aa" : "#71717a",
+    borderColor: isDarkMode ? "#27272a" : "#e4e4e7",
+  }
+}
+
+export const getExportBackgroundColor = (): string => getExportColors().backgroundColor
+
+/**
+ * Clone a chart SVG with inline colors and fonts, sized for export
+ */
+export const prepareSvgForExport = (svg: SVGSVGElement): SVGSVGElement => {
+  const { backgroundColor, textColor, mutedColor, borderColor } = getExportColors()
+
+  const svgElement = svg.cloneNode(true) as SVGSVGElement
+  svgElement.setAttribute("width", String(EXPORT_WIDTH))
+  svgElement.setAttribute("height", String(EXPORT_HEIGHT))
+  svgElement.style.backgroundColor = backgroundColor
+  svgElement.setAttribute("viewBox", "-50 0 700 180")
+
+  // Touch hit areas around the dots are invisible and only matter on screen
+  svgElement.querySelectorAll("[data-hit-area]").forEach((element) => element.remove())
+
+  const paths = svgElement.querySelectorAll("path")
+  paths.forEach((path) => {
+    if (path.getAttribute("stroke") === "currentColor") path.setAttribute("stroke", textColor)
+  })
+
+  const lines = svgElement.querySelectorAll("line")
+  lines.forEach((line) => {
+    if (line.getAttribute("stroke") === "currentColor") line.setAttribute("stroke", textColor)
+    if (line.getAttribute("stroke") === "hsl(var(--muted-foreground))") line.setAttribute("stroke", mutedColor)
+  })
+
+  const texts = svgElement.querySelectorAll("text")
+  texts.forEach((text) => {
+    text.setAttribute("font-family", "Arial, Helvetica, sans-serif")
+    if (text.classList.contains("fill-foreground")) text.setAttribute("fill", textColor)
+    if (text.classList.contains("fill-muted-foreground")) text.setAttribute("fill", mutedColor)
+
+    const currentFontSize = text.getAttribute("fontSize") || text.style.fontSize
+    if (currentFontSize) {
+      text.setAttribute("font-size", currentFontSize)
+    } else {
+      if (text.classList.contains("text-[8px]")) text.setAttribute("font-size", "8px")
+      else if (text.classList.contains("text-[10px]")) text.setAttribute("font-size", "10px")
+      else if (text.classList.contains("text-sm")) text.setAttribute("font-size", "14px")
+      else {
+        const fontSizeAttr = text.getAttribute("fontSize")
+        if (fontSizeAttr) text.setAttribute("font-size", fontSizeAttr + "px")
+      }
+    }
+    if (text.classList.contains("font-semibold")) text.setAttribute("font-weight", "600")
+    else if (text.classList.contains("font-medium")) text.setAttribute("font-weight", "500")
+    else if (text.classList.contains("font-normal")) text.setAttribute("font-weight", "400")
+  })
+
+  const rects = svgElement.querySelectorAll("rect")
+  rects.forEach((rect) => {
+    if (rect.getAttribute("fill") === "hsl(var(--background))") rect.setAttribute("fill", backgroundColor)
+    if (rect.getAttribute("stroke") === "hsl(var(--border))") rect.setAttribute("stroke", borderColor)
+  })
+
+  return svgElement
+}
+
+export interface ExportLegendItem {
+  label: string
+  color: string
+}
+
+const LEGEND_ROW_HEIGHT = 20
+const LEGEND_COLUMNS = 4
+
+/**
+ * Place several charts next to each other in one SVG, with a shared legend underneath
+ */
+export const combineChartsForExport = (
+  charts: SVGSVGElement[],
+  legend: ExportLegendItem[] = []
+): { svg: string; width: number; height: number } => {
+  const { backgroundColor, textColor } = getExportColors()
+  const namespace = "http://www.w3.org/2000/svg"
+  const legendRows = Math.ceil(legend.length / LEGEND_COLUMNS)
+  const width = EXPORT_WIDTH * charts.length
+  const height = EXPORT_HEIGHT + (legendRows > 0 ? legendRows * LEGEND_ROW_HEIGHT + 20 : 0)
+
+  const combined = document.createElementNS(namespace, "svg")
+  combined.setAttribute("xmlns", namespace)
+  combined.setAttribute("width", String(width))
+  combined.setAttribute("height", String(height))
+  combined.setAttribute("viewBox", `0 0 ${width} ${height}`)
+
+  const background = document.createElementNS(namespace, "rect")
+  background.setAttribute("width", String(width))
+  background.setAttribute("height", String(height))
+  background.setAttribute("fill", backgroundColor)
+  combined.appendChild(background)
+
+  charts.forEach((chart, index) => {
+    const prepared = prepareSvgForExport(chart)
+    prepared.setAttribute("x", String(index * EXPORT_WIDTH))
+    prepared.setAttribute("y", "0")
+    combined.appendChild(prepared)
+  })
+
+  const columnWidth = width / LEGEND_COLUMNS
+  legend.forEach((item, index) => {
+    const x = (index % LEGEND_COLUMNS) * columnWidth + 24
+    const y = EXPORT_HEIGHT + 10 + Math.floor(index / LEGEND_COLUMNS) * LEGEND_ROW_HEIGHT
+
+    const swatch = document.createElementNS(namespace, "circle")
+    swatch.setAttribute("cx", String(x))
+    swatch.setAttribute("cy", String(y + 6))
+    swatch.setAttribute("r", "5")
+    swatch.setAttribute("fill", item.color)
+    combined.appendChild(swatch)
+
+    const text = document.createElementNS(namespace, "text")
+    text.setAttribute("x", String(x + 12))
+    text.setAttribute("y", String(y + 10))
+    text.setAttribute("font-family", "Arial, Helvetica, sans-serif")
+    text.setAttribute("font-size", "12px")
+    text.setAttribute("fill", textColor)
+    text.textContent = item.label
+    combined.appendChild(text)
+  })
+
+  return { svg: new XMLSerializer().serializeToString(combined), width, height }
+}
+
+/**
+ * Render an SVG string to a PNG blob at 3x resolution
+ */
+export const renderSvgToPngBlob = (svgString: string, width: number, height: number): Promise<Blob | null> =>
+  new Promise((resolve) => {
+    const canvas = document.createElement("canvas")
+    const ctx = canvas.getContext("2d")
+    if (!ctx) {
+      resolve(null)
+      return
+    }
+
+    const scale = 3
+    canvas.width = width * scale
+    canvas.height = height * scale
+    ctx.imageSmoothingEnabled = true
+    ctx.imageSmoothingQuality = "high"
+    ctx.scale(scale, scale)
+    ctx.fillStyle = getExportBackgroundColor()
+    ctx.fillRect(0, 0, width, height)
+
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+    const url = URL.createObjectURL(new Blob([svgString], { type: "image/svg+xml;charset=utf-8" }))
+
+    img.onload = () => {
+      ctx.drawImage(img, 0, 0, width, height)
+      URL.revokeObjectURL(url)
+      canvas.toBlob((blob) => resolve(blob), "image/png", 1.0)
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      resolve(null)
+    }
+    img.src = url
+  })
@@ -0,0 +1,32 @@
+/**
+ * Color Palette Utilities - Named dot colors for the picker and the chart legend
+ */
+
+import type { ColorPaletteConfig, PaletteColor } from "@/components/HillChartApp"
+
+// The five colors every collection started with, before palettes could be edited
+export const DEFAULT_COLOR_PALETTE: ColorPaletteConfig = {
+  colors: [
+    { color: "#3b82f6", name: "Blue" },
+    { color: "#22c55e", name: "Green" },
+    { color: "#ef4444", name: "Red" },
+    { color: "#f97316", name: "Orange" },
+    { color: "#8b5cf6", name: "Purple" },
+  ],
+  showLegend: false,
+}
+
+/**
+ * Name of a color in the palette, or undefined when the palette doesn't have it
+ */
+export const getPaletteColorName = (palette: ColorPaletteConfig, color: string): string | undefined =>
+  palette.colors.find((entry) => entry.color.toLowerCase() === color.toLowerCase())?.name
+
+/**
+ * Options for a dot's color picker: the palette, plus the dot's current color
+ * when it isn't part of the palette (set by a rule, an import or an older palette)
+ */
+export const getColorPickerOptions = (palette: ColorPaletteConfig, currentColor: string): PaletteColor[] =>
+  getPaletteColorName(palette, currentColor) === undefined
+    ? [...palette.colors, { color: currentColor, name: "Custom" }]
+    : palette.colors
@@ -0,0 +1,41 @@
+/**
+ * Comparison Utilities - Match dots across two hill charts shown side by side
+ *
+ * Two dates of the same collection share dot IDs. Two different collections
+ * do not, so their dots are matched by label instead.
+ */
+
+import type { Dot } from '@/components/HillChartApp'
+
+export interface ComparisonLegendEntry {
+  key: string
+  label: string
+  color: string
+  // Hill progress (0-100) on each side; missing when the dot is not on that chart
+  left?: number
+  right?: number
+}
+
+export const getComparisonDotKey = (dot: Dot, matchById: boolean): string =>
+  matchById ? dot.id : dot.label.trim().toLowerCase()
+
+/**
+ * Build one legend for both charts, pairing matching dots
+ */
+export const buildComparisonLegend = (leftDots: Dot[], rightDots: Dot[], matchById: boolean): ComparisonLegendEntry[] => {
+  const entries = new Map<string, ComparisonLegendEntry>()
+
+  leftDots.filter(dot => !dot.archived).forEach(dot => {
+    const key = getComparisonDotKey(dot, matchById)
+    entries.set(key, { key, label: dot.label, color: dot.color, left: Math.round(dot.x) })
+  })
+
+  rightDots.filter(dot => !dot.archived).forEach(dot => {
+    const key = getComparisonDotKey(dot, matchById)
+    const existing = entries.get(key)
+    // The right side is the newer or second chart, so its label and color win
+    entries.set(key, { ...existing, key, label: dot.label, color: dot.color, right: Math.round(dot.x) })
+  })
+
+  return Array.from(entries.values()).sort((a, b) => a.label.localeCompare(b.label))
+}
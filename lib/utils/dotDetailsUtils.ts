@@ -0,0 +1,37 @@
+/**
+ * Dot Details Utilities - Helpers for the optional description, owner, link, due date and tags of a dot
+ */
+
+import type { Dot, DotDetails } from "@/components/HillChartApp"
+
+/**
+ * The details a dot has a value for; empty when it has none
+ */
+export const getDotDetails = (dot: Dot): DotDetails => {
+  const details: DotDetails = {}
+  if (dot.description) details.description = dot.description
+  if (dot.owner) details.owner = dot.owner
+  if (dot.url) details.url = dot.url
+  if (dot.dueDate) details.dueDate = dot.dueDate
+  if (dot.tags?.length) details.tags = dot.tags
+  return details
+}
+
+export const hasDotDetails = (dot: Dot): boolean => Object.keys(getDotDetails(dot)).length > 0
+
+/**
+ * Due date as a short local date, e.g. "Mar 4"
+ */
+export const formatDueDate = (date: string): string =>
+  new Date(`${date}T00:00:00`).toLocaleDateString([], { month: "short", day: "numeric" })
+
+/**
+ * Whether an unfinished dot is past its due date; today is a YYYY-MM-DD string
+ */
+export const isDotOverdue = (dot: Dot, today: string): boolean =>
+  Boolean(dot.dueDate && dot.dueDate < today && dot.x < 100)
+
+/**
+ * Host and path of a link without the protocol, for compact display
+ */
+export const formatDotUrl = (url: string): string => url.replace(/^https?:\/\//, "").replace(/\/$/, "")
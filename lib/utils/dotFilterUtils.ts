@@ -0,0 +1,62 @@
+/**
+ * Dot Filter Utilities - Narrow a chart down to one workstream by tag, color, size or owner
+ */
+
+import type { Dot, DotFilter } from "@/components/HillChartApp"
+
+export const EMPTY_DOT_FILTER: DotFilter = {
+  tags: [],
+  colors: [],
+  sizes: [],
+  owners: [],
+}
+
+export const isDotFilterActive = (filter: DotFilter): boolean =>
+  filter.tags.length > 0 || filter.colors.length > 0 || filter.sizes.length > 0 || filter.owners.length > 0
+
+/**
+ * Whether a dot passes the filter: every non-empty list must match, and any value in a list matches.
+ * Tags and colors compare without case.
+ */
+export const matchesDotFilter = (dot: Dot, filter: DotFilter): boolean => {
+  const dotTags = (dot.tags || []).map((tag) => tag.toLowerCase())
+
+  return (
+    (filter.tags.length === 0 || filter.tags.some((tag) => dotTags.includes(tag.toLowerCase()))) &&
+    (filter.colors.length === 0 || filter.colors.some((color) => color.toLowerCase() === dot.color.toLowerCase())) &&
+    (filter.sizes.length === 0 || filter.sizes.includes(dot.size)) &&
+    (filter.owners.length === 0 || (dot.owner !== undefined && filter.owners.includes(dot.owner)))
+  )
+}
+
+/**
+ * Values the filter bar can offer, taken from the dots themselves and sorted for display
+ */
+export const getDotFilterOptions = (dots: Dot[]): DotFilter => {
+  const tags = new Map<string, string>()
+  dots.forEach((dot) => (dot.tags || []).forEach((tag) => {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag)
+  }))
+
+  return {
+    tags: Array.from(tags.values()).sort((a, b) => a.localeCompare(b)),
+    colors: Array.from(new Set(dots.map((dot) => dot.color.toLowerCase()))),
+    sizes: Array.from(new Set(dots.map((dot) => dot.size))).sort((a, b) => a - b),
+    owners: Array.from(new Set(dots.flatMap((dot) => (dot.owner ? [dot.owner] : [])))).sort((a, b) => a.localeCompare(b)),
+  }
+}
+
+/**
+ * Add a value to a filter list, or remove it when it is already there
+ */
+export const toggleDotFilterValue = <K extends keyof DotFilter>(
+  filter: DotFilter,
+  key: K,
+  value: DotFilter[K][number]
+): DotFilter => {
+  const values = filter[key] as Array<DotFilter[K][number]>
+  return {
+    ...filter,
+    [key]: values.includes(value) ? values.filter((v) => v !== value) : [...values, value],
+  }
+}
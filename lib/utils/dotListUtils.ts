@@ -0,0 +1,107 @@
+/**
+ * Dot List Utilities - Sorting, grouping and manual ordering of the sidebar dot list
+ */
+
+import type { ColorPaletteConfig, Dot, DotHistoryEntry, DotListConfig, DotSortMode, HillCurveConfig } from "@/components/HillChartApp"
+import { DEFAULT_HILL_CURVE, getHillSide } from "./hillChartUtils"
+
+// Collections without saved settings keep the original list: by position, ungrouped
+export const DEFAULT_DOT_LIST_CONFIG: DotListConfig = {
+  sortMode: "position",
+  groupBySide: false,
+  manualOrder: [],
+}
+
+export const DOT_SORT_MODE_LABELS: Record<DotSortMode, string> = {
+  position: "Position",
+  name: "Name",
+  color: "Color",
+  size: "Size",
+  lastMoved: "Last moved",
+  manual: "Manual",
+}
+
+// Dots this far along the hill (or further) count as done
+const DONE_THRESHOLD = 95
+
+export type DotListGroupKey = "upHill" | "overTheTop" | "done"
+
+export interface DotListGroup {
+  key: DotListGroupKey
+  title: string
+  dots: Dot[]
+}
+
+const byPosition = (a: Dot, b: Dot) => b.x - a.x
+
+/**
+ * When each dot last moved along the hill, from its history; creation counts as a move
+ */
+export const getLastMovedTimes = (history: DotHistoryEntry[]): Record<string, number> => {
+  const lastMoved: Record<string, number> = {}
+  history.forEach((entry) => {
+    const moved = entry.type === "created" || entry.changes.some((change) => change.field === "x")
+    if (moved && entry.timestamp > (lastMoved[entry.dotId] ?? 0)) {
+      lastMoved[entry.dotId] = entry.timestamp
+    }
+  })
+  return lastMoved
+}
+
+/**
+ * Sort dots for the sidebar. Ties, and dots the mode knows nothing about, fall back to position.
+ */
+export const sortDotList = (
+  dots: Dot[],
+  config: DotListConfig,
+  { palette, lastMoved = {} }: { palette: ColorPaletteConfig; lastMoved?: Record<string, number> }
+): Dot[] => {
+  const paletteIndex = (color: string) => {
+    const index = palette.colors.findIndex((entry) => entry.color.toLowerCase() === color.toLowerCase())
+    // Colors outside the palette go after it
+    return index === -1 ? palette.colors.length : index
+  }
+  const manualIndex = new Map(config.manualOrder.map((id, index) => [id, index]))
+
+  const compare: Record<DotSortMode, (a: Dot, b: Dot) => number> = {
+    position: () => 0,
+    name: (a, b) => a.label.localeCompare(b.label, undefined, { sensitivity: "base", numeric: true }),
+    color: (a, b) => paletteIndex(a.color) - paletteIndex(b.color),
+    size: (a, b) => b.size - a.size,
+    lastMoved: (a, b) => (lastMoved[b.id] ?? 0) - (lastMoved[a.id] ?? 0),
+    manual: (a, b) =>
+      (manualIndex.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (manualIndex.get(b.id) ?? Number.MAX_SAFE_INTEGER),
+  }
+
+  return [...dots].sort((a, b) => compare[config.sortMode](a, b) || byPosition(a, b))
+}
+
+/**
+ * Split a sorted list into Up the hill, Over the top and Done, keeping the order and leaving out empty groups
+ */
+export const groupDotList = (dots: Dot[], curve: HillCurveConfig = DEFAULT_HILL_CURVE): DotListGroup[] => {
+  const groups: Record<DotListGroupKey, DotListGroup> = {
+    upHill: { key: "upHill", title: "Up the hill", dots: [] },
+    overTheTop: { key: "overTheTop", title: "Over the top", dots: [] },
+    done: { key: "done", title: "Done", dots: [] },
+  }
+  dots.forEach((dot) => {
+    const key: DotListGroupKey =
+      dot.x >= DONE_THRESHOLD ? "done" : getHillSide(dot.x, curve) === "up-hill" ? "upHill" : "overTheTop"
+    groups[key].dots.push(dot)
+  })
+  return Object.values(groups).filter((group) => group.dots.length > 0)
+}
+
+/**
+ * New manual order after moving a dot to where another one is, given the list in its current order
+ */
+export const moveInManualOrder = (orderedIds: string[], dotId: string, targetId: string): string[] => {
+  const from = orderedIds.indexOf(dotId)
+  const to = orderedIds.indexOf(targetId)
+  if (from === -1 || to === -1 || from === to) return orderedIds
+
+  const order = orderedIds.filter((id) => id !== dotId)
+  order.splice(to, 0, dotId)
+  return order
+}
@@ -0,0 +1,243 @@
+/**
+ * Hill Chart Utilities - Geometry shared by every hill chart
+ *
+ * The bell curve (shaped per collection by its curve settings), the hill
+ * height at a given progress, phase zone shading, and the label layout
+ * that stacks colliding dot labels. Used by the main chart in HillChartApp
+ * and by the read-only charts (side-by-side comparison, portfolio dashboard).
+ */
+
+import type { Dot, HillCurveConfig, PhaseZone } from '@/components/HillChartApp'
+
+// Chart coordinates: the hill spans x 0-600 and sits on the base line at y 150
+export const HILL_WIDTH = 600
+const HILL_HEIGHT = 150
+const HILL_BASE_Y = 145
+export const BASE_LINE_Y = 150
+
+// Symmetric bell peaking in the middle, the shape every collection starts with
+export const DEFAULT_HILL_CURVE: HillCurveConfig = { peak: 50, steepness: 1, zones: [] }
+
+// Each side of the peak is its own half-bell, so an off-center peak still meets the base line at both ends
+const getCurveY = (svgX: number, curve: HillCurveConfig) => {
+  const peakX = (curve.peak / 100) * HILL_WIDTH
+  const sideWidth = svgX < peakX ? peakX : HILL_WIDTH - peakX
+  const normalizedX = (svgX - peakX) / (sideWidth / 3 / curve.steepness)
+  return HILL_BASE_Y - HILL_HEIGHT * Math.exp(-0.5 * normalizedX * normalizedX)
+}
+
+const getCurvePoints = (fromX: number, toX: number, curve: HillCurveConfig) => {
+  const points: string[] = []
+  for (let x = fromX; x < toX; x += 5) {
+    points.push(`${x} ${getCurveY(x, curve)}`)
+  }
+  points.push(`${toX} ${getCurveY(toX, curve)}`)
+  return points
+}
+
+export const generateBellCurvePath = (curve: HillCurveConfig = DEFAULT_HILL_CURVE) =>
+  getCurvePoints(0, HILL_WIDTH, curve)
+    .map((point, index) => `${index === 0 ? "M" : "L"} ${point}`)
+    .join(" ")
+
+/**
+ * Area between the curve and the base line covered by a phase zone
+ */
+export const generatePhaseZonePath = (zone: PhaseZone, curve: HillCurveConfig = DEFAULT_HILL_CURVE) => {
+  const startX = (zone.start / 100) * HILL_WIDTH
+  const endX = (zone.end / 100) * HILL_WIDTH
+  const curvePoints = getCurvePoints(startX, endX, curve).map(point => `L ${point}`)
+  return `M ${startX} ${BASE_LINE_Y} ${curvePoints.join(" ")} L ${endX} ${BASE_LINE_Y} Z`
+}
+
+/**
+ * Height of the hill (SVG y) at a progress percentage (0-100)
+ */
+export const getHillY = (x: number, curve: HillCurveConfig = DEFAULT_HILL_CURVE) =>
+  getCurveY((x / 100) * HILL_WIDTH, curve)
+
+/**
+ * SVG x of the top of the hill
+ */
+export const getHillPeakX = (curve: HillCurveConfig = DEFAULT_HILL_CURVE) => (curve.peak / 100) * HILL_WIDTH
+
+/**
+ * Put dots back on the curve: stored y values follow the shape the dot was last dragged on
+ */
+export const placeDotsOnHill = <T extends Dot>(dots: T[], curve: HillCurveConfig = DEFAULT_HILL_CURVE): T[] =>
+  dots.map(dot => ({ ...dot, y: getHillY(dot.x, curve) }))
+
+/**
+ * Count active dots still climbing (left of the peak) and past the top
+ */
+export const countHillSides = (
+  dots: Dot[],
+  curve: HillCurveConfig = DEFAULT_HILL_CURVE
+): { upHill: number; downHill: number } => {
+  const activeDots = dots.filter(dot => !dot.archived)
+  const upHill = activeDots.filter(dot => dot.x < curve.peak).length
+  return { upHill, downHill: activeDots.length - upHill }
+}
+
+/**
+ * Which side of the peak a progress percentage sits on, matching countHillSides
+ */
+export const getHillSide = (x: number, curve: HillCurveConfig = DEFAULT_HILL_CURVE): 'up-hill' | 'down-hill' =>
+  x < curve.peak ? 'up-hill' : 'down-hill'
+
+/**
+ * Screen-reader label for a dot, e.g. "Checkout, 35%, up-hill"
+ */
+export const getDotAriaLabel = (dot: Dot, curve: HillCurveConfig = DEFAULT_HILL_CURVE) =>
+  `${dot.label}, ${Math.round(dot.x)}%, ${getHillSide(dot.x, curve)}`
+
+export interface LabelPosition {
+  id: string
+  x: number
+  y: number
+  width: number
+  height: number
+  originalDotY: number
+  displayX: number
+  displayY: number
+  fontSize: number
+  stackLevel: number
+  stackDirection?: number
+  textCenterX: number
+}
+
+// Where a dot currently being dragged is drawn, in hill % (x) and SVG y
+export interface DraggingPosition {
+  id: string
+  x: number
+  y: number
+}
+
+const calculateLabelPositions = (dots: Dot[], draggingDot: DraggingPosition | null): Record<string, LabelPosition> => {
+  if (!dots || dots.length === 0) return {}
+
+  const positions: Record<string, LabelPosition> = {}
+
+  // Calculate initial positions and dimensions for all labels
+  dots.forEach(dot => {
+    const dotX = (dot.x / 100) * HILL_WIDTH
+    const fontSize = 8 + dot.size * 1
+    const textWidth = dot.label.length * (fontSize * 0.6) + 16
+    const textHeight = fontSize + 12
+
+    // Handle dragging with null safety
+    const isBeingDragged = draggingDot?.id === dot.id
+    const displayX = isBeingDragged && draggingDot ? (draggingDot.x / 100) * HILL_WIDTH : dotX
+    const displayY = isBeingDragged && draggingDot ? draggingDot.y : dot.y
+
+    // Clamp label X so it never overflows left or right edge
+    let labelX = displayX - textWidth / 2
+    if (labelX < 0) labelX = 0
+    if (labelX + textWidth > HILL_WIDTH) labelX = HILL_WIDTH - textWidth
+
+    // Calculate the text's actual X so it stays centered above the dot, but never outside the label background
+    let textCenterX = displayX
+    if (textCenterX < labelX + textWidth / 2) textCenterX = Math.max(labelX + textWidth / 2, textCenterX)
+    if (textCenterX > labelX + textWidth / 2) textCenterX = Math.min(labelX + textWidth / 2, textCenterX)
+    // If the dot is near the edge, clamp the text center to the middle of the label background
+    if (displayX < labelX) textCenterX = labelX + textWidth / 2
+    if (displayX > labelX + textWidth) textCenterX = labelX + textWidth / 2
+
+    positions[dot.id] = {
+      id: dot.id,
+      x: labelX,
+      y: displayY - 35,
+      width: textWidth,
+      height: textHeight,
+      originalDotY: displayY,
+      displayX,
+      displayY,
+      fontSize,
+      stackLevel: 0,
+      textCenterX
+    }
+  })
+
+  return positions
+}
+
+const detectCollisions = (label1: LabelPosition, label2: LabelPosition): boolean => {
+  return !(
+    label1.x + label1.width < label2.x ||
+    label2.x + label2.width < label1.x ||
+    label1.y + label1.height < label2.y ||
+    label2.y + label2.height < label1.y
+  )
+}
+
+const resolveCollisions = (labelPositions: Record<string, LabelPosition>): Record<string, LabelPosition> => {
+  const resolved: Record<string, LabelPosition> = {}
+  const positionsArray = Object.values(labelPositions)
+
+  // Sort by X position for left-to-right processing
+  positionsArray.sort((a: LabelPosition, b: LabelPosition) => a.x - b.x)
+
+  // Define viewBox boundaries with padding
+  const MIN_Y = 10 // Top boundary with padding
+  const MAX_Y = 160 // Bottom boundary (leave space for chart labels)
+  const MAX_STACK_ATTEMPTS = 50 // Safeguard: max attempts to resolve collision
+
+  positionsArray.forEach((current: LabelPosition) => {
+    let testY = current.y
+    let stackLevel = 0
+    let hasCollision = true
+    let stackDirection = -1 // -1 for upward, 1 for downward
+    let attempts = 0
+    while (hasCollision && attempts < MAX_STACK_ATTEMPTS) {
+      hasCollision = Object.values(resolved).some((placed: LabelPosition) =>
+        detectCollisions({ ...current, y: testY }, placed)
+      )
+      if (hasCollision) {
+        stackLevel++
+
+        // Calculate potential new position
+        let newY: number
+        if (stackDirection === -1) {
+          // Try stacking upward first
+          newY = current.originalDotY - 35 - (stackLevel * (current.height + 8))
+
+          // Check if upward stacking would overflow top boundary
+          if (newY < MIN_Y) {
+            // Switch to downward stacking
+            stackDirection = 1
+            stackLevel = 1 // Reset stack level for downward direction
+            newY = current.originalDotY - 35 + (stackLevel * (current.height + 8))
+          }
+        } else {
+          // Stack downward
+          newY = current.originalDotY - 35 + (stackLevel * (current.height + 8))
+
+          // Check if downward stacking would overflow bottom boundary
+          if (newY + current.height > MAX_Y) {
+            // Clamp to bottom boundary
+            newY = MAX_Y - current.height
+          }
+        }
+
+        testY = newY
+      }
+      attempts++
+    }
+
+    // If max attempts reached, just place at last tried position
+    resolved[current.id] = {
+      ...current,
+      y: testY,
+      stackLevel,
+      stackDirection
+    }
+  })
+
+  return resolved
+}
+
+/**
+ * Place every dot label above its dot, stacking labels that would overlap
+ */
+export const layoutDotLabels = (dots: Dot[], draggingDot: DraggingPosition | null = null): Record<string, LabelPosition> =>
+  resolveCollisions(calculateLabelPositions(dots, draggingDot))
@@ -0,0 +1,91 @@
+/**
+ * Quick-Add Utilities - Inline syntax for creating dots from the Add Dot input
+ *
+ * `Checkout flow #red !4 @35%` adds "Checkout flow" in the palette's red, at
+ * size 4, 35% along the hill. Tokens can go anywhere in the line; ones that
+ * don't parse stay part of the label. A pasted list adds one dot per line.
+ */
+
+import type { ColorPaletteConfig } from "@/components/HillChartApp"
+
+// Longest dot label the Add Dot input accepts
+export const MAX_DOT_LABEL_LENGTH = 24
+
+// Most dots one pasted list adds; longer lists are refused rather than added in part
+export const MAX_QUICK_ADD_LIST_DOTS = 100
+
+export interface QuickAddDot {
+  label: string
+  color?: string
+  size?: number
+  // Hill progress, 0-100
+  x?: number
+}
+
+// Full six-digit hex only, so issue references like #123 stay in the label
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+const SIZE_TOKEN = /^!([1-5])$/
+const POSITION_TOKEN = /^@(\d{1,3}(?:\.\d+)?)%?$/
+// Bullets and numbering a list copied from a doc starts its lines with
+const LIST_MARKER = /^\s*(?:[-*•]|\d+[.)])\s+/
+
+// Palette names compare without case or spaces, so "Dark Blue" is #darkblue
+const normalizeColorName = (name: string) => name.toLowerCase().replace(/\s+/g, "")
+
+const parseColorToken = (token: string, palette: ColorPaletteConfig): string | undefined => {
+  if (!token.startsWith("#") || token.length < 2) return undefined
+  const named = palette.colors.find((entry) => normalizeColorName(entry.name) === normalizeColorName(token.slice(1)))
+  if (named) return named.color
+  return HEX_COLOR.test(token) ? token.toLowerCase() : undefined
+}
+
+/**
+ * Split one line of quick-add syntax into the dot label and its settings.
+ * The label is empty when the line holds nothing but tokens.
+ */
+export const parseQuickAdd = (text: string, palette: ColorPaletteConfig): QuickAddDot => {
+  const result: QuickAddDot = { label: "" }
+  const labelWords: string[] = []
+
+  text.split(/\s+/).filter(Boolean).forEach((token) => {
+    const color = result.color === undefined ? parseColorToken(token, palette) : undefined
+    const size = SIZE_TOKEN.exec(token)
+    const position = POSITION_TOKEN.exec(token)
+
+    if (color) {
+      result.color = color
+    } else if (size && result.size === undefined) {
+      result.size = Number(size[1])
+    } else if (position && result.x === undefined && Number(position[1]) <= 100) {
+      result.x = Number(position[1])
+    } else {
+      labelWords.push(token)
+    }
+  })
+
+  result.label = labelWords.join(" ")
+  return result
+}
+
+/**
+ * One dot per non-empty line of a pasted list, with list bullets and numbering dropped
+ */
+export const parseQuickAddList = (text: string, palette: ColorPaletteConfig): QuickAddDot[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => parseQuickAdd(line.replace(LIST_MARKER, ""), palette))
+    .filter((dot) => dot.label.length > 0)
+
+/**
+ * Split parsed lines into the ones to add and the ones whose label is too long,
+ * so long labels are reported instead of cut short
+ */
+export const splitByLabelLength = (dots: QuickAddDot[]): { fitting: QuickAddDot[]; tooLong: QuickAddDot[] } => ({
+  fitting: dots.filter((dot) => dot.label.length <= MAX_DOT_LABEL_LENGTH),
+  tooLong: dots.filter((dot) => dot.label.length > MAX_DOT_LABEL_LENGTH),
+})
+
+/**
+ * Whether pasted text is a list to add in one go rather than a single label
+ */
+export const isQuickAddList = (text: string): boolean => /\r?\n/.test(text.trim())
@@ -0,0 +1,152 @@
+/**
+ * Snapshot Utilities - Pure helpers for working with collection history
+ *
+ * Used by the calendar to collect snapshot summaries fetched month by month,
+ * by the snapshot playback to order a collection's snapshots and
+ * interpolate dot positions between two consecutive snapshots, and by the
+ * chart trails overlay to trace each dot through recent snapshots.
+ */
+
+import type { Dot, Snapshot, SnapshotSummary } from '@/components/HillChartApp'
+
+// A dot as drawn during playback, with an opacity for fade in/out
+export interface PlaybackDot extends Dot {
+  opacity: number
+}
+
+/**
+ * Get all snapshots (or snapshot summaries) of a collection, oldest first
+ */
+export const getCollectionSnapshots = <T extends Pick<Snapshot, 'collectionId' | 'timestamp'>>(
+  snapshots: T[],
+  collectionId: string | null
+): T[] => {
+  if (!collectionId) return []
+  return snapshots
+    .filter(snapshot => snapshot.collectionId === collectionId)
+    .sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/**
+ * Merge freshly fetched snapshot summaries into the ones already known,
+ * replacing entries with the same ID
+ */
+export const mergeSnapshotSummaries = (existing: SnapshotSummary[], incoming: SnapshotSummary[]): SnapshotSummary[] => {
+  const byId = new Map(existing.map(summary => [summary.id, summary]))
+  incoming.forEach(summary => byId.set(summary.id, summary))
+  return Array.from(byId.values())
+}
+
+/**
+ * Interpolate the dots of two snapshots.
+ * Dots are matched by id; a dot that only exists (or is only active) on one side
+ * fades in or out at its own position instead of moving.
+ */
+export const interpolateSnapshotDots = (
+  from: Snapshot,
+  to: Snapshot,
+  progress: number,
+  getHillY: (x: number) => number
+): PlaybackDot[] => {
+  const t = Math.max(0, Math.min(1, progress))
+  const fromDots = new Map(from.dots.filter(dot => !dot.archived).map(dot => [dot.id, dot]))
+  const toDots = new Map(to.dots.filter(dot => !dot.archived).map(dot => [dot.id, dot]))
+  const frame: PlaybackDot[] = []
+
+  fromDots.forEach((fromDot, id) => {
+    const toDot = toDots.get(id)
+    if (!toDot) {
+      // Archived or deleted before the next snapshot: fade out
+      frame.push({ ...fromDot, opacity: 1 - t })
+      return
+    }
+
+    const x = fromDot.x + (toDot.x - fromDot.x) * t
+    frame.push({
+      ...toDot,
+      label: t < 0.5 ? fromDot.label : toDot.label,
+      color: t < 0.5 ? fromDot.color : toDot.color,
+      size: fromDot.size + (toDot.size - fromDot.size) * t,
+      x,
+      // Follow the curve rather than cutting straight across it
+      y: getHillY(x),
+      opacity: 1
+    })
+  })
+
+  toDots.forEach((toDot, id) => {
+    if (!fromDots.has(id)) {
+      // Added (or unarchived) since the previous snapshot: fade in
+      frame.push({ ...toDot, opacity: t })
+    }
+  })
+
+  return frame
+}
+
+/**
+ * Build the playback frame for a fractional position in an ordered snapshot list.
+ * Position 1.25 means a quarter of the way from the second to the third snapshot.
+ */
+export const getPlaybackFrame = (
+  orderedSnapshots: Snapshot[],
+  position: number,
+  getHillY: (x: number) => number
+): PlaybackDot[] => {
+  if (orderedSnapshots.length === 0) return []
+
+  const lastIndex = orderedSnapshots.length - 1
+  const clamped = Math.max(0, Math.min(lastIndex, position))
+  const fromIndex = Math.floor(clamped)
+  const toIndex = Math.min(lastIndex, fromIndex + 1)
+
+  return interpolateSnapshotDots(
+    orderedSnapshots[fromIndex],
+    orderedSnapshots[toIndex],
+    clamped - fromIndex,
+    getHillY
+  )
+}
+
+// A dot's recorded position in one snapshot
+export interface TrailPoint {
+  x: number
+  y: number
+  date: string
+  // True when the dot moved back up the hill since the previous point
+  regressed: boolean
+}
+
+export interface DotTrail {
+  dotId: string
+  color: string
+  points: TrailPoint[]
+}
+
+/**
+ * Build the trail of each active dot through the last `limit` snapshots (oldest first).
+ * Dots without any recorded position get no trail.
+ */
+export const buildDotTrails = (orderedSnapshots: Snapshot[], dots: Dot[], limit: number): DotTrail[] => {
+  if (limit <= 0) return []
+  const recentSnapshots = orderedSnapshots.slice(-limit)
+
+  return dots
+    .filter(dot => !dot.archived)
+    .map(dot => {
+      const points: TrailPoint[] = []
+      recentSnapshots.forEach(snapshot => {
+        const recorded = snapshot.dots.find(d => d.id === dot.id && !d.archived)
+        if (!recorded) return
+        const previous = points[points.length - 1]
+        points.push({
+          x: recorded.x,
+          y: recorded.y,
+          date: snapshot.date,
+          regressed: previous !== undefined && recorded.x < previous.x
+        })
+      })
+      return { dotId: dot.id, color: dot.color, points }
+    })
+    .filter(trail => trail.points.length > 0)
+}
@@ -4,6 +4,11 @@ import {
   validateCollection, 
   validateUserId, 
   validateReleaseLineConfig,
+  validateHillCurveConfig,
+  validateDotStylingConfig,
+  validateColorPaletteConfig,
+  validateFilterPresets,
+  validateDotListConfig,
   sanitizeString, 
   sanitizeNumber, 
   sanitizeHexColor,
@@ -236,6 +241,146 @@ runTest('validateCollection - with valid releaseLineConfig', () => {
   if (result.releaseLineConfig.text !== 'Release Date') throw new Error('Release line text validation failed');
 });
 
+runTest('validateReleaseLineConfig - throws on invalid marker style', () => {
+  const marker = { id: 'beta', position: 70, color: '#3b82f6', label: 'Beta', style: 'dotted' };
+  try {
+    validateReleaseLineConfig({
+      enabled: false,
+      color: '#ff00ff',
+      text: '',
+      markers: [marker]
+    } as Parameters<typeof validateReleaseLineConfig>[0]);
+    throw new Error('Should have thrown ValidationError');
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw new Error('Expected ValidationError');
+  }
+});
+
+runTest('validateHillCurveConfig - defaults for missing values', () => {
+  const result = validateHillCurveConfig({});
+  if (result.peak !== 50 || result.steepness !== 1 || result.zones.length !== 0) {
+    throw new Error('Hill curve defaults failed');
+  }
+});
+
+runTest('validateHillCurveConfig - throws on zone ending before it starts', () => {
+  try {
+    validateHillCurveConfig({
+      peak: 40,
+      steepness: 1,
+      zones: [{ name: 'Figuring it out', start: 60, end: 20, color: '#3b82f6' }]
+    });
+    throw new Error('Should have thrown ValidationError');
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw new Error('Expected ValidationError');
+  }
+});
+
+runTest('validateDotStylingConfig - valid rules', () => {
+  const result = validateDotStylingConfig({
+    enabled: true,
+    rules: [{
+      id: 'stale',
+      enabled: true,
+      condition: { type: 'unmoved', snapshots: 3 },
+      actions: [{ type: 'setColor', color: '#EF4444' }]
+    }]
+  });
+  if (result.rules.length !== 1) throw new Error('Rule should be kept');
+});
+
+runTest('validateDotStylingConfig - throws on unknown action', () => {
+  try {
+    validateDotStylingConfig({
+      enabled: true,
+      rules: [{
+        id: 'bad',
+        enabled: true,
+        condition: { type: 'position', operator: 'gt', value: 50 },
+        actions: [{ type: 'explode' }]
+      }]
+    });
+    throw new Error('Should have thrown ValidationError');
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw new Error('Expected ValidationError');
+  }
+});
+
+runTest('validateColorPaletteConfig - valid palette', () => {
+  const result = validateColorPaletteConfig({
+    colors: [{ color: '#EF4444', name: '  Blocked  ' }, { color: '#22c55e', name: 'On track' }],
+    showLegend: true
+  });
+  if (result.colors[0].color !== '#ef4444' || result.colors[0].name !== 'Blocked' || !result.showLegend) {
+    throw new Error('Color palette validation failed');
+  }
+});
+
+runTest('validateColorPaletteConfig - throws on duplicate colors', () => {
+  try {
+    validateColorPaletteConfig({
+      colors: [{ color: '#ef4444', name: 'Blocked' }, { color: '#EF4444', name: 'Late' }],
+      showLegend: false
+    });
+    throw new Error('Should have thrown ValidationError');
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw new Error('Expected ValidationError');
+  }
+});
+
+runTest('validateDot - keeps optional details', () => {
+  const result = validateDot({
+    id: 'dot-1',
+    label: 'Checkout',
+    description: '  **Blocked** on review  ',
+    owner: 'Sam',
+    url: 'https://github.com/org/repo/issues/1',
+    dueDate: '2026-11-03'
+  });
+  if (result.description !== '**Blocked** on review' || result.owner !== 'Sam' || result.dueDate !== '2026-11-03') {
+    throw new Error('Dot details were not kept');
+  }
+});
+
+runTest('validateDot - rejects non-web links', () => {
+  try {
+    validateDot({ id: 'dot-1', label: 'Checkout', url: 'javascript:alert(1)' });
+    throw new Error('Should have thrown ValidationError');
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw new Error('Expected ValidationError');
+  }
+});
+
+runTest('validateDot - drops duplicate tags', () => {
+  const result = validateDot({ id: 'dot-1', label: 'Checkout', tags: ['Payments', ' payments ', 'search'] });
+  if (result.tags?.join(',') !== 'Payments,search') throw new Error(`Unexpected tags: ${result.tags}`);
+});
+
+runTest('validateFilterPresets - throws on missing name', () => {
+  try {
+    validateFilterPresets([{ id: 'preset-1', name: ' ', filter: { tags: ['search'] } }]);
+    throw new Error('Should have thrown ValidationError');
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw new Error('Expected ValidationError');
+  }
+});
+
+runTest('validateDotListConfig - drops duplicate dots from the manual order', () => {
+  const result = validateDotListConfig({ sortMode: 'manual', groupBySide: 1, manualOrder: ['dot-2', 'dot-1', 'dot-2'] });
+  if (result.manualOrder.join(',') !== 'dot-2,dot-1' || result.groupBySide !== true) {
+    throw new Error(`Unexpected dot list settings: ${JSON.stringify(result)}`);
+  }
+});
+
+runTest('validateDotListConfig - throws on unknown sort mode', () => {
+  try {
+    validateDotListConfig({ sortMode: 'random', groupBySide: false, manualOrder: [] });
+    throw new Error('Should have thrown ValidationError');
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw new Error('Expected ValidationError');
+  }
+});
+
 runTest('validateCollection - without releaseLineConfig', () => {
   const validCollection = {
     id: 'test-collection',
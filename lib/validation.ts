@@ -1,4 +1,4 @@
-import { Dot, Collection, Snapshot, ExportData, ReleaseLineConfig } from "@/components/HillChartApp"
+import { Dot, Collection, Snapshot, ExportData, ReleaseLineConfig, ReleaseMarker, HillCurveConfig, PhaseZone, DotRule, DotStylingConfig, ColorPaletteConfig, PaletteColor, DotFilter, FilterPreset, DotListConfig, DotSortMode, SnapshotSchedule, SnapshotRetentionPolicy } from "@/components/HillChartApp"
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -85,6 +85,58 @@ export const sanitizeColor = (input: string): string => {
   return sanitized
 }
 
+export const sanitizeUrl = (input: string): string => {
+  const sanitized = sanitizeString(input, 500)
+
+  let url: URL
+  try {
+    url = new URL(sanitized)
+  } catch {
+    throw new ValidationError('Invalid URL')
+  }
+
+  // Only web links, so a stored link can never run script when clicked
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ValidationError('URL must start with http:// or https://')
+  }
+
+  return sanitized
+}
+
+const MAX_DOT_TAGS = 10
+
+export const sanitizeTag = (input: string): string => {
+  // Commas separate tags when they are typed as a list
+  const sanitized = sanitizeString(input, 30).replace(/,/g, '').trim()
+  if (!sanitized) {
+    throw new ValidationError('Tag cannot be empty')
+  }
+  return sanitized
+}
+
+// Tags are free-form; duplicates that differ only in case are dropped
+const sanitizeTags = (input: unknown): string[] => {
+  if (!Array.isArray(input)) {
+    throw new ValidationError('Tags must be an array')
+  }
+
+  const tags: string[] = []
+  for (const tag of input) {
+    const sanitized = sanitizeTag(tag)
+    if (!tags.some(existing => existing.toLowerCase() === sanitized.toLowerCase())) {
+      tags.push(sanitized)
+    }
+  }
+
+  if (tags.length > MAX_DOT_TAGS) {
+    throw new ValidationError(`At most ${MAX_DOT_TAGS} tags are allowed per dot`)
+  }
+  return tags
+}
+
+const isValidDateString = (input: unknown): input is string =>
+  typeof input === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(input) && !isNaN(new Date(input).getTime())
+
 export const sanitizeHexColor = (input: string): string => {
   if (typeof input !== 'string') {
     throw new ValidationError('Color must be a string')
@@ -118,6 +170,21 @@ export const validateDot = (dot: Partial<Dot>): Dot => {
       size: dot.size !== undefined ? sanitizeNumber(dot.size, 1, 5) : 3,
       archived: typeof dot.archived === 'boolean' ? dot.archived : false
     }
+
+    // Optional details are only kept when they have a value
+    const description = dot.description ? sanitizeString(dot.description, 2000) : ''
+    if (description) validatedDot.description = description
+    const owner = dot.owner ? sanitizeString(dot.owner, 60) : ''
+    if (owner) validatedDot.owner = owner
+    if (dot.url?.trim()) validatedDot.url = sanitizeUrl(dot.url)
+    if (dot.dueDate) {
+      if (!isValidDateString(dot.dueDate)) {
+        throw new ValidationError('Due date must be a YYYY-MM-DD date')
+      }
+      validatedDot.dueDate = dot.dueDate
+    }
+    const tags = dot.tags ? sanitizeTags(dot.tags) : []
+    if (tags.length > 0) validatedDot.tags = tags
     
     // Additional validation
     if (!validatedDot.id) {
@@ -141,6 +208,36 @@ export const validateDot = (dot: Partial<Dot>): Dot => {
   }
 }
 
+const MAX_RELEASE_MARKERS = 10
+const RELEASE_MARKER_STYLES: ReleaseMarker['style'][] = ['solid', 'dashed']
+
+export const validateReleaseMarker = (marker: any): ReleaseMarker => {
+  if (!marker || typeof marker !== 'object') {
+    throw new ValidationError('Release marker must be an object')
+  }
+
+  if (!RELEASE_MARKER_STYLES.includes(marker.style)) {
+    throw new ValidationError('Release marker style must be solid or dashed')
+  }
+
+  const validatedMarker: ReleaseMarker = {
+    id: sanitizeId(marker.id),
+    position: sanitizeNumber(marker.position, 0, 100),
+    color: sanitizeHexColor(marker.color),
+    label: sanitizeString(marker.label ?? '', 30),
+    style: marker.style
+  }
+
+  if (marker.targetDate) {
+    if (!isValidDateString(marker.targetDate)) {
+      throw new ValidationError('Release marker target date must be in YYYY-MM-DD format')
+    }
+    validatedMarker.targetDate = marker.targetDate
+  }
+
+  return validatedMarker
+}
+
 export const validateReleaseLineConfig = (config: Partial<ReleaseLineConfig>): ReleaseLineConfig => {
   const errors: string[] = []
   
@@ -155,6 +252,16 @@ export const validateReleaseLineConfig = (config: Partial<ReleaseLineConfig>): R
     if (validatedConfig.text.length > 50) {
       errors.push('Release line text must be 50 characters or less')
     }
+
+    if (config.markers !== undefined) {
+      if (!Array.isArray(config.markers)) {
+        errors.push('Release markers must be an array')
+      } else if (config.markers.length > MAX_RELEASE_MARKERS) {
+        errors.push(`At most ${MAX_RELEASE_MARKERS} release markers are allowed`)
+      } else if (config.markers.length > 0) {
+        validatedConfig.markers = config.markers.map(validateReleaseMarker)
+      }
+    }
     
     if (errors.length > 0) {
       throw new ValidationError(errors.join(', '))
@@ -169,6 +276,219 @@ export const validateReleaseLineConfig = (config: Partial<ReleaseLineConfig>): R
   }
 }
 
+const MAX_PHASE_ZONES = 6
+
+const validatePhaseZone = (zone: any): PhaseZone => {
+  if (!zone || typeof zone !== 'object') {
+    throw new ValidationError('Phase zone must be an object')
+  }
+
+  const start = sanitizeNumber(zone.start, 0, 100)
+  const end = sanitizeNumber(zone.end, 0, 100)
+  if (end <= start) {
+    throw new ValidationError('Phase zone must end after it starts')
+  }
+
+  return {
+    name: sanitizeString(zone.name ?? '', 30),
+    start,
+    end,
+    color: sanitizeHexColor(zone.color)
+  }
+}
+
+// Hill curve configuration validation
+export const validateHillCurveConfig = (config: any): HillCurveConfig => {
+  if (!config || typeof config !== 'object') {
+    throw new ValidationError('Hill curve configuration must be an object')
+  }
+
+  const zones = config.zones ?? []
+  if (!Array.isArray(zones)) {
+    throw new ValidationError('Phase zones must be an array')
+  }
+  if (zones.length > MAX_PHASE_ZONES) {
+    throw new ValidationError(`At most ${MAX_PHASE_ZONES} phase zones are allowed`)
+  }
+
+  return {
+    peak: sanitizeNumber(config.peak ?? 50, 20, 80),
+    steepness: sanitizeNumber(config.steepness ?? 1, 0.5, 2),
+    zones: zones.map(validatePhaseZone)
+  }
+}
+
+const MAX_DOT_RULES = 20
+const DOT_RULE_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'eq']
+
+const validateDotRule = (rule: any): DotRule => {
+  if (!rule || typeof rule !== 'object' || !rule.condition || typeof rule.condition !== 'object') {
+    throw new ValidationError('Dot rule must have a condition')
+  }
+
+  const { condition } = rule
+  let validatedCondition: DotRule['condition']
+  if (condition.type === 'position') {
+    if (!DOT_RULE_OPERATORS.includes(condition.operator)) {
+      throw new ValidationError('Invalid dot rule operator')
+    }
+    validatedCondition = { type: 'position', operator: condition.operator, value: sanitizeNumber(condition.value, 0, 100) }
+  } else if (condition.type === 'unmoved') {
+    const snapshots = sanitizeNumber(condition.snapshots, 1, 20)
+    if (!Number.isInteger(snapshots)) {
+      throw new ValidationError('Snapshot count must be a whole number')
+    }
+    validatedCondition = { type: 'unmoved', snapshots }
+  } else {
+    throw new ValidationError('Invalid dot rule condition')
+  }
+
+  if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+    throw new ValidationError('Dot rule must have at least one action')
+  }
+
+  const actions = rule.actions.map((action: any): DotRule['actions'][number] => {
+    switch (action?.type) {
+      case 'setColor':
+        return { type: 'setColor', color: sanitizeColor(action.color) }
+      case 'setSize':
+        return { type: 'setSize', size: sanitizeNumber(action.size, 1, 5) }
+      case 'archive':
+        return { type: 'archive' }
+      case 'addTag':
+        return { type: 'addTag', tag: sanitizeTag(action.tag) }
+      default:
+        throw new ValidationError('Invalid dot rule action')
+    }
+  })
+
+  return {
+    id: sanitizeId(rule.id),
+    enabled: rule.enabled !== false,
+    condition: validatedCondition,
+    actions
+  }
+}
+
+// Automatic dot styling rules validation
+export const validateDotStylingConfig = (config: any): DotStylingConfig => {
+  if (!config || typeof config !== 'object' || !Array.isArray(config.rules)) {
+    throw new ValidationError('Dot styling configuration must have a list of rules')
+  }
+
+  if (config.rules.length > MAX_DOT_RULES) {
+    throw new ValidationError(`At most ${MAX_DOT_RULES} dot rules are allowed`)
+  }
+
+  return {
+    enabled: Boolean(config.enabled),
+    rules: config.rules.map(validateDotRule)
+  }
+}
+
+const MAX_PALETTE_COLORS = 12
+
+const validatePaletteColor = (entry: any): PaletteColor => {
+  if (!entry || typeof entry !== 'object') {
+    throw new ValidationError('Palette color must be an object')
+  }
+
+  const name = sanitizeString(entry.name ?? '', 24)
+  if (!name) {
+    throw new ValidationError('Palette color name is required')
+  }
+
+  return {
+    color: sanitizeHexColor(entry.color).toLowerCase(),
+    name
+  }
+}
+
+// Named color palette validation
+export const validateColorPaletteConfig = (config: any): ColorPaletteConfig => {
+  if (!config || typeof config !== 'object' || !Array.isArray(config.colors)) {
+    throw new ValidationError('Color palette must have a list of colors')
+  }
+
+  if (config.colors.length === 0 || config.colors.length > MAX_PALETTE_COLORS) {
+    throw new ValidationError(`Color palette must have between 1 and ${MAX_PALETTE_COLORS} colors`)
+  }
+
+  const colors: PaletteColor[] = config.colors.map(validatePaletteColor)
+  if (new Set(colors.map(entry => entry.color)).size !== colors.length) {
+    throw new ValidationError('Palette colors must be unique')
+  }
+
+  return {
+    colors,
+    showLegend: Boolean(config.showLegend)
+  }
+}
+
+const MAX_FILTER_PRESETS = 20
+
+const validateDotFilter = (filter: any): DotFilter => {
+  if (!filter || typeof filter !== 'object') {
+    throw new ValidationError('Filter must be an object')
+  }
+
+  const list = (value: unknown): any[] => (Array.isArray(value) ? value : [])
+  return {
+    tags: list(filter.tags).map(sanitizeTag),
+    colors: list(filter.colors).map(sanitizeColor),
+    sizes: list(filter.sizes).map((size: number) => sanitizeNumber(size, 1, 5)),
+    owners: list(filter.owners).map((owner: string) => sanitizeString(owner, 60))
+  }
+}
+
+// Saved dot filter presets validation
+export const validateFilterPresets = (presets: any): FilterPreset[] => {
+  if (!Array.isArray(presets)) {
+    throw new ValidationError('Filter presets must be an array')
+  }
+
+  if (presets.length > MAX_FILTER_PRESETS) {
+    throw new ValidationError(`At most ${MAX_FILTER_PRESETS} filter presets are allowed`)
+  }
+
+  return presets.map((preset: any) => {
+    const name = sanitizeString(preset?.name ?? '', 40)
+    if (!name) {
+      throw new ValidationError('Filter preset name is required')
+    }
+    return {
+      id: sanitizeId(preset.id),
+      name,
+      filter: validateDotFilter(preset.filter)
+    }
+  })
+}
+
+const DOT_SORT_MODES: DotSortMode[] = ['position', 'name', 'color', 'size', 'lastMoved', 'manual']
+const MAX_MANUAL_ORDER_DOTS = 1000
+
+// Sidebar dot list settings validation
+export const validateDotListConfig = (config: any): DotListConfig => {
+  if (!config || typeof config !== 'object') {
+    throw new ValidationError('Dot list settings must be an object')
+  }
+
+  if (!DOT_SORT_MODES.includes(config.sortMode)) {
+    throw new ValidationError(`Dot sort mode must be one of: ${DOT_SORT_MODES.join(', ')}`)
+  }
+
+  const manualOrder = Array.isArray(config.manualOrder) ? config.manualOrder : []
+  if (manualOrder.length > MAX_MANUAL_ORDER_DOTS) {
+    throw new ValidationError(`Manual order can hold at most ${MAX_MANUAL_ORDER_DOTS} dots`)
+  }
+
+  return {
+    sortMode: config.sortMode,
+    groupBySide: Boolean(config.groupBySide),
+    manualOrder: Array.from(new Set<string>(manualOrder.map(sanitizeId)))
+  }
+}
+
 export const validateCollection = (collection: Partial<Collection>): Omit<Collection, 'dots'> => {
   const errors: string[] = []
 
@@ -241,13 +561,68 @@ export const validateCollection = (collection: Partial<Collection>): Omit<Collec
       }
     }
 
+    // Validate hill curve config if present
+    let hillCurveConfig: HillCurveConfig | undefined = undefined
+    if (collection.hillCurveConfig) {
+      try {
+        hillCurveConfig = validateHillCurveConfig(collection.hillCurveConfig)
+      } catch (error) {
+        errors.push(`Invalid hill curve configuration: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    // Validate dot styling rules if present
+    let dotStyling: DotStylingConfig | undefined = undefined
+    if (collection.dotStyling) {
+      try {
+        dotStyling = validateDotStylingConfig(collection.dotStyling)
+      } catch (error) {
+        errors.push(`Invalid dot styling rules: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    // Validate color palette if present
+    let colorPalette: ColorPaletteConfig | undefined = undefined
+    if (collection.colorPalette) {
+      try {
+        colorPalette = validateColorPaletteConfig(collection.colorPalette)
+      } catch (error) {
+        errors.push(`Invalid color palette: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    // Validate saved filter presets if present
+    let filterPresets: FilterPreset[] | undefined = undefined
+    if (collection.filterPresets) {
+      try {
+        filterPresets = validateFilterPresets(collection.filterPresets)
+      } catch (error) {
+        errors.push(`Invalid filter presets: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    // Validate dot list settings if present
+    let dotList: DotListConfig | undefined = undefined
+    if (collection.dotList) {
+      try {
+        dotList = validateDotListConfig(collection.dotList)
+      } catch (error) {
+        errors.push(`Invalid dot list settings: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
     const validatedCollection = {
       id: collection.id ? sanitizeId(collection.id) : '',
       name: collection.name ? sanitizeString(collection.name, 100) : '',
       status: status as 'active' | 'archived' | 'deleted',
       archived_at,
       deleted_at,
-      releaseLineConfig
+      releaseLineConfig,
+      hillCurveConfig,
+      dotStyling,
+      colorPalette,
+      filterPresets,
+      dotList
     }
 
     if (!validatedCollection.id) {
@@ -298,6 +673,105 @@ export const validateSnapshotId = (snapshotId: string): string => {
   return sanitizeId(snapshotId)
 }
 
+// Calendar month in YYYY-MM format
+export const validateSnapshotMonth = (month: string): string => {
+  if (typeof month !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    throw new ValidationError('Month must be in YYYY-MM format')
+  }
+
+  return month
+}
+
+// Automatic snapshot schedule validation
+const SNAPSHOT_SCHEDULE_FREQUENCIES: SnapshotSchedule['frequency'][] = ['off', 'daily', 'weekdays', 'weekly']
+
+// IANA time zone name such as "Europe/Berlin", as the browser reports it
+const validateTimeZone = (timeZone: any): string => {
+  if (typeof timeZone !== 'string' || !timeZone || timeZone.length > 100) {
+    throw new ValidationError('Invalid time zone')
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+  } catch {
+    throw new ValidationError('Invalid time zone')
+  }
+
+  return timeZone
+}
+
+export const validateSnapshotSchedule = (schedule: any): SnapshotSchedule => {
+  if (!schedule || typeof schedule !== 'object') {
+    throw new ValidationError('Snapshot schedule must be an object')
+  }
+
+  if (!SNAPSHOT_SCHEDULE_FREQUENCIES.includes(schedule.frequency)) {
+    throw new ValidationError('Invalid snapshot schedule frequency')
+  }
+
+  if (schedule.frequency === 'off') {
+    return { frequency: 'off' }
+  }
+
+  // Schedules saved before time zones were stored run in the server's time zone
+  const zone = schedule.timeZone === undefined || schedule.timeZone === null
+    ? {}
+    : { timeZone: validateTimeZone(schedule.timeZone) }
+
+  if (schedule.frequency !== 'weekly') {
+    return { frequency: schedule.frequency, ...zone }
+  }
+
+  const weekday = sanitizeNumber(schedule.weekday ?? 1, 0, 6)
+  if (!Number.isInteger(weekday)) {
+    throw new ValidationError('Weekday must be a whole number between 0 and 6')
+  }
+
+  return { frequency: 'weekly', weekday, ...zone }
+}
+
+// Snapshot retention policy validation
+export const validateSnapshotRetentionPolicy = (policy: any): SnapshotRetentionPolicy => {
+  if (!policy || typeof policy !== 'object') {
+    throw new ValidationError('Retention policy must be an object')
+  }
+
+  const keepAllDays = Math.round(sanitizeNumber(policy.keepAllDays ?? 30, 1, 3650))
+  const keepWeeklyDays = Math.round(sanitizeNumber(policy.keepWeeklyDays ?? 365, 1, 3650))
+
+  if (keepWeeklyDays < keepAllDays) {
+    throw new ValidationError('Weekly retention must last at least as long as full retention')
+  }
+
+  return {
+    enabled: Boolean(policy.enabled),
+    keepAllDays,
+    keepWeeklyDays,
+    keepMonthly: policy.keepMonthly !== false
+  }
+}
+
+// Optional snapshot name and note; empty values are dropped
+export const validateSnapshotDetails = (details: any): Pick<Snapshot, 'name' | 'note'> => {
+  if (!details || typeof details !== 'object') {
+    return {}
+  }
+
+  const validated: Pick<Snapshot, 'name' | 'note'> = {}
+
+  if (details.name !== undefined && details.name !== null) {
+    const name = sanitizeString(details.name, 100)
+    if (name) validated.name = name
+  }
+
+  if (details.note !== undefined && details.note !== null) {
+    const note = sanitizeString(details.note, 1000)
+    if (note) validated.note = note
+  }
+
+  return validated
+}
+
 // Archive operation validation
 export const validateArchiveOperation = (collectionId: string, userId: string, currentStatus?: string): void => {
   validateCollectionId(collectionId)
@@ -399,7 +873,9 @@ export const validateImportData = (data: any): ExportData => {
           collectionId: sanitizeId(snapshot.collectionId),
           collectionName: sanitizeString(snapshot.collectionName, 100),
           dots: snapshot.dots.map((dot: any) => validateDot(dot)),
-          timestamp: sanitizeNumber(snapshot.timestamp, 0)
+          timestamp: sanitizeNumber(snapshot.timestamp, 0),
+          ...validateSnapshotDetails(snapshot),
+          ...(snapshot.pinned === true && { pinned: true })
         }
         
         // Only include releaseLineConfig if it exists
@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+
+// Triggers the scheduled snapshot job. Run from cron or PM2 (see ecosystem.config.js).
+// Requires CRON_SECRET; APP_URL defaults to the local production server.
+
+const appUrl = process.env.APP_URL || 'http://localhost:3000';
+const cronSecret = process.env.CRON_SECRET;
+
+if (!cronSecret) {
+  console.error('CRON_SECRET is not set');
+  process.exit(1);
+}
+
+fetch(`${appUrl}/api/jobs/scheduled-snapshots`, {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${cronSecret}` },
+})
+  .then(async (response) => {
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error(`Scheduled snapshots failed (${response.status}):`, body);
+      process.exit(1);
+    }
+    console.log('Scheduled snapshots completed:', body);
+  })
+  .catch((error) => {
+    console.error('Scheduled snapshots request failed:', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,16 @@
+-- Add optional encrypted name and note columns to snapshots table
+-- Migration: 20261019100000_add_snapshot_name_and_note.sql
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='snapshots' AND column_name='name_encrypted') THEN
+        ALTER TABLE snapshots ADD COLUMN name_encrypted TEXT;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='snapshots' AND column_name='note_encrypted') THEN
+        ALTER TABLE snapshots ADD COLUMN note_encrypted TEXT;
+    END IF;
+END $$;
+
+-- Several snapshots per day are listed per collection, newest first
+CREATE INDEX IF NOT EXISTS idx_snapshots_collection_date ON snapshots(user_id, collection_id, snapshot_date);
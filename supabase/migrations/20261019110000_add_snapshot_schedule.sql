@@ -0,0 +1,14 @@
+-- Add snapshot_schedule column to collections table for automatic snapshots
+-- Migration: 20261019110000_add_snapshot_schedule.sql
+
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='collections' AND column_name='snapshot_schedule') THEN
+        ALTER TABLE collections ADD COLUMN snapshot_schedule JSONB;
+    END IF;
+END $$;
+
+-- The schedule holds no user content ({"frequency": "weekly", "weekday": 1}), so it is
+-- stored unencrypted and lets the scheduled snapshot job find due collections cheaply
+CREATE INDEX IF NOT EXISTS idx_collections_snapshot_schedule ON collections((snapshot_schedule->>'frequency'))
+    WHERE snapshot_schedule IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Add snapshot pinning and per-user snapshot retention policy
+-- Migration: 20261019120000_add_snapshot_retention.sql
+
+DO $$ 
+BEGIN
+    -- Pinned snapshots are never removed by pruning
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='snapshots' AND column_name='pinned') THEN
+        ALTER TABLE snapshots ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT FALSE;
+    END IF;
+
+    -- Retention policy, e.g. {"enabled": true, "keepAllDays": 30, "keepWeeklyDays": 365, "keepMonthly": true}
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='user_preferences' AND column_name='snapshot_retention') THEN
+        ALTER TABLE user_preferences ADD COLUMN snapshot_retention JSONB;
+    END IF;
+END $$;
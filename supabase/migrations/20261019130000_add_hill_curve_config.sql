@@ -0,0 +1,13 @@
+-- Add hill curve configuration support
+-- Migration: 20261019130000_add_hill_curve_config.sql
+
+-- Stored next to release_line_config_encrypted: encrypted JSON with the curve shape
+-- (peak, steepness) and the named phase zones shaded under it
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='collections' AND column_name='hill_curve_config_encrypted') THEN
+        ALTER TABLE collections ADD COLUMN hill_curve_config_encrypted TEXT;
+    END IF;
+END $$;
+
+COMMENT ON COLUMN collections.hill_curve_config_encrypted IS 'Encrypted JSON containing the hill curve configuration (peak, steepness, phase zones)';
@@ -0,0 +1,13 @@
+-- Add automatic dot styling rules support
+-- Migration: 20261019140000_add_dot_styling_rules.sql
+
+-- Encrypted JSON with the collection's rules ({"enabled": true, "rules": [...]}).
+-- NULL means the collection uses the default rules.
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='collections' AND column_name='dot_styling_encrypted') THEN
+        ALTER TABLE collections ADD COLUMN dot_styling_encrypted TEXT;
+    END IF;
+END $$;
+
+COMMENT ON COLUMN collections.dot_styling_encrypted IS 'Encrypted JSON containing automatic dot styling rules (conditions and actions)';
@@ -0,0 +1,13 @@
+-- Add per-collection named color palette support
+-- Migration: 20261019150000_add_color_palette.sql
+
+-- Encrypted JSON with the collection's palette ({"colors": [{"color": "#ef4444", "name": "Blocked"}], "showLegend": true}).
+-- NULL means the collection uses the default palette.
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='collections' AND column_name='color_palette_encrypted') THEN
+        ALTER TABLE collections ADD COLUMN color_palette_encrypted TEXT;
+    END IF;
+END $$;
+
+COMMENT ON COLUMN collections.color_palette_encrypted IS 'Encrypted JSON containing the named dot color palette and legend setting';
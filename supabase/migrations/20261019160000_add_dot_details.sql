@@ -0,0 +1,24 @@
+-- Add optional dot details (description, owner, link, due date)
+-- Migration: 20261019160000_add_dot_details.sql
+
+-- Each detail is encrypted on its own, like label_encrypted. NULL means the dot has no value.
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='dots' AND column_name='description_encrypted') THEN
+        ALTER TABLE dots ADD COLUMN description_encrypted TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='dots' AND column_name='owner_encrypted') THEN
+        ALTER TABLE dots ADD COLUMN owner_encrypted TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='dots' AND column_name='url_encrypted') THEN
+        ALTER TABLE dots ADD COLUMN url_encrypted TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='dots' AND column_name='due_date_encrypted') THEN
+        ALTER TABLE dots ADD COLUMN due_date_encrypted TEXT;
+    END IF;
+END $$;
+
+COMMENT ON COLUMN dots.description_encrypted IS 'Encrypted markdown description of the dot';
+COMMENT ON COLUMN dots.owner_encrypted IS 'Encrypted owner name of the dot';
+COMMENT ON COLUMN dots.url_encrypted IS 'Encrypted external link (issue or pull request) of the dot';
+COMMENT ON COLUMN dots.due_date_encrypted IS 'Encrypted due date (YYYY-MM-DD) of the dot';
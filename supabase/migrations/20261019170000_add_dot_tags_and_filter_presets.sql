@@ -0,0 +1,17 @@
+-- Add dot tags and saved filter presets
+-- Migration: 20261019170000_add_dot_tags_and_filter_presets.sql
+
+-- Dot tags are an encrypted JSON list (["checkout", "payments"]); NULL means no tags.
+-- Filter presets are an encrypted JSON list of named tag/color/size/owner filters per collection.
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='dots' AND column_name='tags_encrypted') THEN
+        ALTER TABLE dots ADD COLUMN tags_encrypted TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='collections' AND column_name='filter_presets_encrypted') THEN
+        ALTER TABLE collections ADD COLUMN filter_presets_encrypted TEXT;
+    END IF;
+END $$;
+
+COMMENT ON COLUMN dots.tags_encrypted IS 'Encrypted JSON list of free-form dot tags';
+COMMENT ON COLUMN collections.filter_presets_encrypted IS 'Encrypted JSON list of saved dot filter presets (tags, colors, sizes, owners)';
@@ -0,0 +1,37 @@
+-- Create the dot history audit table
+-- Migration: 20261019180000_create_dot_history.sql
+
+-- One row per change to a dot. The dot label and the changed fields are stored as
+-- encrypted JSON ({"label": "...", "changes": [{"field": "x", "from": 20, "to": 45}]}).
+-- Rows are kept when the dot is deleted, so there is no foreign key to dots.
+CREATE TABLE IF NOT EXISTS dot_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    collection_id TEXT REFERENCES collections(id) ON DELETE CASCADE NOT NULL,
+    dot_id TEXT NOT NULL,
+    change_type TEXT NOT NULL CHECK (change_type IN ('created', 'updated', 'deleted')),
+    entry_encrypted TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_dot_history_user_collection_created ON dot_history(user_id, collection_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dot_history_dot_id ON dot_history(dot_id);
+
+ALTER TABLE dot_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own dot history" ON dot_history;
+DROP POLICY IF EXISTS "Users can insert their own dot history" ON dot_history;
+DROP POLICY IF EXISTS "Users can delete their own dot history" ON dot_history;
+
+-- History is append-only: there is no update policy
+CREATE POLICY "Users can view their own dot history" ON dot_history
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own dot history" ON dot_history
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own dot history" ON dot_history
+    FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON TABLE dot_history IS 'Audit trail of dot changes (moves, renames, color and size changes, archive and unarchive)';
+COMMENT ON COLUMN dot_history.entry_encrypted IS 'Encrypted JSON with the dot label and the list of changed fields';
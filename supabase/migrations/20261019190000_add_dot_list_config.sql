@@ -0,0 +1,14 @@
+-- Add per-collection sidebar dot list settings
+-- Migration: 20261019190000_add_dot_list_config.sql
+
+-- Encrypted JSON with the sort mode, grouping and manual order of the dot list
+-- ({"sortMode": "manual", "groupBySide": true, "manualOrder": ["<dot id>", ...]}).
+-- NULL means the list is sorted by position without groups.
+DO $$ 
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='collections' AND column_name='dot_list_config_encrypted') THEN
+        ALTER TABLE collections ADD COLUMN dot_list_config_encrypted TEXT;
+    END IF;
+END $$;
+
+COMMENT ON COLUMN collections.dot_list_config_encrypted IS 'Encrypted JSON containing the dot list sort mode, grouping and manual order';
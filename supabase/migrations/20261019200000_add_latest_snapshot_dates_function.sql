@@ -0,0 +1,20 @@
+-- Add a function returning the most recent snapshot date of each collection
+-- Migration: 20261019200000_add_latest_snapshot_dates_function.sql
+--
+-- Grouping in the database returns one row per collection, so the result is not
+-- cut short by the API row limit the way reading every snapshot row was.
+-- Runs with the caller's rights, so row level security still applies.
+CREATE OR REPLACE FUNCTION get_latest_snapshot_dates(p_user_id UUID)
+RETURNS TABLE (collection_id TEXT, snapshot_date DATE) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT s.collection_id, MAX(s.snapshot_date)
+    FROM snapshots s
+    WHERE s.user_id = p_user_id AND s.snapshot_date IS NOT NULL
+    GROUP BY s.collection_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_latest_snapshot_dates TO authenticated;
+
+COMMENT ON FUNCTION get_latest_snapshot_dates IS 'Most recent snapshot_date of each of the user''s collections';